@@ -8,6 +8,7 @@
  */
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_EXPENSE_BOT_TOKEN;
+const TELEGRAM_SECRET_TOKEN = process.env.TELEGRAM_WEBHOOK_SECRET || process.env.WEBHOOK_SECRET;
 const WEBHOOK_URL = 'https://duitmyself.obliquetitan.com/webhook/telegram';
 
 if (!TELEGRAM_BOT_TOKEN) {
@@ -28,6 +29,8 @@ async function setWebhook() {
             'edited_message',    // Edited messages
         ],
         drop_pending_updates: false, // Keep pending updates
+        // Telegram echoes this back in X-Telegram-Bot-Api-Secret-Token
+        ...(TELEGRAM_SECRET_TOKEN ? { secret_token: TELEGRAM_SECRET_TOKEN } : {}),
     };
 
     console.log('Webhook configuration:');
@@ -15,6 +15,7 @@ const envVars = Object.fromEntries(
 );
 
 const TELEGRAM_BOT_TOKEN = envVars.TELEGRAM_EXPENSE_BOT_TOKEN;
+const TELEGRAM_SECRET_TOKEN = envVars.TELEGRAM_WEBHOOK_SECRET || envVars.WEBHOOK_SECRET;
 const WEBHOOK_URL = 'https://duitmyself.obliquetitan.com/webhook/telegram';
 
 if (!TELEGRAM_BOT_TOKEN) {
@@ -38,6 +39,8 @@ console.log('⚙️  Setting webhook with allowed_updates...');
 const webhookConfig = {
     url: WEBHOOK_URL,
     allowed_updates: ['message', 'callback_query', 'edited_message'],
+    // Telegram echoes this back in X-Telegram-Bot-Api-Secret-Token
+    ...(TELEGRAM_SECRET_TOKEN ? { secret_token: TELEGRAM_SECRET_TOKEN } : {}),
 };
 
 const response = await fetch(`${telegramApiUrl}/setWebhook`, {
@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from '@/shared/utils/logger';
 import { wideEventMiddleware } from '@/shared/middleware/wide-event.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { config } from '@/shared/config/config';
 
 /**
  * Create and configure the main Hono application
@@ -15,12 +17,21 @@ export function createApp() {
     app.use('/*', cors({
         origin: '*', // Allow all origins for webhook
         allowMethods: ['GET', 'POST', 'OPTIONS'],
-        allowHeaders: ['Content-Type', 'Authorization'],
+        allowHeaders: ['Content-Type', 'Authorization', 'X-Signature', 'X-Signature-Timestamp'],
     }));
 
     // Wide Event middleware - emits single canonical log line per request
     app.use('/*', wideEventMiddleware());
 
+    // Rate limiting - guards Gemini/Lunch Money quota against looping macros
+    const rateLimit = rateLimitMiddleware({
+        windowMs: config.rateLimit.windowMs,
+        maxRequests: config.rateLimit.maxRequests,
+        trustedProxies: config.rateLimit.trustedProxies,
+    });
+    app.use('/webhook/*', rateLimit);
+    app.use('/jobs/*', rateLimit);
+
     // Error handling middleware
     app.onError((err, c) => {
         logger.error({
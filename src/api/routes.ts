@@ -2,21 +2,26 @@ import { Hono } from 'hono';
 import type { TransactionProcessor } from '@/services/expense-tracker/transaction-processor.service';
 import type { CCStatementService } from '@/services/cc-statements/cc-statement.service';
 import type { TelegramConversationService } from '@/services/expense-tracker/services/telegram-conversation.service';
+import type { JobQueue } from '@/shared/queue/job-queue.interface';
 import { createWebhookRoutes } from '@/services/expense-tracker/routes/webhook.route';
 import { createCCStatementRoutes } from '@/services/cc-statements/routes/cc-statement.route';
 import { createTelegramRoutes } from '@/services/expense-tracker/routes/telegram.route';
+import { createReceiptRoutes } from '@/services/expense-tracker/routes/receipt.route';
 import type { HealthCheckResponse } from '@/shared/types/common.types';
+import { config } from '@/shared/config/config';
 
 /**
  * Create and configure all API routes
  * 
  * @param processor - Transaction processor instance
+ * @param queue - Job queue for background transaction processing
  * @param ccStatementService - CC Statement service instance (optional)
  * @param telegramConversationService - Telegram conversation service instance (optional)
  * @returns Hono app with all routes configured
  */
 export function createRoutes(
     processor: TransactionProcessor,
+    queue: JobQueue,
     ccStatementService?: CCStatementService,
     telegramConversationService?: TelegramConversationService
 ) {
@@ -28,7 +33,7 @@ export function createRoutes(
         const adapterStatus = await processor.validateAdapters();
 
         // Determine overall health
-        const allHealthy = Object.values(adapterStatus).every((status) => status === true);
+        const allHealthy = adapterStatus.ai && adapterStatus.budget && adapterStatus.geocoding;
         const status = allHealthy ? 'healthy' : 'degraded';
 
         const response: HealthCheckResponse = {
@@ -40,6 +45,12 @@ export function createRoutes(
                 budget: adapterStatus.budget ? 'connected' : 'error',
                 geocoding: adapterStatus.geocoding ? 'connected' : 'error',
             },
+            aiProviders: adapterStatus.aiProviders?.map(({ name, model, connected, circuit }) => ({
+                name,
+                model,
+                status: connected ? 'connected' : 'error',
+                circuit,
+            })),
         };
 
         return c.json(response, status === 'healthy' ? 200 : 503);
@@ -54,13 +65,23 @@ export function createRoutes(
             successRate: 1.0, // TODO: Calculate from actual data
             averageProcessingTime: 0, // TODO: Track this
             uptime: process.uptime(),
+            jobs: queue.getStats(),
         });
     });
 
     // Mount webhook routes
-    const webhookRoutes = createWebhookRoutes(processor);
+    const webhookRoutes = createWebhookRoutes(queue);
     app.route('/', webhookRoutes);
 
+    // Mount receipt archive routes (if archiving is enabled)
+    if (processor.receipts) {
+        const receiptRoutes = createReceiptRoutes(processor.receipts, {
+            secret: config.security.webhookSecret,
+            toleranceSeconds: config.security.signatureToleranceSeconds,
+        });
+        app.route('/', receiptRoutes);
+    }
+
     // Mount CC statement routes (if service is available)
     if (ccStatementService) {
         const ccStatementRoutes = createCCStatementRoutes(ccStatementService);
@@ -69,7 +90,7 @@ export function createRoutes(
 
     // Mount Telegram routes (if service is available)
     if (telegramConversationService) {
-        const telegramRoutes = createTelegramRoutes(telegramConversationService);
+        const telegramRoutes = createTelegramRoutes(telegramConversationService, config.telegram.expenseChatId);
         app.route('/', telegramRoutes);
     }
 
@@ -7,7 +7,16 @@ import { createApp } from './api/app';
 import { createRoutes } from './api/routes';
 import { TransactionProcessor } from './services/expense-tracker/transaction-processor.service';
 import { GeminiAdapter } from './services/expense-tracker/adapters/ai/gemini.adapter';
+import { OpenAICompatibleAdapter } from './services/expense-tracker/adapters/ai/openai-compatible.adapter';
+import { TemplateAdapter } from './services/expense-tracker/adapters/ai/template.adapter';
+import { FallbackChainAdapter } from './services/expense-tracker/adapters/ai/fallback-chain.adapter';
+import type { AIAdapter } from './services/expense-tracker/adapters/ai/ai.interface';
 import { LunchMoneyAdapter } from './services/expense-tracker/adapters/budget/lunch-money.adapter';
+import { YnabAdapter } from './services/expense-tracker/adapters/budget/ynab.adapter';
+import { ActualBudgetAdapter } from './services/expense-tracker/adapters/budget/actual-budget.adapter';
+import { CsvBudgetAdapter } from './services/expense-tracker/adapters/budget/csv.adapter';
+import { CompositeBudgetAdapter } from './services/expense-tracker/adapters/budget/composite-budget.adapter';
+import type { BudgetAdapter } from './services/expense-tracker/adapters/budget/budget.interface';
 import { LocationIQAdapter } from './services/expense-tracker/adapters/geocoding/locationiq.adapter';
 import { CCStatementService } from './services/cc-statements/cc-statement.service';
 import { NotionAdapterImpl } from './services/cc-statements/adapters/notion/notion.adapter';
@@ -16,10 +25,115 @@ import { TelegramBotAdapter } from './services/expense-tracker/adapters/telegram
 import { ConversationStateService } from './services/expense-tracker/services/conversation-state.service';
 import { AccountSelectionService } from './services/expense-tracker/services/account-selection.service';
 import { TelegramConversationService } from './services/expense-tracker/services/telegram-conversation.service';
+import { SqliteTransactionLedger } from './services/expense-tracker/repositories/sqlite-ledger.repository';
+import { SqliteConversationStore } from './services/expense-tracker/repositories/sqlite-conversation.repository';
+import { SqliteSharedExpenseStore } from './services/expense-tracker/repositories/sqlite-shared-expense.repository';
+import { SqliteCorrectionStore } from './services/expense-tracker/repositories/sqlite-correction.repository';
+import { InMemoryConversationStore } from './services/expense-tracker/repositories/in-memory-conversation.repository';
+import { DuplicateDetectionService } from './services/expense-tracker/services/duplicate-detection.service';
+import { CategoryService } from './services/expense-tracker/services/category.service';
+import { SharedExpenseService } from './services/expense-tracker/services/shared-expense.service';
+import { RuleEngine } from './services/expense-tracker/services/rule-engine.service';
+import { CorrectionService } from './services/expense-tracker/services/correction.service';
+import { ReceiptArchiveService } from './services/expense-tracker/services/receipt-archive.service';
+import { FileReceiptStore } from './services/expense-tracker/repositories/file-receipt.repository';
+import { registerTransactionJobs } from './services/expense-tracker/jobs/transaction.jobs';
+import { SqliteJobQueue } from './shared/queue/sqlite-job-queue';
+import { openDatabase } from './shared/db/sqlite';
 import { config, logConfigSummary } from './shared/config/config';
 import { logger } from './shared/utils/logger';
 import { join } from 'path';
 
+/**
+ * Create the AI adapter: known notification formats are parsed by templates
+ * first, and fallback providers are tried when the primary one fails
+ */
+function createAIAdapter(): AIAdapter {
+    const providers = [{ provider: config.ai.provider, model: config.ai.model }, ...config.ai.fallbacks];
+    const adapter = providers.length > 1
+        ? new FallbackChainAdapter(
+            providers.map(({ provider, model }) => {
+                const providerAdapter = createAIProvider(provider, model);
+                return { name: `${provider}:${providerAdapter.model}`, adapter: providerAdapter };
+            }),
+            config.ai.circuitBreaker
+        )
+        : createAIProvider(config.ai.provider, config.ai.model);
+
+    return config.ai.templateExtraction ? new TemplateAdapter(adapter) : adapter;
+}
+
+/**
+ * Create the adapter for one AI provider (model defaults to the provider's default)
+ */
+function createAIProvider(provider: typeof config.ai.provider, model: string | undefined): AIAdapter {
+    switch (provider) {
+        case 'openai':
+            return new OpenAICompatibleAdapter({
+                baseUrl: config.openai.baseUrl,
+                apiKey: config.openai.apiKey,
+                model: model ?? 'gpt-4o-mini',
+                temperature: config.ai.temperature,
+                retry: config.retry,
+            });
+        case 'gemini':
+            return new GeminiAdapter(config.gemini.apiKey, {
+                model,
+                temperature: config.ai.temperature,
+            });
+    }
+}
+
+/**
+ * Create the adapter for one budget backend
+ */
+function createBudgetBackend(provider: typeof config.budget.mirrors[number]): BudgetAdapter {
+    switch (provider) {
+        case 'ynab':
+            return new YnabAdapter(
+                config.ynab.accessToken,
+                config.ynab.budgetId,
+                config.ynab.baseUrl,
+                config.retry
+            );
+        case 'actual':
+            return new ActualBudgetAdapter(
+                config.actual.apiUrl,
+                config.actual.apiKey,
+                config.actual.budgetSyncId,
+                config.retry,
+                config.actual.encryptionPassword
+            );
+        case 'csv':
+            return new CsvBudgetAdapter(config.budget.csvPath);
+        case 'lunchmoney':
+            return new LunchMoneyAdapter(
+                config.lunchMoney.apiKey,
+                config.lunchMoney.baseUrl,
+                config.retry
+            );
+    }
+}
+
+/**
+ * Create the budget adapter selected with BUDGET_PROVIDER
+ *
+ * With BUDGET_MIRRORS set, transactions are fanned out to the mirrors as well.
+ */
+function createBudgetAdapter(): BudgetAdapter {
+    const primary = createBudgetBackend(config.budget.provider);
+    const mirrors = config.budget.mirrors.filter((provider) => provider !== config.budget.provider);
+
+    if (mirrors.length === 0) {
+        return primary;
+    }
+
+    return new CompositeBudgetAdapter([
+        { name: config.budget.provider, adapter: primary },
+        ...mirrors.map((provider) => ({ name: provider, adapter: createBudgetBackend(provider) })),
+    ], config.budget.fanOutPolicy);
+}
+
 /**
  * Application entry point
  */
@@ -30,15 +144,40 @@ async function main() {
         // Log configuration summary
         logConfigSummary();
 
+        if (!config.security.webhookSecret) {
+            logger.warn('WEBHOOK_SECRET not set - webhook signature verification is disabled');
+        }
+
+        // Open local database
+        const db = openDatabase(config.storage.databasePath);
+        const ledger = new SqliteTransactionLedger(db);
+        const duplicateDetection = config.deduplication.enabled
+            ? new DuplicateDetectionService(ledger, config.deduplication)
+            : undefined;
+
+        logger.info({
+            event: 'storage.initialized',
+            databasePath: config.storage.databasePath,
+        }, 'Local database opened');
+
         // Initialize adapters
         logger.info('Initializing adapters...');
 
-        const geminiAdapter = new GeminiAdapter(config.gemini.apiKey);
-        const lunchMoneyAdapter = new LunchMoneyAdapter(
-            config.lunchMoney.apiKey,
-            config.lunchMoney.baseUrl,
-            config.retry
-        );
+        const aiAdapter = createAIAdapter();
+        logger.info({
+            event: 'ai.adapter.selected',
+            provider: config.ai.provider,
+            model: aiAdapter.model,
+            fallbacks: config.ai.fallbacks,
+            templateExtraction: config.ai.templateExtraction,
+        }, `Using ${config.ai.provider} AI provider (${aiAdapter.model})`);
+
+        const budgetAdapter = createBudgetAdapter();
+        logger.info({
+            event: 'budget.adapter.selected',
+            provider: config.budget.provider,
+            mirrors: config.budget.mirrors,
+        }, `Using ${config.budget.provider} budget adapter`);
         const locationIQAdapter = new LocationIQAdapter(
             config.locationIQ.apiKey,
             config.locationIQ.baseUrl,
@@ -46,12 +185,46 @@ async function main() {
         );
 
         // Create transaction processor
+        // Budget categories are cached so AI categories can be mapped to real category IDs
+        const categoryService = new CategoryService(budgetAdapter, config.categories);
+
+        // Parts of split bills owed by other people
+        const sharedExpenseStore = new SqliteSharedExpenseStore(db);
+
+        // Payee cleanup and categorisation rules (config/transaction-rules.json)
+        const ruleEngine = new RuleEngine(config.transactionRules, config.transactionRulesTimeZone);
+
+        // Merchant fixes learned from Telegram edits
+        const correctionService = config.corrections.enabled
+            ? new CorrectionService(new SqliteCorrectionStore(db), config.corrections)
+            : undefined;
+
+        // Original screenshots, linked from the ledger and transaction notes
+        const receiptArchive = config.receipts.archiveEnabled
+            ? new ReceiptArchiveService(new FileReceiptStore(config.receipts.archivePath), {
+                publicUrl: config.server.publicUrl,
+                secret: config.security.webhookSecret,
+            })
+            : undefined;
+
         const transactionProcessor = new TransactionProcessor(
-            geminiAdapter,
-            lunchMoneyAdapter,
-            locationIQAdapter
+            aiAdapter,
+            budgetAdapter,
+            locationIQAdapter,
+            ledger,
+            duplicateDetection,
+            categoryService,
+            sharedExpenseStore,
+            ruleEngine,
+            correctionService,
+            receiptArchive
         );
 
+        // Start background job queue for webhook processing
+        const jobQueue = new SqliteJobQueue(db, config.queue);
+        registerTransactionJobs(jobQueue, transactionProcessor);
+        jobQueue.start();
+
         // Initialize CC Statement Service (if credentials are provided)
         let ccStatementService: CCStatementService | undefined;
         if (process.env.NOTION_API_KEY && process.env.TELEGRAM_BOT_TOKEN) {
@@ -98,8 +271,14 @@ async function main() {
                 config.retry
             );
 
-            // Initialize conversation state manager
-            const conversationState = new ConversationStateService();
+            // Initialize conversation state manager (restores confirmations pending before a restart)
+            const conversationStore = config.telegram.conversationStore === 'sqlite'
+                ? new SqliteConversationStore(db)
+                : new InMemoryConversationStore();
+            const conversationState = new ConversationStateService(conversationStore, {
+                ttlMinutes: config.telegram.conversationTtlMinutes,
+            });
+            conversationState.restore();
 
             // Initialize account selection service
             const accountMappingPath = join(process.cwd(), 'config', 'account-mapping.json');
@@ -110,10 +289,11 @@ async function main() {
                 telegramBotAdapter,
                 transactionProcessor,
                 conversationState,
-                accountSelection
+                accountSelection,
+                new SharedExpenseService(sharedExpenseStore, transactionProcessor)
             );
 
-            // Set up periodic cleanup of old conversations (every 30 minutes)
+            // Set up periodic cleanup of expired conversations (every 30 minutes)
             setInterval(() => {
                 conversationState.cleanup();
                 logger.debug({
@@ -141,10 +321,24 @@ async function main() {
 
         // Warn if any adapters failed validation
         if (!adapterStatus.ai) {
-            logger.warn('AI adapter validation failed - check GEMINI_API_KEY');
+            const credentials = {
+                gemini: 'GEMINI_API_KEY',
+                openai: 'OPENAI_BASE_URL / OPENAI_API_KEY',
+            }[config.ai.provider];
+            logger.warn(`AI adapter validation failed - check ${credentials}`);
+        }
+        for (const provider of adapterStatus.aiProviders ?? []) {
+            if (!provider.connected) {
+                logger.warn(`AI provider ${provider.name} validation failed`);
+            }
         }
         if (!adapterStatus.budget) {
-            logger.warn('Budget adapter validation failed - check LUNCH_MONEY_API_KEY');
+            const credentials = {
+                lunchmoney: 'LUNCH_MONEY_API_KEY',
+                ynab: 'YNAB_ACCESS_TOKEN',
+                actual: 'ACTUAL_API_URL / ACTUAL_API_KEY / ACTUAL_BUDGET_SYNC_ID',
+            }[config.budget.provider];
+            logger.warn(`Budget adapter validation failed - check ${credentials}`);
         }
         if (!adapterStatus.geocoding) {
             logger.warn('Geocoding adapter validation failed - check LOCATIONIQ_API_KEY');
@@ -152,7 +346,7 @@ async function main() {
 
         // Create and configure app
         const app = createApp();
-        const routes = createRoutes(transactionProcessor, ccStatementService, telegramConversationService);
+        const routes = createRoutes(transactionProcessor, jobQueue, ccStatementService, telegramConversationService);
 
         // Mount routes
         app.route('/', routes);
@@ -175,13 +369,21 @@ async function main() {
         process.on('SIGINT', () => {
             logger.info('Received SIGINT, shutting down gracefully...');
             server.stop();
-            process.exit(0);
+            // Let running jobs finish; anything still queued resumes on next start
+            void jobQueue.stop().finally(() => {
+                db.close();
+                process.exit(0);
+            });
         });
 
         process.on('SIGTERM', () => {
             logger.info('Received SIGTERM, shutting down gracefully...');
             server.stop();
-            process.exit(0);
+            // Let running jobs finish; anything still queued resumes on next start
+            void jobQueue.stop().finally(() => {
+                db.close();
+                process.exit(0);
+            });
         });
     } catch (error) {
         logger.error({
@@ -1,49 +1,131 @@
 import type { ExtractedTransaction } from '@/shared/types/common.types';
 
+/**
+ * A past user correction, given to the AI as an example
+ */
+export interface CorrectionHint {
+    /** Merchant as it was extracted */
+    merchant: string;
+    /** Payee name the user changed it to */
+    payee?: string | undefined;
+    /** Category the user changed it to */
+    category?: string | undefined;
+}
+
+/**
+ * Context given along with a screenshot
+ */
+export interface ImageExtractionContext {
+    appPackageName?: string | undefined;
+    location?: { latitude: number; longitude: number } | undefined;
+    timestamp?: string | undefined;
+    userPayee?: string | undefined;
+    userRemarks?: string | undefined;
+    availableAccounts?: Array<{ packageName: string; accountId: string }> | undefined;
+    corrections?: CorrectionHint[] | undefined;
+    /** MIME type of the image, PNG if not given */
+    mimeType?: string | undefined;
+}
+
+/**
+ * Circuit breaker state of an AI provider
+ * - closed: requests go through
+ * - open: the provider failed repeatedly and is skipped
+ * - half_open: the cool-down passed; the next request tries the provider again
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Health of one AI provider in a fallback chain
+ */
+export interface AIProviderStatus {
+    name: string;
+    model: string;
+    connected: boolean;
+    circuit: CircuitState;
+}
+
 /**
  * AI Adapter Interface
  * 
  * Defines the contract for AI services that extract transaction data
  * from banking notification text.
  * 
- * Implementations: Gemini, Claude, custom models
+ * Implementations: Gemini, OpenAI-compatible (OpenAI, Ollama, llama.cpp, ...),
+ * Template (regex templates for known notifications, wrapping another adapter),
+ * Fallback chain (tries several adapters in order)
  */
 export interface AIAdapter {
+    /**
+     * Model name (for logs and wide events)
+     */
+    readonly model: string;
+
     /**
      * Extract transaction data from notification text
      * 
      * @param text - Notification text from banking app
+     * @param options - Optional app package name and past corrections to learn from
      * @returns Extracted transaction data
      * @throws {AIExtractionError} If extraction fails
      */
-    extractTransactionData(text: string): Promise<ExtractedTransaction>;
+    extractTransactionData(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction>;
 
     /**
      * Extract transaction data from screenshot image
      * 
      * @param imageBase64 - Base64-encoded screenshot image
-     * @param metadata - Optional metadata (app package name, location, timestamp)
+     * @param metadata - Optional metadata (app package name, location, timestamp, past corrections)
      * @returns Extracted transaction data
      * @throws {AIExtractionError} If extraction fails
      */
     extractTransactionDataFromImage(
         imageBase64: string,
-        metadata?: {
-            appPackageName?: string | undefined;
-            location?: { latitude: number; longitude: number } | undefined;
-            timestamp?: string | undefined;
-            userPayee?: string | undefined;
-            userRemarks?: string | undefined;
-            availableAccounts?: Array<{ packageName: string; accountId: string }> | undefined;
-        }
+        metadata?: ImageExtractionContext
     ): Promise<ExtractedTransaction>;
 
+    /**
+     * Extract every transaction from notification text (e.g. "3 transactions today")
+     *
+     * @param text - Notification text from banking app
+     * @param options - Optional app package name and past corrections to learn from
+     * @returns Extracted transactions (empty if the notification isn't about a transaction)
+     * @throws {AIExtractionError} If extraction fails
+     */
+    extractTransactions(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction[]>;
+
+    /**
+     * Extract every transaction from a screenshot (e.g. a statement or transaction history)
+     *
+     * @param imageBase64 - Base64-encoded screenshot image
+     * @param metadata - Optional metadata (app package name, location, timestamp, past corrections)
+     * @returns Extracted transactions (empty if the screenshot doesn't show a transaction)
+     * @throws {AIExtractionError} If extraction fails
+     */
+    extractTransactionsFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction[]>;
+
     /**
      * Validate API key/credentials
      * 
      * @returns True if credentials are valid
      */
     validateApiKey(): Promise<boolean>;
+
+    /**
+     * Validate each provider separately (only adapters with several providers)
+     *
+     * @returns Status of every provider, or undefined if there is a single provider
+     */
+    validateProviders?(): Promise<AIProviderStatus[] | undefined>;
 }
 
 /**
@@ -59,3 +141,21 @@ export class AIExtractionError extends Error {
         this.name = 'AIExtractionError';
     }
 }
+
+/**
+ * AI response that failed validation, even after asking the model to repair it
+ */
+export class AIResponseValidationError extends AIExtractionError {
+    constructor(
+        message: string,
+        notificationText: string,
+        /** Validation issues of the last response */
+        public readonly issues: string[],
+        /** Number of responses received (first attempt plus repairs) */
+        public readonly attempts: number,
+        cause?: Error
+    ) {
+        super(message, notificationText, cause);
+        this.name = 'AIResponseValidationError';
+    }
+}
@@ -0,0 +1,231 @@
+import type { AIAdapter, AIProviderStatus, CircuitState, CorrectionHint, ImageExtractionContext } from './ai.interface';
+import { AIExtractionError } from './ai.interface';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * A named AI provider in the chain
+ */
+export interface AIProvider {
+    /** Name used in logs and health checks (e.g. "gemini:gemini-2.5-flash-lite") */
+    name: string;
+    adapter: AIAdapter;
+}
+
+/**
+ * Circuit breaker options (per provider)
+ */
+export interface CircuitBreakerOptions {
+    /** Consecutive failures after which a provider is skipped */
+    failureThreshold: number;
+    /** How long a provider is skipped before it is tried again */
+    resetMs: number;
+}
+
+/**
+ * Failure tracking for one provider
+ */
+interface Circuit {
+    failures: number;
+    /** When the circuit opened (undefined while closed) */
+    openedAt?: number | undefined;
+}
+
+/**
+ * Fallback Chain AI Adapter
+ *
+ * Tries AI providers in order until one extracts the transaction, so an
+ * outage of the primary provider doesn't drop transactions. Each provider
+ * has a circuit breaker: after `failureThreshold` consecutive failures it is
+ * skipped for `resetMs`, then tried once more (half-open) before being
+ * closed again on success or reopened on failure.
+ *
+ * The model that succeeded is returned in `ExtractedTransaction.model` (of
+ * every transaction, for multi-transaction extractions).
+ */
+export class FallbackChainAdapter implements AIAdapter {
+    private circuits = new Map<string, Circuit>();
+
+    constructor(
+        private readonly providers: AIProvider[],
+        private readonly options: CircuitBreakerOptions
+    ) {
+        if (providers.length === 0) {
+            throw new Error('FallbackChainAdapter needs at least one provider');
+        }
+    }
+
+    /**
+     * Model of the primary provider
+     */
+    get model(): string {
+        return this.providers[0]!.adapter.model;
+    }
+
+    async extractTransactionData(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction> {
+        return this.extract(
+            (adapter) => adapter.extractTransactionData(text, options),
+            text
+        );
+    }
+
+    async extractTransactionDataFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction> {
+        return this.extract(
+            (adapter) => adapter.extractTransactionDataFromImage(imageBase64, metadata),
+            `Screenshot from ${metadata?.appPackageName || 'unknown app'}`
+        );
+    }
+
+    async extractTransactions(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction[]> {
+        return this.extract(
+            (adapter) => adapter.extractTransactions(text, options),
+            text
+        );
+    }
+
+    async extractTransactionsFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction[]> {
+        return this.extract(
+            (adapter) => adapter.extractTransactionsFromImage(imageBase64, metadata),
+            `Screenshot from ${metadata?.appPackageName || 'unknown app'}`
+        );
+    }
+
+    /**
+     * Valid if any provider is
+     */
+    async validateApiKey(): Promise<boolean> {
+        const statuses = await this.validateProviders();
+        return statuses.some((status) => status.connected);
+    }
+
+    /**
+     * Validate every provider (doesn't change circuit states)
+     */
+    async validateProviders(): Promise<AIProviderStatus[]> {
+        return Promise.all(this.providers.map(async ({ name, adapter }) => {
+            let connected = false;
+            try {
+                connected = await adapter.validateApiKey();
+            } catch (error) {
+                logger.warn({
+                    event: 'ai.provider.validate.failed',
+                    provider: name,
+                    error: error instanceof Error ? error.message : error,
+                }, `AI provider ${name} validation failed`);
+            }
+            return { name, model: adapter.model, connected, circuit: this.circuitState(name) };
+        }));
+    }
+
+    /**
+     * Run an extraction against each provider in order, skipping open circuits
+     */
+    private async extract<T extends ExtractedTransaction | ExtractedTransaction[]>(
+        run: (adapter: AIAdapter) => Promise<T>,
+        notificationText: string
+    ): Promise<T> {
+        let lastError: Error | undefined;
+
+        for (const [index, { name, adapter }] of this.providers.entries()) {
+            if (this.circuitState(name) === 'open') {
+                logger.debug({ event: 'ai.provider.skipped', provider: name }, `Skipping AI provider ${name} (circuit open)`);
+                continue;
+            }
+
+            try {
+                const extracted = await run(adapter);
+                this.recordSuccess(name);
+
+                if (index > 0) {
+                    logger.info({
+                        event: 'ai.provider.fallback',
+                        provider: name,
+                        model: adapter.model,
+                    }, `Extracted with fallback AI provider ${name}`);
+                }
+
+                const withModel = (transaction: ExtractedTransaction): ExtractedTransaction => ({
+                    ...transaction,
+                    model: transaction.model ?? adapter.model,
+                });
+                return (Array.isArray(extracted) ? extracted.map(withModel) : withModel(extracted)) as T;
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+                this.recordFailure(name, lastError);
+            }
+        }
+
+        throw new AIExtractionError(
+            lastError ? 'All AI providers failed' : 'All AI providers are unavailable (circuits open)',
+            notificationText,
+            lastError
+        );
+    }
+
+    /**
+     * Current circuit state of a provider
+     */
+    private circuitState(name: string): CircuitState {
+        const openedAt = this.circuit(name).openedAt;
+        if (openedAt === undefined) {
+            return 'closed';
+        }
+        return Date.now() - openedAt >= this.options.resetMs ? 'half_open' : 'open';
+    }
+
+    /**
+     * Failure tracking for a provider
+     */
+    private circuit(name: string): Circuit {
+        let circuit = this.circuits.get(name);
+        if (!circuit) {
+            circuit = { failures: 0 };
+            this.circuits.set(name, circuit);
+        }
+        return circuit;
+    }
+
+    private recordSuccess(name: string): void {
+        const circuit = this.circuit(name);
+        if (circuit.openedAt !== undefined) {
+            logger.info({ event: 'ai.circuit.closed', provider: name }, `AI provider ${name} recovered`);
+        }
+        circuit.failures = 0;
+        circuit.openedAt = undefined;
+    }
+
+    private recordFailure(name: string, error: Error): void {
+        const circuit = this.circuit(name);
+        const halfOpen = this.circuitState(name) === 'half_open';
+        circuit.failures++;
+
+        logger.warn({
+            event: 'ai.provider.failed',
+            provider: name,
+            failures: circuit.failures,
+            error: error.message,
+        }, `AI provider ${name} failed`);
+
+        if (halfOpen || circuit.failures >= this.options.failureThreshold) {
+            circuit.openedAt = Date.now();
+            logger.error({
+                event: 'ai.circuit.opened',
+                provider: name,
+                failures: circuit.failures,
+                resetMs: this.options.resetMs,
+            }, `AI provider ${name} failed ${circuit.failures} times in a row, skipping it for ${Math.round(this.options.resetMs / 1000)}s`);
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import { SchemaType, type ResponseSchema } from '@google/generative-ai';
+import { z } from 'zod';
+import { extractedTransactionSchema, extractedTransactionsSchema } from '@/shared/utils/validators';
+
+/**
+ * Convert a Zod schema to a Gemini response schema
+ *
+ * Supports the subset used by the extraction schemas: objects, arrays,
+ * strings, enums, numbers and booleans, wrapped in optional, nullable or
+ * transforms. Transforms are dropped - they run when the response is validated.
+ */
+export function toResponseSchema(schema: z.ZodTypeAny): ResponseSchema {
+    const description = schema.description !== undefined ? { description: schema.description } : {};
+
+    if (schema instanceof z.ZodOptional) {
+        return toResponseSchema(schema.unwrap() as z.ZodTypeAny);
+    }
+    if (schema instanceof z.ZodEffects) {
+        return toResponseSchema(schema.innerType() as z.ZodTypeAny);
+    }
+    if (schema instanceof z.ZodNullable) {
+        return { ...toResponseSchema(schema.unwrap() as z.ZodTypeAny), nullable: true };
+    }
+    if (schema instanceof z.ZodObject) {
+        const shape = schema.shape as Record<string, z.ZodTypeAny>;
+        return {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toResponseSchema(field)])),
+            required: Object.entries(shape).filter(([, field]) => !field.isOptional()).map(([key]) => key),
+            ...description,
+        };
+    }
+    if (schema instanceof z.ZodArray) {
+        return { type: SchemaType.ARRAY, items: toResponseSchema(schema.element as z.ZodTypeAny), ...description };
+    }
+    if (schema instanceof z.ZodEnum) {
+        return { type: SchemaType.STRING, format: 'enum', enum: [...schema.options as string[]], ...description };
+    }
+    if (schema instanceof z.ZodString) {
+        return { type: SchemaType.STRING, ...description };
+    }
+    if (schema instanceof z.ZodNumber) {
+        return { type: SchemaType.NUMBER, ...description };
+    }
+    if (schema instanceof z.ZodBoolean) {
+        return { type: SchemaType.BOOLEAN, ...description };
+    }
+
+    throw new Error(`Unsupported schema type for Gemini response schema: ${(schema._def as { typeName?: string }).typeName}`);
+}
+
+/**
+ * Response schema for transaction extraction, derived from the validation schema
+ */
+export const extractionResponseSchema = toResponseSchema(extractedTransactionSchema);
+
+/**
+ * Response schema for multi-transaction extraction
+ */
+export const multipleExtractionResponseSchema = toResponseSchema(extractedTransactionsSchema);
@@ -0,0 +1,101 @@
+import type { TransactionType } from '@/shared/types/common.types';
+
+/**
+ * A fixed notification format from one banking app
+ *
+ * The pattern is matched against the whole notification (whitespace collapsed)
+ * and must capture `amount` and `merchant`; `reference` is optional. Amounts
+ * are in MYR.
+ */
+export interface NotificationTemplate {
+    /** Template name (for logs) */
+    name: string;
+    /** Package names of the apps that send this notification */
+    apps: string[];
+    pattern: RegExp;
+    type: TransactionType;
+    category?: string | undefined;
+}
+
+/** Ringgit amount, e.g. "RM12.50", "RM 1,234.50" */
+const AMOUNT = String.raw`(?:RM|MYR)\s?(?<amount>\d{1,3}(?:,\d{3})*(?:\.\d{2})?|\d+(?:\.\d{2})?)`;
+
+/** Merchant name within one sentence, so trailing text (e.g. a balance) makes the template miss */
+const MERCHANT = String.raw`(?<merchant>[^.]+?)`;
+
+/**
+ * Build an anchored, case-insensitive template pattern (whole notification only)
+ */
+function template(source: string): RegExp {
+    return new RegExp(`^${source}$`, 'i');
+}
+
+const MAYBANK_MAE = 'com.maybank2u.life';
+const TNG_EWALLET = 'my.com.tngdigital.ewallet';
+const GRAB = 'com.grabtaxi.passenger';
+
+/**
+ * Built-in templates for well-formed Maybank MAE, TNG eWallet and Grab notifications
+ *
+ * Anything that doesn't match exactly (promotions, new wording) goes to the AI.
+ */
+export const NOTIFICATION_TEMPLATES: NotificationTemplate[] = [
+    {
+        name: 'mae-payment',
+        apps: [MAYBANK_MAE],
+        pattern: template(String.raw`You(?:'ve| have) successfully paid ${AMOUNT} to ${MERCHANT}\.?`),
+        type: 'debit',
+    },
+    {
+        name: 'mae-transfer',
+        apps: [MAYBANK_MAE],
+        pattern: template(String.raw`You(?:'ve| have) successfully transferred ${AMOUNT} to ${MERCHANT}(?: via DuitNow)?(?:\.? Ref(?:erence)?:? (?<reference>\S+?))?\.?`),
+        type: 'debit',
+        category: 'transfer',
+    },
+    {
+        name: 'mae-received',
+        apps: [MAYBANK_MAE],
+        pattern: template(String.raw`You(?:'ve| have) received ${AMOUNT} from ${MERCHANT}\.?`),
+        type: 'credit',
+        category: 'transfer',
+    },
+    {
+        name: 'mae-card',
+        apps: [MAYBANK_MAE],
+        pattern: template(String.raw`Your Maybank (?:debit |credit )?card ending \d{4} (?:was|has been) charged ${AMOUNT} at ${MERCHANT}(?: on [\d/-]+(?: [\d:]+)?)?\.?`),
+        type: 'debit',
+    },
+    {
+        name: 'tng-payment',
+        apps: [TNG_EWALLET],
+        pattern: template(String.raw`You have paid ${AMOUNT} to ${MERCHANT}\.?`),
+        type: 'debit',
+    },
+    {
+        name: 'tng-payment-successful',
+        apps: [TNG_EWALLET],
+        pattern: template(String.raw`Payment of ${AMOUNT} to ${MERCHANT} (?:is|was) successful\.?`),
+        type: 'debit',
+    },
+    {
+        name: 'tng-received',
+        apps: [TNG_EWALLET],
+        pattern: template(String.raw`You have received ${AMOUNT} from ${MERCHANT}\.?`),
+        type: 'credit',
+        category: 'transfer',
+    },
+    {
+        name: 'grab-payment',
+        apps: [GRAB],
+        pattern: template(String.raw`You paid ${AMOUNT} to ${MERCHANT} (?:with|using) GrabPay(?: Wallet)?\.?`),
+        type: 'debit',
+    },
+    {
+        name: 'grab-received',
+        apps: [GRAB],
+        pattern: template(String.raw`You received ${AMOUNT} from ${MERCHANT} (?:via|on) GrabPay(?: Wallet)?\.?`),
+        type: 'credit',
+        category: 'transfer',
+    },
+];
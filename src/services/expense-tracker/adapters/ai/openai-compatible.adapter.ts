@@ -0,0 +1,270 @@
+import ky, { type KyInstance } from 'ky';
+import type { AIAdapter, CorrectionHint, ImageExtractionContext } from './ai.interface';
+import { AIExtractionError } from './ai.interface';
+import { buildPrompt, buildVisionPrompt, parseResponse, withMultipleTransactions } from './prompts';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+import { validateExtractedTransaction, validateExtractedTransactions } from '@/shared/utils/validators';
+import { logger, logAIExtractionRequest, logAIExtractionResponse } from '@/shared/utils/logger';
+
+/**
+ * Chat message content part (text or image)
+ */
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * Chat completions API response (fields we use)
+ */
+interface ChatCompletionResponse {
+    choices?: Array<{
+        message?: { content?: string | null };
+    }>;
+}
+
+/**
+ * OpenAI-compatible adapter options
+ */
+export interface OpenAICompatibleOptions {
+    /** API base URL, including the version (e.g. https://api.openai.com/v1, http://localhost:11434/v1) */
+    baseUrl: string;
+    /** API key (local servers usually don't need one) */
+    apiKey?: string | undefined;
+    /** Model name (e.g. gpt-4o-mini, llama3.2-vision) */
+    model: string;
+    /** Sampling temperature (default: the server's) */
+    temperature?: number | undefined;
+    /** Retry configuration */
+    retry: { limit: number; backoffMs: number };
+}
+
+/**
+ * OpenAI-compatible AI Adapter
+ *
+ * Talks to any server implementing the OpenAI chat completions API - OpenAI
+ * itself, or a local Ollama or llama.cpp server so extraction works offline.
+ * Screenshots are sent as data URLs, so the model must support vision.
+ * Uses the same prompts as the Gemini adapter.
+ */
+export class OpenAICompatibleAdapter implements AIAdapter {
+    readonly model: string;
+    private client: KyInstance;
+
+    constructor(private readonly options: OpenAICompatibleOptions) {
+        this.model = options.model;
+        this.client = ky.create({
+            prefixUrl: options.baseUrl,
+            headers: {
+                ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+                'Content-Type': 'application/json',
+            },
+            // Local models can take a while, especially on images
+            timeout: 120_000,
+            retry: {
+                limit: options.retry.limit,
+                methods: ['post', 'get'],
+                statusCodes: [408, 429, 500, 502, 503, 504],
+                backoffLimit: options.retry.backoffMs,
+            },
+            hooks: {
+                beforeRetry: [
+                    ({ request, error, retryCount }) => {
+                        logger.warn({
+                            event: 'ai.api.retry',
+                            url: request.url,
+                            retryCount,
+                            error: error?.message,
+                        }, 'Retrying AI API request');
+                    },
+                ],
+            },
+        });
+    }
+
+    /**
+     * Extract transaction data from notification text
+     */
+    async extractTransactionData(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction> {
+        const [extracted] = await this.extractFromText(text, buildPrompt(text, options?.corrections), false);
+        return extracted!; // A single extraction always yields one transaction
+    }
+
+    /**
+     * Extract every transaction from notification text
+     */
+    async extractTransactions(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction[]> {
+        return this.extractFromText(text, withMultipleTransactions(buildPrompt(text, options?.corrections)), true);
+    }
+
+    /**
+     * Extract transaction data from screenshot image
+     */
+    async extractTransactionDataFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction> {
+        const [extracted] = await this.extractFromImage(imageBase64, buildVisionPrompt(metadata), false, metadata);
+        return extracted!; // A single extraction always yields one transaction
+    }
+
+    /**
+     * Extract every transaction from screenshot image
+     */
+    async extractTransactionsFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction[]> {
+        return this.extractFromImage(imageBase64, withMultipleTransactions(buildVisionPrompt(metadata)), true, metadata);
+    }
+
+    /**
+     * Validate the endpoint and credentials by listing models
+     */
+    async validateApiKey(): Promise<boolean> {
+        try {
+            await this.client.get('models', { retry: 0 });
+            return true;
+        } catch (error) {
+            logger.warn({
+                event: 'ai.validate.failed',
+                baseUrl: this.options.baseUrl,
+                error: error instanceof Error ? error.message : error,
+            }, 'OpenAI-compatible API validation failed');
+            return false;
+        }
+    }
+
+    /**
+     * Run a text extraction
+     *
+     * @param multiple - Whether the prompt asks for every transaction ({"transactions": [...]})
+     */
+    private async extractFromText(text: string, prompt: string, multiple: boolean): Promise<ExtractedTransaction[]> {
+        const requestId = crypto.randomUUID();
+
+        logAIExtractionRequest({
+            notificationText: text,
+            requestId,
+        });
+
+        try {
+            const responseText = await this.complete(prompt);
+            return this.toExtractedTransactions(responseText, multiple, requestId);
+        } catch (error) {
+            logger.error({
+                event: 'ai.extraction.error',
+                notificationText: text,
+                model: this.model,
+                error: error instanceof Error ? {
+                    message: error.message,
+                    stack: error.stack,
+                    name: error.name,
+                } : error,
+                requestId,
+            }, 'AI extraction failed');
+
+            throw new AIExtractionError(
+                'Failed to extract transaction data from notification',
+                text,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * Run a screenshot extraction
+     *
+     * @param multiple - Whether the prompt asks for every transaction ({"transactions": [...]})
+     */
+    private async extractFromImage(
+        imageBase64: string,
+        prompt: string,
+        multiple: boolean,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction[]> {
+        const requestId = crypto.randomUUID();
+
+        logger.info({
+            event: 'ai.extraction.image.request',
+            appPackageName: metadata?.appPackageName,
+            hasLocation: !!(metadata?.location),
+            model: this.model,
+            requestId,
+        }, 'Extracting transaction from screenshot');
+
+        try {
+            const responseText = await this.complete([
+                { type: 'text', text: prompt },
+                { type: 'image_url', image_url: { url: `data:${metadata?.mimeType ?? 'image/png'};base64,${imageBase64}` } },
+            ]);
+            return this.toExtractedTransactions(responseText, multiple, requestId);
+        } catch (error) {
+            logger.error({
+                event: 'ai.extraction.image.error',
+                appPackageName: metadata?.appPackageName,
+                model: this.model,
+                error: error instanceof Error ? {
+                    message: error.message,
+                    stack: error.stack,
+                    name: error.name,
+                } : error,
+                requestId,
+            }, 'AI image extraction failed');
+
+            throw new AIExtractionError(
+                'Failed to extract transaction data from screenshot',
+                `Screenshot from ${metadata?.appPackageName || 'unknown app'}`,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * Send a single user message and return the reply text
+     */
+    private async complete(content: string | ContentPart[]): Promise<string> {
+        const response = await this.client.post('chat/completions', {
+            json: {
+                model: this.model,
+                messages: [{ role: 'user', content }],
+                response_format: { type: 'json_object' },
+                ...(this.options.temperature !== undefined ? { temperature: this.options.temperature } : {}),
+            },
+        }).json<ChatCompletionResponse>();
+
+        const reply = response.choices?.[0]?.message?.content;
+        if (!reply) {
+            throw new Error('Empty response from AI API');
+        }
+        return reply;
+    }
+
+    /**
+     * Parse and validate the reply, logging extracted transactions
+     */
+    private toExtractedTransactions(responseText: string, multiple: boolean, requestId: string): ExtractedTransaction[] {
+        const parsed = parseResponse(responseText);
+        const extracted = multiple ? validateExtractedTransactions(parsed) : [validateExtractedTransaction(parsed)];
+
+        // Log extraction responses only for transactions
+        for (const validated of extracted) {
+            if (validated.is_transaction && validated.amount && validated.merchant && validated.type) {
+                logAIExtractionResponse({
+                    amount: validated.amount,
+                    merchant: validated.merchant,
+                    type: validated.type,
+                    category: validated.category ?? undefined,
+                    requestId,
+                });
+            }
+        }
+
+        return extracted;
+    }
+}
@@ -0,0 +1,360 @@
+import type { CorrectionHint, ImageExtractionContext } from './ai.interface';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Extraction prompts and response parsing shared by the AI adapters
+ *
+ * Every provider gets the same instructions and JSON schema, so switching
+ * providers doesn't change what is extracted.
+ */
+
+/**
+ * Build the AI prompt for transaction extraction
+ */
+export function buildPrompt(text: string, corrections?: CorrectionHint[]): string {
+    return `
+You are a transaction data extraction system for a budgeting app. Analyze banking notifications and extract structured data.
+
+NOTIFICATION TO ANALYZE:
+\`\`\`
+${text}
+\`\`\`
+${buildCorrectionsSection(corrections)}
+STRICT JSON SCHEMA - You MUST follow this exact structure:
+{
+  "is_transaction": boolean,    // true only if this is an actual financial transaction
+  "amount": number,              // REQUIRED if is_transaction=true, always positive
+  "currency": string,            // REQUIRED if is_transaction=true (e.g., "MYR", "USD")
+  "type": "debit" | "credit",    // REQUIRED if is_transaction=true (ONLY these two values allowed)
+  "merchant": string,            // REQUIRED if is_transaction=true
+  "category": string,            // OPTIONAL, see allowed categories below
+  "reference": string,           // OPTIONAL, transaction reference number
+  "notes": string,               // OPTIONAL, copy original notification text
+  "confidence": number           // REQUIRED, 0.0 to 1.0
+}
+
+CRITICAL RULES FOR "type" FIELD:
+- ONLY use "debit" or "credit" - NO OTHER VALUES ALLOWED
+- "debit" = Money going OUT (purchases, payments, transfers to others, withdrawals)
+- "credit" = Money coming IN (salary, refunds, transfers from others, deposits)
+- For person-to-person transfers: use type="debit" with category="transfer"
+
+ALLOWED CATEGORIES (choose the most appropriate):
+- "food" - Restaurants, cafes, food delivery
+- "transport" - Fuel, parking, ride-sharing, public transport
+- "shopping" - Retail purchases, online shopping
+- "bills" - Utilities, subscriptions, recurring payments
+- "transfer" - Person-to-person transfers, bank transfers
+- "entertainment" - Movies, games, hobbies
+- "utilities" - Electricity, water, internet, phone bills
+- "healthcare" - Medical, pharmacy, insurance
+- "other" - Anything that doesn't fit above categories
+
+AMOUNT RULES:
+- ALWAYS use positive numbers for amount
+- The "type" field determines direction (debit=out, credit=in)
+- Extract exact amount from notification (e.g., "RM 45.50" → 45.50)
+
+CONFIDENCE SCORING:
+- 0.9-1.0: Clear transaction with all details present
+- 0.7-0.8: Likely transaction, some details unclear
+- 0.4-0.6: Uncertain, missing key information
+- 0.0-0.3: Probably not a transaction
+
+NON-TRANSACTION EXAMPLES (return is_transaction=false):
+- Promotional messages
+- Account balance updates without transactions
+- Security alerts
+- Service announcements
+- OTP/verification codes
+
+VALID RESPONSE EXAMPLES:
+
+Example 1 - Debit card purchase:
+{
+  "is_transaction": true,
+  "amount": 45.50,
+  "currency": "MYR",
+  "type": "debit",
+  "merchant": "Starbucks KLCC",
+  "category": "food",
+  "reference": "REF123456",
+  "notes": "Debit card purchase at Starbucks KLCC for RM45.50",
+  "confidence": 0.95
+}
+
+Example 2 - Transfer to person:
+{
+  "is_transaction": true,
+  "amount": 100.00,
+  "currency": "MYR",
+  "type": "debit",
+  "merchant": "Ahmad bin Ali",
+  "category": "transfer",
+  "reference": "TRF789012",
+  "notes": "Transfer RM100.00 to Ahmad bin Ali",
+  "confidence": 0.90
+}
+
+Example 3 - Salary credit:
+{
+  "is_transaction": true,
+  "amount": 5000.00,
+  "currency": "MYR",
+  "type": "credit",
+  "merchant": "Company XYZ Sdn Bhd",
+  "category": "other",
+  "reference": "SAL202401",
+  "notes": "Salary credit from Company XYZ",
+  "confidence": 0.98
+}
+
+Example 4 - Not a transaction:
+{
+  "is_transaction": false,
+  "confidence": 0.0
+}
+
+CRITICAL REMINDERS:
+- Return ONLY the JSON object
+- NO markdown code blocks (no \`\`\`json)
+- NO additional text or explanations
+- "type" field MUST be exactly "debit" or "credit" - nothing else
+- Amount MUST be positive number
+
+Now analyze the notification above and return the JSON:
+`.trim();
+}
+
+/**
+ * Build the AI prompt for screenshot transaction extraction
+ */
+export function buildVisionPrompt(metadata?: ImageExtractionContext): string {
+    // Build context info with app identification guidance
+    let contextInfo = '';
+    if (metadata?.appPackageName && metadata.appPackageName !== 'unknown') {
+        contextInfo = `\nCONTEXT: This screenshot is from the app: ${metadata.appPackageName}\n`;
+    } else if (metadata?.availableAccounts && metadata.availableAccounts.length > 0) {
+        // App is unknown - ask AI to help identify it
+        const appList = metadata.availableAccounts.map(acc => acc.packageName).join(', ');
+        contextInfo = `\nCONTEXT: The app that generated this screenshot is UNKNOWN. Based on the visual elements, branding, and transaction details in the screenshot, try to identify which financial institution this belongs to. Known apps: ${appList}\n`;
+    }
+
+    // Build user context section
+    const userContext = [];
+    if (metadata?.userPayee) {
+        userContext.push(`🔴 USER PROVIDED PAYEE: \"${metadata.userPayee}\" - Use this as the merchant name, but NORMALIZE it (proper capitalization, fix spelling, clean formatting). Example: "kk mart" → "KK Mart", "shopee pay" → "Shopee Pay"`);
+    }
+    if (metadata?.userRemarks) {
+        userContext.push(`📝 USER REMARKS (add to notes): ${metadata.userRemarks}`);
+    }
+    const contextSection = userContext.length > 0
+        ? `\n**USER INPUT (PRIORITY OVERRIDE)**:\n${userContext.join('\n')}\n`
+        : '';
+
+    return `
+You are a transaction data extraction system for a budgeting app. Analyze banking app screenshots and extract structured transaction data.
+
+${contextInfo}${contextSection}${buildCorrectionsSection(metadata?.corrections)}
+IMPORTANT: Screenshots may vary significantly in layout, design, and format across different apps and versions. Be adaptive and look for transaction details anywhere in the image.
+
+STRICT JSON SCHEMA - You MUST follow this exact structure:
+{
+  "is_transaction": boolean,    // true only if this is an actual financial transaction
+  "amount": number,              // REQUIRED if is_transaction=true, always positive
+  "currency": string,            // REQUIRED if is_transaction=true (e.g., "MYR", "USD")
+  "type": "debit" | "credit",    // REQUIRED if is_transaction=true (ONLY these two values allowed)
+  "merchant": string,            // REQUIRED if is_transaction=true
+  "category": string,            // OPTIONAL, see allowed categories below
+  "reference": string,           // OPTIONAL, transaction reference number
+  "notes": string,               // OPTIONAL, any additional details from the screenshot
+  "confidence": number,          // REQUIRED, 0.0 to 1.0
+  "transaction_date": string,    // OPTIONAL, ISO 8601 date extracted from screenshot (e.g., "2026-01-06T16:57:00Z")
+  "line_items": [                // OPTIONAL, only for itemised receipts
+    { "name": string, "quantity": number, "price": number, "category": string }
+  ],
+  "tax": number,                 // OPTIONAL, receipt tax total (e.g., SST)
+  "service_charge": number       // OPTIONAL, receipt service charge total
+}
+
+CRITICAL RULES FOR "type" FIELD:
+- ONLY use "debit" or "credit" - NO OTHER VALUES ALLOWED
+- "debit" = Money going OUT (purchases, payments, transfers to others, withdrawals)
+- "credit" = Money coming IN (salary, refunds, transfers from others, deposits)
+- For person-to-person transfers: use type="debit" with category="transfer"
+
+ALLOWED CATEGORIES (choose the most appropriate):
+- "food" - Restaurants, cafes, food delivery
+- "transport" - Fuel, parking, ride-sharing, public transport
+- "shopping" - Retail purchases, online shopping
+- "bills" - Utilities, subscriptions, recurring payments
+- "transfer" - Person-to-person transfers, bank transfers
+- "entertainment" - Movies, games, hobbies
+- "utilities" - Electricity, water, internet, phone bills
+- "healthcare" - Medical, pharmacy, insurance
+- "other" - Anything that doesn't fit above categories
+
+AMOUNT RULES:
+- ALWAYS use positive numbers for amount
+- The "type" field determines direction (debit=out, credit=in)
+- Extract exact amount from screenshot
+- Look for the primary transaction amount (not balances or other amounts)
+
+MERCHANT/PAYEE EXTRACTION (CRITICAL):
+- **IF USER PAYEE NOTE IS PROVIDED**: Use it as the merchant/payee value (just normalize formatting)
+- User input is AUTHORITATIVE - it overrides what you see in the screenshot
+- Only extract from screenshot if NO user payee note is provided
+- When using user payee note: normalize it (fix spelling, proper capitalization, consistent formatting)
+- Examples: "starbuk" → "Starbucks", "grab food" → "Grab Food", "ahmad" → "Ahmad"
+- If NO user payee note: Look for merchant/payee name ANYWHERE in the screenshot
+- Common labels: "Merchant", "Paid to", "Received from", "To", "From", "Payee", "Beneficiary", "Recipient"
+- Ignore app names, bank names, or account names - focus on the actual transaction counterparty
+- Be adaptive to different app layouts and formats
+- If unclear, use the most prominent business/person name visible
+- Examples: "Starbucks", "FP-AEON", "Ahmad bin Ali", "Grab", "Netflix"
+- Ignore app names, bank names, or account names - focus on the actual merchant/payee
+
+TRANSACTION DATE EXTRACTION (IMPORTANT):
+- Look for the transaction date/time displayed ANYWHERE in the screenshot
+- Common formats: "06 Jan 2026, 04:57PM", "2026-01-06 16:57", "Jan 6, 2026", "6/1/2026"
+- Different apps show dates differently - be adaptive
+- Convert to ISO 8601 format: "2026-01-06T16:57:00Z"
+- If you can see a date/time in the screenshot, ALWAYS include it in "transaction_date"
+- If no date is visible in the screenshot, omit the "transaction_date" field entirely
+- The system will use metadata timestamp as fallback if you don't provide transaction_date
+
+RECEIPT LINE ITEMS (only for photographed or itemised receipts):
+- List every purchased item in "line_items": its name as printed, quantity (default 1) and line total in "price" (quantity × unit price, before tax and service charge)
+- Discounts and vouchers printed as their own line are items with a negative price
+- Give each item a category from the allowed categories (e.g. groceries and a phone top-up on one receipt are "shopping" and "utilities")
+- Put tax (SST, GST, VAT) in "tax" and service charge in "service_charge" - not in "line_items"
+- "amount" is still the total paid
+- Omit "line_items", "tax" and "service_charge" for payment confirmations and notifications without items
+
+CONFIDENCE SCORING:
+- 0.9-1.0: Clear transaction with all details visible
+- 0.7-0.8: Likely transaction, some details unclear or partially visible
+- 0.4-0.6: Uncertain, missing key information
+- 0.0-0.3: Probably not a transaction
+
+NON-TRANSACTION EXAMPLES (return is_transaction=false):
+- Account balance screens without transaction details
+- Login screens
+- Settings screens
+- Promotional banners
+- Loading screens
+- Menu screens
+
+SCREENSHOT ANALYSIS INSTRUCTIONS:
+1. **Scan the entire screenshot** - don't assume a specific layout
+2. Look for transaction amount (usually prominent, may be largest number)
+3. **Identify merchant/payee name** - look for business/person names, not app/bank names
+4. Determine transaction type from context words like "Paid", "Received", "Debit", "Credit"
+5. Extract reference/transaction ID if visible (often labeled as "Ref", "Transaction ID", "Order ID")
+6. **EXTRACT TRANSACTION DATE/TIME if visible** - look anywhere in the screenshot
+7. Identify category hints from merchant name or transaction context
+8. Read any additional details for the notes field
+
+HANDLING DIFFERENT APP LAYOUTS:
+- Some apps show merchant at top, some at bottom
+- Some use icons, some use text labels
+- Some show dates prominently, others hide them
+- Be flexible and adaptive - look for semantic meaning, not specific positions
+- Focus on WHAT the information represents, not WHERE it appears
+
+HANDLING ADS AND PROMOTIONAL CONTENT:
+- Screenshots may contain advertisements, banners, or promotional offers
+- Common examples: "Scan & Pay! Huat up to RM88 + 920 Coins", promotional images, special offers
+- **IGNORE promotional content** - focus only on the actual transaction details
+- Look for the core transaction information: amount, merchant, date, reference
+- Ads are usually colorful banners, images with marketing text, or special offers
+- Transaction details are typically in plain text with labels like "Amount", "Paid to", "Date", etc.
+- If unsure whether something is an ad or transaction detail, prioritize information with clear labels
+
+CRITICAL REMINDERS:
+- Return ONLY the JSON object
+- NO markdown code blocks (no \`\`\`json)
+- NO additional text or explanations
+- "type" field MUST be exactly "debit" or "credit" - nothing else
+- Amount MUST be positive number
+- If the screenshot doesn't show a clear transaction, return is_transaction=false
+- If you can see a date/time in the screenshot, include it in "transaction_date" field
+- Extract merchant/payee name even if layout is unfamiliar - look for the business/person name
+
+Now analyze the screenshot and return the JSON:
+`.trim();
+}
+
+/**
+ * Build the prompt section listing past user corrections (empty if there are none)
+ */
+function buildCorrectionsSection(corrections?: CorrectionHint[]): string {
+    const lines = (corrections ?? [])
+        .map((hint) => {
+            const fixes = [
+                hint.payee ? `merchant "${hint.payee}"` : null,
+                hint.category ? `category "${hint.category}"` : null,
+            ].filter(Boolean);
+            return fixes.length > 0 ? `- "${hint.merchant}" → ${fixes.join(', ')}` : null;
+        })
+        .filter(Boolean);
+
+    if (lines.length === 0) {
+        return '';
+    }
+
+    return `\nPAST USER CORRECTIONS (the user fixed these before - use the same merchant name and category for the same or a similar merchant):\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Turn an extraction prompt into one returning every transaction in the input
+ *
+ * For statements, transaction histories and summaries like "3 transactions today".
+ */
+export function withMultipleTransactions(prompt: string): string {
+    return `
+${prompt}
+
+MULTIPLE TRANSACTIONS:
+The input may list several transactions (e.g. a statement, a transaction history or a "3 transactions today" summary).
+Return {"transactions": [...]} instead of a single object: one object per transaction, each following the schema and rules above.
+- List each transaction once, in the order shown; skip balances, totals and pending authorizations already listed as completed
+- Most inputs contain exactly one transaction - return a one-element array for them
+- Return {"transactions": []} if there is no transaction
+`.trim();
+}
+
+/**
+ * Build the follow-up prompt asking the model to fix a response that failed validation
+ */
+export function buildRepairPrompt(issues: string[]): string {
+    return `
+Your previous response did not match the required JSON schema:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return the corrected JSON object only, following the schema and rules above.
+`.trim();
+}
+
+/**
+ * Parse AI response and extract JSON
+ */
+export function parseResponse(responseText: string): unknown {
+    // Remove markdown code blocks if present
+    let cleaned = responseText.trim();
+    cleaned = cleaned.replace(/```json\n?/g, '');
+    cleaned = cleaned.replace(/```\n?/g, '');
+    cleaned = cleaned.trim();
+
+    try {
+        return JSON.parse(cleaned);
+    } catch (error) {
+        logger.error({
+            event: 'ai.response.parse.error',
+            responseText,
+            error,
+        }, 'Failed to parse AI response as JSON');
+
+        throw new Error(`Failed to parse AI response: ${cleaned}`);
+    }
+}
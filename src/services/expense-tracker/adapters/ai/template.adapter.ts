@@ -0,0 +1,130 @@
+import type { AIAdapter, AIProviderStatus, CorrectionHint, ImageExtractionContext } from './ai.interface';
+import { NOTIFICATION_TEMPLATES, type NotificationTemplate } from './notification-templates';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Template AI Adapter
+ *
+ * Parses well-formed notifications from known banking apps with fixed
+ * regex templates, with confidence 1.0 and no API call (`model` is
+ * `template:<name>`). Notifications that don't match a template, and all
+ * screenshots, go to the fallback adapter.
+ */
+export class TemplateAdapter implements AIAdapter {
+    constructor(
+        private readonly fallback: AIAdapter,
+        private readonly templates: NotificationTemplate[] = NOTIFICATION_TEMPLATES
+    ) { }
+
+    get model(): string {
+        return this.fallback.model;
+    }
+
+    /**
+     * Extract transaction data with the app's templates, or the fallback if none match
+     *
+     * Without an app, every template is tried.
+     */
+    async extractTransactionData(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction> {
+        const matched = this.match(text, options?.app);
+        if (matched) {
+            this.logMatched(matched, options?.app);
+            return matched.extracted;
+        }
+
+        return this.fallback.extractTransactionData(text, options);
+    }
+
+    /**
+     * Extract the transaction matched by a template, or every transaction with the fallback
+     *
+     * Templates describe single-transaction notifications, so a match is the only transaction.
+     */
+    async extractTransactions(
+        text: string,
+        options?: { app?: string | undefined; corrections?: CorrectionHint[] | undefined }
+    ): Promise<ExtractedTransaction[]> {
+        const matched = this.match(text, options?.app);
+        if (matched) {
+            this.logMatched(matched, options?.app);
+            return [matched.extracted];
+        }
+
+        return this.fallback.extractTransactions(text, options);
+    }
+
+    async extractTransactionDataFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction> {
+        return this.fallback.extractTransactionDataFromImage(imageBase64, metadata);
+    }
+
+    async extractTransactionsFromImage(
+        imageBase64: string,
+        metadata?: ImageExtractionContext
+    ): Promise<ExtractedTransaction[]> {
+        return this.fallback.extractTransactionsFromImage(imageBase64, metadata);
+    }
+
+    async validateApiKey(): Promise<boolean> {
+        return this.fallback.validateApiKey();
+    }
+
+    async validateProviders(): Promise<AIProviderStatus[] | undefined> {
+        return this.fallback.validateProviders?.();
+    }
+
+    private logMatched(matched: { template: string; extracted: ExtractedTransaction }, app?: string): void {
+        logger.info({
+            event: 'ai.template.matched',
+            app,
+            template: matched.template,
+            amount: matched.extracted.amount,
+            merchant: matched.extracted.merchant,
+        }, `Extracted transaction with template ${matched.template}`);
+    }
+
+    /**
+     * Find the first template matching the notification
+     */
+    private match(text: string, app?: string): { template: string; extracted: ExtractedTransaction } | undefined {
+        const notification = text.replace(/\s+/g, ' ').trim();
+
+        for (const template of this.templates) {
+            if (app !== undefined && !template.apps.includes(app)) {
+                continue;
+            }
+
+            const groups = template.pattern.exec(notification)?.groups;
+            const amount = Number(groups?.['amount']?.replace(/,/g, ''));
+            const merchant = groups?.['merchant']?.trim();
+            if (!groups || !merchant || !Number.isFinite(amount) || amount <= 0) {
+                continue;
+            }
+
+            return {
+                template: template.name,
+                extracted: {
+                    is_transaction: true,
+                    amount,
+                    merchant,
+                    type: template.type,
+                    currency: 'MYR',
+                    category: template.category,
+                    reference: groups['reference'],
+                    confidence: 1,
+                    notes: text,
+                    // Shows on the wide event that no model was called
+                    model: `template:${template.name}`,
+                },
+            };
+        }
+
+        return undefined;
+    }
+}
@@ -0,0 +1,522 @@
+import ky, { type KyInstance } from 'ky';
+import type { BudgetAdapter, BudgetCategory } from './budget.interface';
+import { BudgetAPIError, withHashtags } from './budget.interface';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
+import { logger, logBudgetAPICall } from '@/shared/utils/logger';
+
+/**
+ * How many created transactions are remembered for splitting
+ */
+const MAX_REMEMBERED_TRANSACTIONS = 100;
+
+/**
+ * How far back a transaction to split is looked up when it isn't remembered
+ * (e.g. after a restart)
+ */
+const SPLIT_LOOKUP_DAYS = 60;
+
+/**
+ * Actual transaction as sent to the import endpoint
+ */
+interface ActualTransaction {
+    date: string;
+    amount: number;
+    /** Payee name (created if new) */
+    payee_name?: string;
+    /** Payee ID (for transactions read back from Actual) */
+    payee?: string;
+    category?: string;
+    notes?: string;
+    imported_id?: string;
+    cleared: boolean;
+    subtransactions?: Array<{ amount: number; category?: string; notes?: string }>;
+}
+
+/**
+ * Actual HTTP API response for importing transactions
+ */
+interface ActualImportResponse {
+    data?: {
+        added?: string[];
+        updated?: string[];
+        errors?: Array<{ message: string }>;
+    };
+}
+
+/**
+ * Actual HTTP API response for listing an account's transactions
+ */
+interface ActualTransactionsResponse {
+    data?: Array<{
+        id: string;
+        date: string;
+        amount: number;
+        payee?: string | null;
+        imported_payee?: string | null;
+        category?: string | null;
+        notes?: string | null;
+        imported_id?: string | null;
+        cleared?: boolean;
+        is_parent?: boolean;
+        is_child?: boolean;
+    }>;
+}
+
+/**
+ * Actual HTTP API response for listing accounts
+ */
+interface ActualAccountsResponse {
+    data?: Array<{ id: string; name: string; offbudget: boolean; closed: boolean }>;
+}
+
+/**
+ * Actual HTTP API response for listing category groups
+ */
+interface ActualCategoryGroupsResponse {
+    data?: Array<{
+        id: string;
+        name: string;
+        is_income: boolean;
+        hidden?: boolean;
+        categories: Array<{ id: string; name: string; hidden?: boolean }>;
+    }>;
+}
+
+/**
+ * Convert an amount to Actual's integer amount (cents)
+ *
+ * Our amounts are positive for money going out; Actual outflows are negative.
+ */
+export function toActualAmount(amount: number): number {
+    return -Math.round(amount * 100);
+}
+
+/**
+ * Actual Budget Adapter
+ *
+ * Integrates with a self-hosted Actual Budget server through actual-http-api
+ * (https://github.com/jhonderson/actual-http-api), a REST wrapper around
+ * Actual's sync API.
+ *
+ * Transactions are imported so the bank reference becomes `imported_id` and
+ * Actual skips re-imports of the same transaction. Accounts in the account
+ * mapping may be Actual account IDs or account names.
+ */
+export class ActualBudgetAdapter implements BudgetAdapter {
+    private client: KyInstance;
+    private accountIds: Map<string, string> | undefined;
+    private created = new Map<string, { accountId: string; transaction: ActualTransaction }>();
+
+    constructor(
+        apiUrl: string,
+        apiKey: string,
+        budgetSyncId: string,
+        retryConfig: { limit: number; backoffMs: number },
+        encryptionPassword?: string
+    ) {
+        this.client = ky.create({
+            prefixUrl: `${apiUrl.replace(/\/$/, '')}/v1/budgets/${budgetSyncId}`,
+            headers: {
+                'x-api-key': apiKey,
+                'Content-Type': 'application/json',
+                ...(encryptionPassword ? { 'budget-encryption-password': encryptionPassword } : {}),
+            },
+            retry: {
+                limit: retryConfig.limit,
+                methods: ['post', 'get', 'delete'],
+                statusCodes: [408, 429, 500, 502, 503, 504],
+                backoffLimit: retryConfig.backoffMs,
+            },
+            hooks: {
+                beforeRetry: [
+                    ({ request, error, retryCount }) => {
+                        logger.warn({
+                            event: 'budget.api.retry',
+                            url: request.url,
+                            retryCount,
+                            error: error?.message,
+                        }, 'Retrying Actual Budget API request');
+                    },
+                ],
+            },
+        });
+    }
+
+    /**
+     * Create a transaction in Actual Budget
+     */
+    async createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        try {
+            const accountId = await this.resolveAccountId(transaction.account_id);
+
+            // Actual Budget shows #hashtags in notes as tags
+            const notes = withHashtags(transaction.notes, transaction.tags);
+            const actualTransaction: ActualTransaction = {
+                date: this.toDateString(transaction.date),
+                amount: toActualAmount(transaction.amount),
+                payee_name: transaction.payee,
+                cleared: transaction.status === 'cleared',
+                ...(transaction.category_id ? { category: transaction.category_id } : {}),
+                ...(notes ? { notes } : {}),
+                ...(transaction.reference ? { imported_id: transaction.reference } : {}),
+            };
+
+            logger.debug({
+                event: 'budget.create.request',
+                accountId,
+                transaction: actualTransaction,
+            }, 'Creating transaction in Actual Budget');
+
+            const transactionId = await this.importTransaction(accountId, actualTransaction);
+
+            this.remember(transactionId, accountId, actualTransaction);
+
+            logBudgetAPICall({
+                action: 'create',
+                success: true,
+                transactionId,
+                merchant: transaction.payee,
+                amount: transaction.amount,
+            });
+
+            return {
+                success: true,
+                transactionId,
+                metadata: {
+                    actualId: transactionId,
+                    actualAccountId: accountId,
+                },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logger.error({
+                event: 'budget.create.failed',
+                error: errorMessage,
+                merchant: transaction.payee,
+                amount: transaction.amount,
+                accountId: transaction.account_id,
+            }, 'Failed to create transaction in Actual Budget');
+
+            logBudgetAPICall({
+                action: 'create',
+                success: false,
+                error: errorMessage,
+                merchant: transaction.payee,
+                amount: transaction.amount,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to create transaction in Actual Budget',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * Validate the API key and budget by listing accounts
+     */
+    async validateCredentials(): Promise<boolean> {
+        try {
+            await this.loadAccounts();
+
+            logBudgetAPICall({
+                action: 'validate',
+                success: true,
+            });
+
+            return true;
+        } catch (error) {
+            logger.warn('Actual Budget credentials validation failed', { error });
+            return false;
+        }
+    }
+
+    /**
+     * Split a transaction into Actual subtransactions
+     *
+     * Actual only creates subtransactions together with their parent, so the
+     * split is imported as a new transaction and the original deleted after
+     * that succeeded. Transactions not remembered from creation (e.g. after a
+     * restart) are looked up in Actual.
+     */
+    async splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void> {
+        try {
+            const created = this.created.get(transactionId) ?? await this.fetchTransaction(transactionId);
+
+            logger.debug({
+                event: 'budget.split.request',
+                transactionId,
+                parts,
+            }, 'Splitting transaction in Actual Budget');
+
+            // Parts without a category keep the transaction's category. The
+            // imported_id moves over once the original is gone, so Actual
+            // doesn't reconcile the split with it.
+            const { category, imported_id: importedId, ...parent } = created.transaction;
+            const split: ActualTransaction = {
+                ...parent,
+                subtransactions: parts.map((part) => {
+                    const partCategory = part.category_id ?? category;
+                    return {
+                        amount: toActualAmount(part.amount),
+                        ...(partCategory ? { category: partCategory } : {}),
+                        ...(part.notes ? { notes: part.notes } : {}),
+                    };
+                }),
+            };
+
+            const splitId = await this.importTransaction(created.accountId, split);
+            if (splitId === transactionId) {
+                throw new BudgetAPIError('Actual Budget matched the split to the original transaction instead of adding it');
+            }
+
+            try {
+                await this.client.delete(`transactions/${transactionId}`);
+            } catch (error) {
+                // Leave the original as it was rather than keeping both
+                await this.client.delete(`transactions/${splitId}`).catch(() => undefined);
+                throw error;
+            }
+
+            if (importedId) {
+                await this.client
+                    .patch(`transactions/${splitId}`, { json: { transaction: { imported_id: importedId } } })
+                    .catch((error: unknown) => {
+                        logger.warn({
+                            event: 'budget.split.imported_id_failed',
+                            transactionId: splitId,
+                            importedId,
+                            error: error instanceof Error ? error.message : 'Unknown error',
+                        }, 'Failed to move the bank reference to the split transaction');
+                    });
+            }
+
+            this.created.delete(transactionId);
+            this.remember(splitId, created.accountId, { ...split, ...(importedId ? { imported_id: importedId } : {}) });
+
+            logBudgetAPICall({
+                action: 'split',
+                success: true,
+                transactionId: splitId,
+            });
+
+            logger.info({
+                event: 'budget.split.success',
+                transactionId,
+                splitTransactionId: splitId,
+            }, 'Transaction split successfully');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logger.error({
+                event: 'budget.split.exception',
+                transactionId,
+                error: errorMessage,
+            }, 'Exception while splitting transaction');
+
+            logBudgetAPICall({
+                action: 'split',
+                success: false,
+                error: errorMessage,
+                transactionId,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to split transaction in Actual Budget',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * List Actual categories (hidden categories and groups are left out)
+     */
+    async listCategories(): Promise<BudgetCategory[]> {
+        try {
+            const response = await this.client.get('categorygroups').json<ActualCategoryGroupsResponse>();
+
+            logBudgetAPICall({
+                action: 'list_categories',
+                success: true,
+            });
+
+            return (response.data ?? [])
+                .filter((group) => !group.hidden)
+                .flatMap((group) => group.categories
+                    .filter((category) => !category.hidden)
+                    .map((category) => ({
+                        id: category.id,
+                        name: category.name,
+                        groupName: group.name,
+                        isIncome: group.is_income,
+                    })));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logBudgetAPICall({
+                action: 'list_categories',
+                success: false,
+                error: errorMessage,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to list categories in Actual Budget',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * Import one transaction and return its ID
+     *
+     * An existing transaction with the same `imported_id` is reported as
+     * updated instead of added; its ID is returned so the caller sees success.
+     */
+    private async importTransaction(accountId: string, transaction: ActualTransaction): Promise<string> {
+        const response = await this.client
+            .post(`accounts/${accountId}/transactions/import`, {
+                json: { transactions: [transaction] },
+            })
+            .json<ActualImportResponse>();
+
+        if (response.data?.errors?.length) {
+            throw new BudgetAPIError('Actual Budget API returned error', undefined, response);
+        }
+
+        const transactionId = response.data?.added?.[0] ?? response.data?.updated?.[0];
+        if (!transactionId) {
+            throw new BudgetAPIError('Actual Budget API returned no transaction ID', undefined, response);
+        }
+
+        if (!response.data?.added?.length) {
+            logger.info({
+                event: 'budget.create.already_imported',
+                transactionId,
+                importedId: transaction.imported_id,
+            }, 'Transaction was already imported into Actual Budget');
+        }
+
+        return transactionId;
+    }
+
+    /**
+     * Map an account from the account mapping (Actual account ID or name) to an Actual account ID
+     *
+     * Accounts are cached; a miss reloads them in case the account was just added.
+     */
+    private async resolveAccountId(account: string): Promise<string> {
+        const key = account.trim().toLowerCase();
+
+        if (!this.accountIds?.has(key)) {
+            this.accountIds = await this.loadAccounts();
+        }
+
+        const accountId = this.accountIds.get(key);
+        if (!accountId) {
+            throw new BudgetAPIError(`Unknown Actual Budget account: ${account}`);
+        }
+
+        return accountId;
+    }
+
+    /**
+     * Load open accounts, keyed by lower-cased ID and name
+     */
+    private async loadAccounts(): Promise<Map<string, string>> {
+        const response = await this.client.get('accounts').json<ActualAccountsResponse>();
+        const accounts = new Map<string, string>();
+
+        for (const account of response.data ?? []) {
+            if (account.closed) {
+                continue;
+            }
+            accounts.set(account.id.toLowerCase(), account.id);
+            accounts.set(account.name.trim().toLowerCase(), account.id);
+        }
+
+        return accounts;
+    }
+
+    /**
+     * Look up a transaction to split in the open accounts
+     *
+     * @throws {BudgetAPIError} If it isn't found or is already split
+     */
+    private async fetchTransaction(transactionId: string): Promise<{ accountId: string; transaction: ActualTransaction }> {
+        const since = new Date(Date.now() - SPLIT_LOOKUP_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const accountIds = new Set((await this.loadAccounts()).values());
+
+        for (const accountId of accountIds) {
+            const response = await this.client
+                .get(`accounts/${accountId}/transactions`, { searchParams: { since_date: since } })
+                .json<ActualTransactionsResponse>();
+
+            const found = response.data?.find((transaction) => transaction.id === transactionId);
+            if (!found) {
+                continue;
+            }
+            if (found.is_parent || found.is_child) {
+                throw new BudgetAPIError(`Transaction ${transactionId} is already split`);
+            }
+
+            return {
+                accountId,
+                transaction: {
+                    date: found.date,
+                    amount: found.amount,
+                    cleared: found.cleared ?? false,
+                    ...(found.payee ? { payee: found.payee } : { payee_name: found.imported_payee ?? '' }),
+                    ...(found.category ? { category: found.category } : {}),
+                    ...(found.notes ? { notes: found.notes } : {}),
+                    ...(found.imported_id ? { imported_id: found.imported_id } : {}),
+                },
+            };
+        }
+
+        throw new BudgetAPIError(`Transaction ${transactionId} not found in Actual Budget`);
+    }
+
+    /**
+     * Remember a created transaction so it can be split later
+     */
+    private remember(transactionId: string, accountId: string, transaction: ActualTransaction): void {
+        this.created.set(transactionId, { accountId, transaction });
+
+        // Maps iterate in insertion order - drop the oldest
+        if (this.created.size > MAX_REMEMBERED_TRANSACTIONS) {
+            const oldest = this.created.keys().next().value;
+            if (oldest !== undefined) {
+                this.created.delete(oldest);
+            }
+        }
+    }
+
+    /**
+     * Convert a transaction date to Actual's YYYY-MM-DD format
+     */
+    private toDateString(date: string | number): string {
+        // Unix timestamp (10 digits = seconds, 13 digits = milliseconds)
+        if (typeof date === 'number' || /^\d{10,13}$/.test(date)) {
+            const value = Number(date);
+            const milliseconds = String(date).length === 13 ? value : value * 1000;
+            return new Date(milliseconds).toISOString().slice(0, 10);
+        }
+
+        if (/^\d{4}-\d{2}-\d{2}/.test(date)) {
+            return date.slice(0, 10);
+        }
+
+        const parsed = new Date(date);
+        if (Number.isNaN(parsed.getTime())) {
+            throw new Error(`Invalid date format: ${date}`);
+        }
+        return parsed.toISOString().slice(0, 10);
+    }
+}
@@ -1,4 +1,4 @@
-import type { Transaction, TransactionResult } from '@/shared/types/common.types';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
 
 /**
  * Budget Adapter Interface
@@ -25,13 +25,55 @@ export interface BudgetAdapter {
     validateCredentials(): Promise<boolean>;
 
     /**
-     * Split a transaction 50/50 via Lunch Money API
+     * Split a transaction into parts
      * 
-     * @param transactionId - Transaction ID to split
-     * @param amount - Total transaction amount to split
+     * @param transactionId - Transaction ID to split (as returned by createTransaction)
+     * @param parts - Parts adding up to the transaction amount (see resolveSplit)
      * @throws {BudgetAPIError} If API call fails
      */
-    splitTransaction(transactionId: number, amount: number): Promise<void>;
+    splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void>;
+
+    /**
+     * List the categories transactions can be assigned to
+     * 
+     * @returns Active (non-archived, non-group) categories
+     * @throws {BudgetAPIError} If API call fails
+     */
+    listCategories(): Promise<BudgetCategory[]>;
+}
+
+/**
+ * Category in the budget platform
+ */
+export interface BudgetCategory {
+    /** Category ID in the budget platform */
+    id: string;
+    /** Display name */
+    name: string;
+    /** Parent category group name (if grouped) */
+    groupName?: string | undefined;
+    /** Whether this is an income category */
+    isIncome?: boolean | undefined;
+}
+
+/**
+ * Append tags to notes as hashtags, for platforms without a tags field
+ * (YNAB memos, Actual Budget notes - Actual shows `#tag` as a tag)
+ *
+ * @param maxLength - Length limit of the field; the notes are cut to keep the tags
+ * @returns Notes with the tags, or the notes as given without tags
+ */
+export function withHashtags(notes: string | undefined, tags: string[] | undefined, maxLength?: number): string | undefined {
+    const hashtags = (tags ?? []).map((tag) => `#${tag.trim().replace(/\s+/g, '-')}`).filter((tag) => tag !== '#').join(' ');
+    if (!hashtags) {
+        return notes;
+    }
+    if (!notes) {
+        return hashtags;
+    }
+
+    const room = maxLength === undefined ? notes.length : Math.max(0, maxLength - hashtags.length - 1);
+    return room > 0 ? `${notes.slice(0, room)} ${hashtags}` : hashtags;
 }
 
 /**
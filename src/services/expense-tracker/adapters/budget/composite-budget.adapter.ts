@@ -0,0 +1,293 @@
+import type { BudgetAdapter, BudgetCategory } from './budget.interface';
+import { BudgetAPIError } from './budget.interface';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
+import { logger } from '@/shared/utils/logger';
+import { isTransientError } from '@/shared/utils/errors';
+
+/**
+ * How many created (or partly created) transactions keep their per-backend
+ * IDs (for splitting and retries)
+ */
+const MAX_TRACKED_TRANSACTIONS = 100;
+
+/**
+ * Remember a value in an insertion-ordered map, dropping the oldest beyond
+ * MAX_TRACKED_TRANSACTIONS
+ */
+function track<T>(map: Map<string, T>, key: string, value: T): void {
+    map.delete(key);
+    map.set(key, value);
+
+    // Maps iterate in insertion order - drop the oldest
+    if (map.size > MAX_TRACKED_TRANSACTIONS) {
+        const oldest = map.keys().next().value;
+        if (oldest !== undefined) {
+            map.delete(oldest);
+        }
+    }
+}
+
+/**
+ * What identifies a transaction across retries of the same job
+ * (notes are left out - they can differ between attempts)
+ */
+function fingerprint(transaction: Transaction): string {
+    return JSON.stringify([
+        transaction.date,
+        transaction.amount,
+        transaction.payee,
+        transaction.account_id,
+        transaction.currency,
+        transaction.reference,
+    ]);
+}
+
+/**
+ * When a fanned-out transaction counts as created
+ * - all: every backend must succeed
+ * - primary: the first backend must succeed; the others are best-effort
+ * - any: at least one backend must succeed
+ */
+export type FanOutPolicy = 'all' | 'primary' | 'any';
+
+/**
+ * A named budget backend
+ */
+export interface BudgetBackend {
+    /** Name used in metadata and logs (e.g. "lunchmoney", "csv") */
+    name: string;
+    adapter: BudgetAdapter;
+}
+
+/**
+ * Outcome of one backend for a fanned-out transaction
+ */
+export interface BudgetBackendResult {
+    success: boolean;
+    latency_ms: number;
+    retry_count: number;
+    transaction_id?: string;
+    error?: string;
+}
+
+/**
+ * Get per-backend results from a transaction result created by CompositeBudgetAdapter
+ *
+ * @returns Results keyed by backend name, or undefined for single-backend results
+ */
+export function getBudgetBackendResults(result: TransactionResult): Record<string, BudgetBackendResult> | undefined {
+    const backends = result.metadata?.['backends'];
+    return backends && typeof backends === 'object'
+        ? backends as Record<string, BudgetBackendResult>
+        : undefined;
+}
+
+/**
+ * Outcome of creating a transaction in one backend
+ */
+interface BackendAttempt {
+    name: string;
+    result: TransactionResult;
+    latency: number;
+    /** Whether a failure is worth retrying */
+    transient: boolean;
+    /** Error the backend threw */
+    error?: unknown;
+}
+
+/**
+ * Composite Budget Adapter
+ *
+ * Writes each transaction to several budget backends at once (e.g. Lunch Money
+ * plus a CSV file). Per-backend outcomes are returned in
+ * `TransactionResult.metadata.backends`.
+ *
+ * The first backend is the primary: its transaction ID is returned, categories
+ * come from it, and category IDs are only sent to it (IDs differ per backend;
+ * the others get the category name).
+ *
+ * If the policy fails but some backends succeeded, an unsuccessful result is
+ * returned instead of throwing. It is retriable when the backends the policy
+ * needs failed transiently (the primary under `primary`, every failed one
+ * under `all`); the retry only goes to the backends that haven't created the
+ * transaction yet, so the others don't get a duplicate (as long as this
+ * process is still running).
+ */
+export class CompositeBudgetAdapter implements BudgetAdapter {
+    /** Primary transaction ID -> transaction ID in each backend (for splits) */
+    private backendIds = new Map<string, Record<string, string>>();
+    /** Fingerprint of a partly created transaction -> transaction ID in each backend that created it */
+    private partialIds = new Map<string, Record<string, string>>();
+
+    constructor(
+        private readonly backends: BudgetBackend[],
+        private readonly policy: FanOutPolicy = 'primary'
+    ) {
+        if (backends.length === 0) {
+            throw new Error('CompositeBudgetAdapter needs at least one backend');
+        }
+    }
+
+    /**
+     * Create the transaction in every backend
+     */
+    async createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        const key = fingerprint(transaction);
+        // Backends that created it on an earlier attempt aren't sent it again
+        const created = this.partialIds.get(key) ?? {};
+
+        const results = await Promise.all(this.backends.map(async ({ name, adapter }, index): Promise<BackendAttempt> => {
+            const start = Date.now();
+            const backendTransaction = index === 0 ? transaction : { ...transaction, category_id: undefined };
+
+            const createdId = created[name];
+            if (createdId) {
+                return { name, result: { success: true, transactionId: createdId } satisfies TransactionResult, latency: 0, transient: false };
+            }
+
+            try {
+                const result = await adapter.createTransaction(backendTransaction);
+                return { name, result, latency: Date.now() - start, transient: result.retriable === true };
+            } catch (error) {
+                return {
+                    name,
+                    result: {
+                        success: false,
+                        error: error instanceof Error ? error.message : 'Unknown error',
+                    } satisfies TransactionResult,
+                    latency: Date.now() - start,
+                    transient: isTransientError(error),
+                    error,
+                };
+            }
+        }));
+
+        const backends: Record<string, BudgetBackendResult> = {};
+        const ids: Record<string, string> = {};
+        for (const { name, result, latency } of results) {
+            backends[name] = {
+                success: result.success,
+                latency_ms: latency,
+                retry_count: 0,
+                ...(result.transactionId ? { transaction_id: result.transactionId } : {}),
+                ...(result.error ? { error: result.error } : {}),
+            };
+            if (result.success && result.transactionId) {
+                ids[name] = result.transactionId;
+            }
+        }
+
+        const succeeded = results.filter(({ result }) => result.success);
+        const failed = results.filter(({ result }) => !result.success);
+        const transactionId = succeeded[0]?.result.transactionId;
+
+        if (transactionId) {
+            track(this.backendIds, transactionId, ids);
+        }
+
+        if (failed.length > 0) {
+            logger.warn({
+                event: 'budget.fanout.partial_failure',
+                policy: this.policy,
+                failed: failed.map(({ name, result }) => ({ backend: name, error: result.error })),
+                succeeded: succeeded.map(({ name }) => name),
+            }, 'Some budget backends failed to create the transaction');
+        }
+
+        const ok = this.policy === 'all'
+            ? failed.length === 0
+            : this.policy === 'primary'
+                ? results[0]!.result.success
+                : succeeded.length > 0;
+
+        // Retried when the backends the policy needs failed transiently; under
+        // `any` the policy only fails when every backend did (thrown below)
+        const retriable = !ok && (this.policy === 'all'
+            ? failed.every(({ transient }) => transient)
+            : results[0]!.transient);
+        if (retriable && succeeded.length > 0) {
+            track(this.partialIds, key, ids);
+        } else {
+            this.partialIds.delete(key);
+        }
+
+        if (!ok && succeeded.length === 0) {
+            // The primary's error decides whether the job is retried
+            const primaryError = results[0]!.error;
+            throw new BudgetAPIError(
+                `All budget backends failed: ${failed.map(({ name, result }) => `${name}: ${result.error}`).join('; ')}`,
+                undefined,
+                backends,
+                primaryError instanceof Error ? primaryError : undefined
+            );
+        }
+
+        return {
+            success: ok,
+            transactionId,
+            ...(ok ? {} : {
+                error: `Budget backends failed (${this.policy} policy): ${failed.map(({ name }) => name).join(', ')}`,
+                retriable,
+            }),
+            metadata: { backends },
+        };
+    }
+
+    /**
+     * Validate credentials of the backends the policy depends on
+     */
+    async validateCredentials(): Promise<boolean> {
+        const valid = await Promise.all(this.backends.map(async ({ name, adapter }) => {
+            const ok = await adapter.validateCredentials().catch(() => false);
+            if (!ok) {
+                logger.warn({ event: 'budget.fanout.invalid_backend', backend: name }, `Budget backend ${name} failed validation`);
+            }
+            return ok;
+        }));
+
+        switch (this.policy) {
+            case 'all':
+                return valid.every(Boolean);
+            case 'primary':
+                return valid[0] === true;
+            case 'any':
+                return valid.some(Boolean);
+        }
+    }
+
+    /**
+     * Split the transaction in every backend that created it
+     *
+     * Like on creation, only the primary backend gets category IDs.
+     *
+     * @throws {BudgetAPIError} If splitting fails in any backend
+     */
+    async splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void> {
+        const ids = this.backendIds.get(transactionId) ?? { [this.backends[0]!.name]: transactionId };
+
+        const failures: string[] = [];
+        await Promise.all(this.backends.map(async ({ name, adapter }, index) => {
+            const backendId = ids[name];
+            if (!backendId) {
+                return;
+            }
+            const backendParts = index === 0 ? parts : parts.map((part) => ({ ...part, category_id: undefined }));
+            try {
+                await adapter.splitTransaction(backendId, backendParts);
+            } catch (error) {
+                failures.push(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }));
+
+        if (failures.length > 0) {
+            throw new BudgetAPIError(`Failed to split transaction in ${failures.join('; ')}`);
+        }
+    }
+
+    /**
+     * List categories of the primary backend
+     */
+    async listCategories(): Promise<BudgetCategory[]> {
+        return this.backends[0]!.adapter.listCategories();
+    }
+}
@@ -0,0 +1,133 @@
+import { appendFile, mkdir, stat } from 'fs/promises';
+import { dirname } from 'path';
+import type { BudgetAdapter, BudgetCategory } from './budget.interface';
+import { BudgetAPIError } from './budget.interface';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * CSV columns, in order
+ */
+const CSV_COLUMNS = [
+    'id',
+    'parent_id',
+    'date',
+    'amount',
+    'currency',
+    'payee',
+    'account_id',
+    'category',
+    'notes',
+    'reference',
+    'created_at',
+    // Added later - kept last so rows still line up in files started before it
+    'tags',
+] as const;
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV Budget Adapter
+ *
+ * Appends transactions to a local CSV file - a plain-text copy of everything
+ * sent to the budget platform, meant to be used as a fan-out backend.
+ * Splits are appended as child rows pointing at the original row.
+ */
+export class CsvBudgetAdapter implements BudgetAdapter {
+    constructor(private readonly filePath: string) { }
+
+    /**
+     * Append a transaction row
+     */
+    async createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        const id = crypto.randomUUID();
+
+        await this.appendRows([{
+            id,
+            date: transaction.date,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            payee: transaction.payee,
+            account_id: transaction.account_id,
+            category: transaction.category,
+            notes: transaction.notes,
+            reference: transaction.reference,
+            tags: transaction.tags?.join(';'),
+        }]);
+
+        return {
+            success: true,
+            transactionId: id,
+            metadata: { csvPath: this.filePath },
+        };
+    }
+
+    /**
+     * Check the file can be written
+     */
+    async validateCredentials(): Promise<boolean> {
+        try {
+            await this.appendRows([]);
+            return true;
+        } catch (error) {
+            logger.warn('CSV budget file is not writable', { error, filePath: this.filePath });
+            return false;
+        }
+    }
+
+    /**
+     * Append a child row per split part
+     */
+    async splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void> {
+        await this.appendRows(parts.map((part) => ({
+            id: crypto.randomUUID(),
+            parent_id: transactionId,
+            amount: part.amount,
+            category: part.category,
+            notes: part.notes,
+        })));
+    }
+
+    /**
+     * CSV files have no categories of their own
+     */
+    listCategories(): Promise<BudgetCategory[]> {
+        return Promise.resolve([]);
+    }
+
+    /**
+     * Append rows, writing the header first if the file is new
+     *
+     * @throws {BudgetAPIError} If the file can't be written
+     */
+    private async appendRows(rows: Array<Partial<Record<(typeof CSV_COLUMNS)[number], string | number | undefined>>>): Promise<void> {
+        try {
+            const lines: string[] = [];
+            const exists = await stat(this.filePath).then(() => true, () => false);
+            if (!exists) {
+                await mkdir(dirname(this.filePath), { recursive: true });
+                lines.push(CSV_COLUMNS.join(','));
+            }
+
+            const createdAt = new Date().toISOString();
+            for (const row of rows) {
+                lines.push(CSV_COLUMNS.map((column) => csvField(column === 'created_at' ? createdAt : row[column])).join(','));
+            }
+
+            await appendFile(this.filePath, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+        } catch (error) {
+            throw new BudgetAPIError(
+                `Failed to write CSV file ${this.filePath}`,
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+}
@@ -1,7 +1,7 @@
 import ky, { type KyInstance } from 'ky';
-import type { BudgetAdapter } from './budget.interface';
+import type { BudgetAdapter, BudgetCategory } from './budget.interface';
 import { BudgetAPIError } from './budget.interface';
-import type { Transaction, TransactionResult } from '@/shared/types/common.types';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
 import { logger, logBudgetAPICall } from '@/shared/utils/logger';
 
 /**
@@ -20,6 +20,21 @@ interface LunchMoneyUserResponse {
     error?: string;
 }
 
+/**
+ * Lunch Money API response for listing categories
+ */
+interface LunchMoneyCategoriesResponse {
+    categories?: Array<{
+        id: number;
+        name: string;
+        is_income: boolean;
+        is_group: boolean;
+        archived?: boolean;
+        group_id?: number | null;
+    }>;
+    error?: string;
+}
+
 /**
  * Lunch Money Adapter
  * 
@@ -113,10 +128,12 @@ export class LunchMoneyAdapter implements BudgetAdapter {
                 amount: transaction.amount,
                 payee: transaction.payee,
                 asset_id: parseInt(transaction.account_id, 10),
-                category_id: transaction.category ? undefined : null, // Let Lunch Money auto-categorize
+                category_id: transaction.category_id ? parseInt(transaction.category_id, 10) : undefined, // Unset lets Lunch Money rules auto-categorize
                 notes: transaction.notes || '',
                 status: transaction.status || 'cleared',
                 currency: transaction.currency || 'myr',
+                // Lunch Money creates tags it doesn't know yet
+                ...(transaction.tags?.length ? { tags: transaction.tags } : {}),
             };
 
             logger.debug({
@@ -218,28 +235,24 @@ export class LunchMoneyAdapter implements BudgetAdapter {
     }
 
     /**
-     * Split a transaction 50/50 via Lunch Money API
+     * Split a transaction via Lunch Money API
      */
-    async splitTransaction(transactionId: number, amount: number): Promise<void> {
+    async splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void> {
         try {
             logger.debug({
                 event: 'budget.split.request',
                 transactionId,
-                amount,
+                parts,
             }, 'Splitting transaction in Lunch Money');
 
-            // Calculate 50/50 split amounts with proper rounding
-            // Round the second split to 2 decimals, then calculate first split to absorb any remainder
-            const secondSplit = Math.round((amount / 2) * 100) / 100;
-            const firstSplit = Math.round((amount - secondSplit) * 100) / 100;
-
             const response = await this.client
                 .put(`transactions/${transactionId}`, {
                     json: {
-                        split: [
-                            { amount: firstSplit },
-                            { amount: secondSplit }
-                        ]
+                        split: parts.map((part) => ({
+                            amount: part.amount,
+                            ...(part.category_id ? { category_id: parseInt(part.category_id, 10) } : {}),
+                            ...(part.notes ? { notes: part.notes } : {}),
+                        })),
                     },
                 })
                 .json<{ updated?: boolean; split?: number[]; error?: string | string[] }>();
@@ -264,7 +277,7 @@ export class LunchMoneyAdapter implements BudgetAdapter {
             logBudgetAPICall({
                 action: 'split',
                 success: true,
-                transactionId: transactionId.toString(),
+                transactionId,
             });
 
             logger.info({
@@ -288,7 +301,7 @@ export class LunchMoneyAdapter implements BudgetAdapter {
                 action: 'split',
                 success: false,
                 error: errorMessage,
-                transactionId: transactionId.toString(),
+                transactionId,
             });
 
             throw new BudgetAPIError(
@@ -299,4 +312,56 @@ export class LunchMoneyAdapter implements BudgetAdapter {
             );
         }
     }
+
+    /**
+     * List Lunch Money categories (groups and archived categories are left out)
+     */
+    async listCategories(): Promise<BudgetCategory[]> {
+        try {
+            const response = await this.client.get('categories').json<LunchMoneyCategoriesResponse>();
+
+            if (response.error) {
+                throw new BudgetAPIError('Lunch Money API returned error', undefined, response);
+            }
+
+            const categories = response.categories ?? [];
+            const groupNames = new Map(
+                categories.filter((category) => category.is_group).map((group) => [group.id, group.name])
+            );
+
+            logBudgetAPICall({
+                action: 'list_categories',
+                success: true,
+            });
+
+            return categories
+                .filter((category) => !category.is_group && !category.archived)
+                .map((category) => ({
+                    id: category.id.toString(),
+                    name: category.name,
+                    groupName: category.group_id ? groupNames.get(category.group_id) : undefined,
+                    isIncome: category.is_income,
+                }));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logger.error({
+                event: 'budget.categories.failed',
+                error: errorMessage,
+            }, 'Failed to list Lunch Money categories');
+
+            logBudgetAPICall({
+                action: 'list_categories',
+                success: false,
+                error: errorMessage,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to list categories in Lunch Money',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
 }
@@ -0,0 +1,380 @@
+import ky, { type KyInstance } from 'ky';
+import type { BudgetAdapter, BudgetCategory } from './budget.interface';
+import { BudgetAPIError, withHashtags } from './budget.interface';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
+import { logger, logBudgetAPICall } from '@/shared/utils/logger';
+
+/**
+ * YNAB memo length limit
+ */
+const YNAB_MEMO_MAX_LENGTH = 200;
+
+/**
+ * YNAB transaction (fields we use)
+ */
+interface YnabTransaction {
+    id: string;
+    amount: number;
+    subtransactions?: Array<{ id: string; amount: number }>;
+}
+
+/**
+ * YNAB API response for transaction creation/update
+ */
+interface YnabTransactionResponse {
+    data?: {
+        transaction_ids?: string[];
+        transaction?: YnabTransaction;
+    };
+}
+
+/**
+ * YNAB API response for listing payees
+ */
+interface YnabPayeesResponse {
+    data?: {
+        payees: Array<{ id: string; name: string; deleted: boolean; transfer_account_id?: string | null }>;
+    };
+}
+
+/**
+ * YNAB API response for listing categories
+ */
+interface YnabCategoriesResponse {
+    data?: {
+        category_groups: Array<{
+            id: string;
+            name: string;
+            hidden: boolean;
+            deleted: boolean;
+            categories: Array<{ id: string; name: string; hidden: boolean; deleted: boolean }>;
+        }>;
+    };
+}
+
+/**
+ * YNAB API response for user info
+ */
+interface YnabUserResponse {
+    data?: { user?: { id: string } };
+}
+
+/**
+ * Convert an amount to YNAB milliunits
+ *
+ * Our amounts are positive for money going out; YNAB outflows are negative.
+ */
+export function toMilliunits(amount: number): number {
+    return -Math.round(amount * 1000);
+}
+
+/**
+ * YNAB Adapter
+ *
+ * Integrates with the YNAB (You Need A Budget) API
+ * API Docs: https://api.ynab.com/
+ *
+ * Amounts are sent in milliunits, payees are matched to existing YNAB payees
+ * by name, and 50/50 splits are stored as subtransactions.
+ */
+export class YnabAdapter implements BudgetAdapter {
+    private client: KyInstance;
+    private payeeIds: Map<string, string> | undefined;
+
+    constructor(
+        accessToken: string,
+        private readonly budgetId: string,
+        baseUrl: string,
+        retryConfig: { limit: number; backoffMs: number }
+    ) {
+        this.client = ky.create({
+            prefixUrl: baseUrl,
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            retry: {
+                limit: retryConfig.limit,
+                methods: ['post', 'get', 'put'],
+                statusCodes: [408, 429, 500, 502, 503, 504],
+                backoffLimit: retryConfig.backoffMs,
+            },
+            hooks: {
+                beforeRetry: [
+                    ({ request, error, retryCount }) => {
+                        logger.warn({
+                            event: 'budget.api.retry',
+                            url: request.url,
+                            retryCount,
+                            error: error?.message,
+                        }, 'Retrying YNAB API request');
+                    },
+                ],
+            },
+        });
+    }
+
+    /**
+     * Create a transaction in YNAB
+     */
+    async createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        try {
+            const payeeId = await this.findPayeeId(transaction.payee);
+
+            const ynabTransaction = {
+                account_id: transaction.account_id,
+                date: this.toDateString(transaction.date),
+                amount: toMilliunits(transaction.amount),
+                ...(payeeId ? { payee_id: payeeId } : { payee_name: transaction.payee }),
+                category_id: transaction.category_id ?? null,
+                // YNAB has no tags, so they go in the memo as hashtags
+                memo: withHashtags(transaction.notes, transaction.tags, YNAB_MEMO_MAX_LENGTH)?.slice(0, YNAB_MEMO_MAX_LENGTH) ?? null,
+                cleared: transaction.status === 'cleared' ? 'cleared' : 'uncleared',
+                approved: false,
+            };
+
+            logger.debug({
+                event: 'budget.create.request',
+                transaction: ynabTransaction,
+                originalDate: transaction.date,
+            }, 'Creating transaction in YNAB');
+
+            const response = await this.client
+                .post(`budgets/${this.budgetId}/transactions`, {
+                    json: { transaction: ynabTransaction },
+                })
+                .json<YnabTransactionResponse>();
+
+            const transactionId = response.data?.transaction?.id ?? response.data?.transaction_ids?.[0];
+            if (!transactionId) {
+                throw new BudgetAPIError('YNAB API returned no transaction ID', undefined, response);
+            }
+
+            logBudgetAPICall({
+                action: 'create',
+                success: true,
+                transactionId,
+                merchant: transaction.payee,
+                amount: transaction.amount,
+            });
+
+            return {
+                success: true,
+                transactionId,
+                metadata: {
+                    ynabId: transactionId,
+                    milliunits: ynabTransaction.amount,
+                },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logger.error({
+                event: 'budget.create.failed',
+                error: errorMessage,
+                merchant: transaction.payee,
+                amount: transaction.amount,
+                accountId: transaction.account_id,
+            }, 'Failed to create transaction in YNAB');
+
+            logBudgetAPICall({
+                action: 'create',
+                success: false,
+                error: errorMessage,
+                merchant: transaction.payee,
+                amount: transaction.amount,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to create transaction in YNAB',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * Validate the access token by fetching user info
+     */
+    async validateCredentials(): Promise<boolean> {
+        try {
+            const response = await this.client.get('user').json<YnabUserResponse>();
+            const valid = !!response.data?.user?.id;
+
+            logBudgetAPICall({
+                action: 'validate',
+                success: valid,
+                error: valid ? undefined : 'No user returned',
+            });
+
+            return valid;
+        } catch (error) {
+            logger.warn('YNAB credentials validation failed', { error });
+            return false;
+        }
+    }
+
+    /**
+     * Split a transaction into YNAB subtransactions
+     *
+     * YNAB can't change the subtransactions of a transaction that is already split.
+     */
+    async splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void> {
+        try {
+            logger.debug({
+                event: 'budget.split.request',
+                transactionId,
+                parts,
+            }, 'Splitting transaction in YNAB');
+
+            const response = await this.client
+                .put(`budgets/${this.budgetId}/transactions/${transactionId}`, {
+                    json: {
+                        transaction: {
+                            category_id: null,
+                            subtransactions: parts.map((part) => ({
+                                amount: toMilliunits(part.amount),
+                                category_id: part.category_id ?? null,
+                                memo: part.notes ? part.notes.slice(0, YNAB_MEMO_MAX_LENGTH) : null,
+                            })),
+                        },
+                    },
+                })
+                .json<YnabTransactionResponse>();
+
+            logBudgetAPICall({
+                action: 'split',
+                success: true,
+                transactionId,
+            });
+
+            logger.info({
+                event: 'budget.split.success',
+                transactionId,
+                splitIds: response.data?.transaction?.subtransactions?.map((sub) => sub.id),
+            }, 'Transaction split successfully');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logger.error({
+                event: 'budget.split.exception',
+                transactionId,
+                error: errorMessage,
+            }, 'Exception while splitting transaction');
+
+            logBudgetAPICall({
+                action: 'split',
+                success: false,
+                error: errorMessage,
+                transactionId,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to split transaction in YNAB',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * List YNAB categories (hidden and deleted categories are left out)
+     */
+    async listCategories(): Promise<BudgetCategory[]> {
+        try {
+            const response = await this.client
+                .get(`budgets/${this.budgetId}/categories`)
+                .json<YnabCategoriesResponse>();
+
+            logBudgetAPICall({
+                action: 'list_categories',
+                success: true,
+            });
+
+            return (response.data?.category_groups ?? [])
+                .filter((group) => !group.hidden && !group.deleted)
+                .flatMap((group) => group.categories
+                    .filter((category) => !category.hidden && !category.deleted)
+                    .map((category) => ({
+                        id: category.id,
+                        name: category.name,
+                        groupName: group.name,
+                        // "Inflow: Ready to Assign" lives in YNAB's internal group
+                        isIncome: category.name.startsWith('Inflow'),
+                    })));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logBudgetAPICall({
+                action: 'list_categories',
+                success: false,
+                error: errorMessage,
+            });
+
+            throw new BudgetAPIError(
+                'Failed to list categories in YNAB',
+                undefined,
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+
+    /**
+     * Find an existing YNAB payee by name (case-insensitive)
+     *
+     * Payees are fetched once and cached; a miss refetches in case the payee
+     * was added in YNAB since. Lookup failures fall back to `payee_name`,
+     * which makes YNAB create or match the payee itself.
+     */
+    private async findPayeeId(name: string): Promise<string | undefined> {
+        const key = name.trim().toLowerCase();
+
+        try {
+            if (!this.payeeIds?.has(key)) {
+                const response = await this.client
+                    .get(`budgets/${this.budgetId}/payees`)
+                    .json<YnabPayeesResponse>();
+
+                this.payeeIds = new Map(
+                    (response.data?.payees ?? [])
+                        .filter((payee) => !payee.deleted && !payee.transfer_account_id)
+                        .map((payee) => [payee.name.trim().toLowerCase(), payee.id])
+                );
+            }
+
+            return this.payeeIds.get(key);
+        } catch (error) {
+            logger.warn({
+                event: 'budget.payee.lookup_failed',
+                payee: name,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to look up YNAB payee, sending payee name instead');
+            return undefined;
+        }
+    }
+
+    /**
+     * Convert a transaction date to YNAB's YYYY-MM-DD format
+     */
+    private toDateString(date: string | number): string {
+        // Unix timestamp (10 digits = seconds, 13 digits = milliseconds)
+        if (typeof date === 'number' || /^\d{10,13}$/.test(date)) {
+            const value = Number(date);
+            const milliseconds = String(date).length === 13 ? value : value * 1000;
+            return new Date(milliseconds).toISOString().slice(0, 10);
+        }
+
+        if (/^\d{4}-\d{2}-\d{2}/.test(date)) {
+            return date.slice(0, 10);
+        }
+
+        const parsed = new Date(date);
+        if (Number.isNaN(parsed.getTime())) {
+            throw new Error(`Invalid date format: ${date}`);
+        }
+        return parsed.toISOString().slice(0, 10);
+    }
+}
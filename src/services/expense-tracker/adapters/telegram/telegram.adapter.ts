@@ -5,6 +5,7 @@ import type {
     SendMessageOptions,
     EditMessageOptions,
     TelegramMessage,
+    TelegramFile,
 } from './telegram.interface';
 import { TelegramAPIError } from './telegram.interface';
 
@@ -16,6 +17,7 @@ import { TelegramAPIError } from './telegram.interface';
  */
 export class TelegramBotAdapter implements TelegramAdapter {
     private client: KyInstance;
+    private fileClient: KyInstance;
     private readonly baseUrl: string;
 
     constructor(
@@ -46,6 +48,12 @@ export class TelegramBotAdapter implements TelegramAdapter {
                 ],
             },
         });
+
+        // File downloads live under a different path and can take longer than API calls
+        this.fileClient = this.client.extend({
+            prefixUrl: `https://api.telegram.org/file/bot${this.botToken}`,
+            timeout: 30000,
+        });
     }
 
     /**
@@ -252,4 +260,74 @@ export class TelegramBotAdapter implements TelegramAdapter {
             );
         }
     }
+
+    /**
+     * Get file info (including the download path) for a file ID
+     */
+    async getFile(fileId: string): Promise<TelegramFile> {
+        try {
+            logger.debug({
+                event: 'telegram.get_file.request',
+                fileId,
+            }, 'Getting Telegram file info');
+
+            const response = await this.client.post('getFile', {
+                json: {
+                    file_id: fileId,
+                },
+            }).json<{ ok: boolean; result: TelegramFile }>();
+
+            if (!response.ok) {
+                throw new TelegramAPIError('Telegram API returned ok: false');
+            }
+
+            return response.result;
+        } catch (error) {
+            logger.error({
+                event: 'telegram.get_file.failed',
+                fileId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to get Telegram file info');
+
+            throw new TelegramAPIError(
+                'Failed to get file',
+                undefined,
+                error
+            );
+        }
+    }
+
+    /**
+     * Download a file by its file_path (from getFile)
+     */
+    async downloadFile(filePath: string): Promise<ArrayBuffer> {
+        try {
+            logger.debug({
+                event: 'telegram.download_file.request',
+                filePath,
+            }, 'Downloading Telegram file');
+
+            const data = await this.fileClient.get(filePath).arrayBuffer();
+
+            logger.debug({
+                event: 'telegram.download_file.success',
+                filePath,
+                bytes: data.byteLength,
+            }, 'Telegram file downloaded');
+
+            return data;
+        } catch (error) {
+            logger.error({
+                event: 'telegram.download_file.failed',
+                filePath,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to download Telegram file');
+
+            throw new TelegramAPIError(
+                'Failed to download file',
+                undefined,
+                error
+            );
+        }
+    }
 }
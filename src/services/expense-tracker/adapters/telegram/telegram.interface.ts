@@ -28,8 +28,23 @@ export interface TelegramAdapter {
      * Delete a message
      */
     deleteMessage(chatId: number, messageId: number): Promise<void>;
+
+    /**
+     * Get file info (including the download path) for a file ID
+     */
+    getFile(fileId: string): Promise<TelegramFile>;
+
+    /**
+     * Download a file by its file_path (from getFile)
+     */
+    downloadFile(filePath: string): Promise<ArrayBuffer>;
 }
 
+/**
+ * Largest file the Bot API lets bots download (20 MB)
+ */
+export const TELEGRAM_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
 /**
  * Options for sending messages
  */
@@ -73,7 +88,43 @@ export interface TelegramMessage {
     message_id: number;
     chat: { id: number };
     text?: string;
-    photo?: Array<{ file_id: string }>;
+    caption?: string;
+    /** Available sizes of a photo, smallest first */
+    photo?: TelegramPhotoSize[];
+    document?: TelegramDocument;
+}
+
+/**
+ * One size of a photo
+ */
+export interface TelegramPhotoSize {
+    file_id: string;
+    file_unique_id: string;
+    width: number;
+    height: number;
+    file_size?: number;
+}
+
+/**
+ * General file (photos sent "as file" arrive as documents)
+ */
+export interface TelegramDocument {
+    file_id: string;
+    file_unique_id: string;
+    file_name?: string;
+    mime_type?: string;
+    file_size?: number;
+}
+
+/**
+ * File ready to be downloaded
+ */
+export interface TelegramFile {
+    file_id: string;
+    file_unique_id: string;
+    file_size?: number;
+    /** Path for https://api.telegram.org/file/bot<token>/<file_path> */
+    file_path?: string;
 }
 
 /**
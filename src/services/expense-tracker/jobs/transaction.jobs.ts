@@ -0,0 +1,71 @@
+import type { TransactionProcessor } from '../transaction-processor.service';
+import type { Job, JobQueue } from '@/shared/queue/job-queue.interface';
+import type { ScreenshotWebhookPayload, TransactionResult, WebhookPayload } from '@/shared/types/common.types';
+import type { WideEvent } from '@/shared/types/wide-event.types';
+import { createJobWideEvent, emitJobWideEvent } from '@/shared/middleware/wide-event.middleware';
+
+/**
+ * Job types for webhook transaction processing
+ */
+export const TRANSACTION_JOB_TYPES = {
+    notification: 'transaction.notification',
+    screenshot: 'transaction.screenshot',
+} as const;
+
+/**
+ * Payload of a queued transaction job
+ */
+export interface TransactionJobPayload<T> {
+    /** Request ID of the webhook that enqueued the job (for log correlation) */
+    requestId: string;
+    /** Validated webhook payload */
+    payload: T;
+}
+
+/**
+ * Register the transaction processing handlers on a job queue
+ *
+ * A result with `retriable: true` fails the attempt so the queue retries it;
+ * rejected transactions (filtered app, not a transaction, etc.) complete the job.
+ *
+ * @param queue - Job queue
+ * @param processor - Transaction processor instance
+ */
+export function registerTransactionJobs(queue: JobQueue, processor: TransactionProcessor): void {
+    queue.registerHandler<TransactionJobPayload<WebhookPayload>>(
+        TRANSACTION_JOB_TYPES.notification,
+        (job) => runTransactionJob(job, (wideEvent) => processor.processTransaction(job.payload.payload, wideEvent))
+    );
+
+    queue.registerHandler<TransactionJobPayload<ScreenshotWebhookPayload>>(
+        TRANSACTION_JOB_TYPES.screenshot,
+        (job) => runTransactionJob(job, (wideEvent) => processor.processScreenshotTransaction(job.payload.payload, wideEvent))
+    );
+}
+
+/**
+ * Run a transaction job with its own wide event
+ */
+async function runTransactionJob<T>(
+    job: Job<TransactionJobPayload<T>>,
+    run: (wideEvent: WideEvent) => Promise<TransactionResult>
+): Promise<void> {
+    const startTime = Date.now();
+    const wideEvent = createJobWideEvent({
+        name: job.type,
+        trigger: 'queue',
+        id: job.id,
+        attempt: job.attempts,
+        max_attempts: job.maxAttempts,
+    }, job.payload.requestId);
+
+    try {
+        const result = await run(wideEvent);
+
+        if (!result.success && result.retriable) {
+            throw new Error(result.error || 'Transaction processing failed');
+        }
+    } finally {
+        emitJobWideEvent(wideEvent, startTime);
+    }
+}
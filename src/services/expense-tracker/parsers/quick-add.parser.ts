@@ -0,0 +1,151 @@
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+
+/**
+ * Quick-add parse result
+ * - parsed: the text matched the grammar
+ * - ambiguous: looks like an expense but the grammar can't settle it (hand it to the AI)
+ * - not_quick_add: ordinary chat text
+ */
+export type QuickAddParseResult =
+    | { status: 'parsed'; transaction: ExtractedTransaction }
+    | { status: 'ambiguous'; reason: string }
+    | { status: 'not_quick_add' };
+
+/** `/add` command, optionally addressed to the bot (`/add@duitmyself_bot`) */
+const ADD_COMMAND = /^\/add(@\w+)?(\s+|$)/i;
+
+/** Amount with optional sign and inline currency, e.g. `12.50`, `RM12.50`, `+1,200`, `12.50myr` */
+const AMOUNT = /^([+-])?(rm|[a-z]{3})?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(rm|[a-z]{3})?$/i;
+
+/** Stand-alone currency token */
+const CURRENCY = /^(rm|myr|usd|sgd|eur|gbp|jpy|thb|idr|aud|cny|hkd)$/i;
+
+/** Words that end the merchant name and start a note ("grab to office") */
+const NOTE_CONNECTORS = new Set(['to', 'for', 'with', '-']);
+
+/**
+ * Check whether text uses the explicit `/add` command
+ */
+export function isQuickAddCommand(text: string): boolean {
+    return ADD_COMMAND.test(text.trim());
+}
+
+/**
+ * Remove the `/add` command from text
+ */
+export function stripQuickAddCommand(text: string): string {
+    return text.trim().replace(ADD_COMMAND, '').trim();
+}
+
+/**
+ * Normalize a currency token to an ISO code
+ */
+function normalizeCurrency(token: string): string {
+    const upper = token.toUpperCase();
+    return upper === 'RM' ? 'MYR' : upper;
+}
+
+/**
+ * Title-case a merchant name typed in lower case ("kopi tiam" -> "Kopi Tiam")
+ */
+function formatMerchant(words: string[]): string {
+    return words
+        .map((word) => (word === word.toLowerCase() ? word.charAt(0).toUpperCase() + word.slice(1) : word))
+        .join(' ');
+}
+
+/**
+ * Parse a quick-add expense message
+ *
+ * Grammar (order of tokens is flexible around the amount):
+ *   [/add] [+]<amount> [currency] <merchant> [to|for|with|- <notes>] [#category]
+ *
+ * Examples: `12.50 kopi tiam`, `25 grab to office #transport`,
+ * `/add 12.50 MYR Starbucks`, `+500 salary`, `RM8 nasi lemak`.
+ * A leading `+` records income (credit); everything else is a debit.
+ *
+ * Without `/add`, only messages starting with an amount are treated as quick-add.
+ *
+ * @param text - Raw message text
+ * @returns Parse result
+ */
+export function parseQuickAdd(text: string): QuickAddParseResult {
+    const trimmed = text.trim();
+    const explicit = isQuickAddCommand(trimmed);
+    const body = explicit ? stripQuickAddCommand(trimmed) : trimmed;
+    const tokens = body.split(/\s+/).filter(Boolean);
+
+    const first = tokens[0];
+    const startsWithAmount = !!first && (AMOUNT.test(first) || CURRENCY.test(first));
+    if (!explicit && !startsWithAmount) {
+        return { status: 'not_quick_add' };
+    }
+
+    let amount: number | undefined;
+    let type: ExtractedTransaction['type'] = 'debit';
+    let currency: string | undefined;
+    let category: string | undefined;
+    const words: string[] = [];
+
+    for (const token of tokens) {
+        if (token.startsWith('#') && token.length > 1) {
+            category ??= token.slice(1).replace(/_/g, ' ');
+            continue;
+        }
+
+        if (CURRENCY.test(token) && !currency && words.length === 0) {
+            currency = normalizeCurrency(token);
+            continue;
+        }
+
+        const match = AMOUNT.exec(token);
+        const inlineCurrency = match?.[2] ?? match?.[5];
+        if (match && (!inlineCurrency || CURRENCY.test(inlineCurrency))) {
+            if (amount !== undefined) {
+                return { status: 'ambiguous', reason: 'More than one amount' };
+            }
+
+            const [, sign, , whole = '', fraction] = match;
+            amount = parseFloat(`${whole.replace(/,/g, '')}.${fraction ?? '0'}`);
+            if (sign === '+') {
+                type = 'credit';
+            }
+            if (inlineCurrency) {
+                currency = normalizeCurrency(inlineCurrency);
+            }
+            continue;
+        }
+
+        words.push(token);
+    }
+
+    if (amount === undefined || amount <= 0) {
+        return { status: 'ambiguous', reason: 'No amount found' };
+    }
+
+    // Leading "at"/"@" is filler: "12.50 at Starbucks"
+    if (words[0] && ['at', '@'].includes(words[0].toLowerCase())) {
+        words.shift();
+    }
+
+    const connectorIndex = words.findIndex((word, index) => index > 0 && NOTE_CONNECTORS.has(word.toLowerCase()));
+    const merchantWords = connectorIndex === -1 ? words : words.slice(0, connectorIndex);
+    const noteWords = connectorIndex === -1 ? [] : words.slice(connectorIndex);
+
+    if (merchantWords.length === 0) {
+        return { status: 'ambiguous', reason: 'No merchant found' };
+    }
+
+    return {
+        status: 'parsed',
+        transaction: {
+            is_transaction: true,
+            amount,
+            merchant: formatMerchant(merchantWords),
+            type,
+            currency: currency ?? 'MYR',
+            category,
+            notes: noteWords.length > 0 ? noteWords.join(' ') : undefined,
+        },
+    };
+}
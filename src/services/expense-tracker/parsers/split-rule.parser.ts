@@ -0,0 +1,120 @@
+import type { SplitPartDetails, SplitRule } from '@/shared/types/common.types';
+
+/**
+ * Split shorthand parse result
+ */
+export type SplitRuleParseResult =
+    | { status: 'parsed'; rule: SplitRule }
+    | { status: 'invalid'; reason: string };
+
+/** Even split: `3`, `3 ways`, `3x`, `4 pax`, `3 @Ali @Sam` */
+const EVEN = /^(\d+)\s*(ways?|x|pax|people)?((?:\s+@[\w.-]+)*)$/i;
+
+/** Person a part belongs to: `@Ali` */
+const PARTICIPANT = /(?:^|\s)@([\w.-]+)/;
+
+/** Percentages without details: `60/40`, `50/30/20` */
+const PERCENT_RATIO = /^\d+(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)+$/;
+
+/** One part: `12.50 Food - lunch`, `RM13 Transport`, `60% Groceries` */
+const PART = /^(?:rm\s*)?(\d+(?:\.\d{1,2})?)\s*(%)?\s*(.*)$/i;
+
+/** Separators between parts (thousands separators aren't supported) */
+const PART_SEPARATOR = /\s*[,;+\n]\s*/;
+
+/**
+ * Split a part's trailing text into category, notes and participant (`Food @Ali - lunch`)
+ */
+function parseDetails(text: string): SplitPartDetails {
+    const participant = PARTICIPANT.exec(text)?.[1];
+    const rest = participant ? text.replace(PARTICIPANT, ' ') : text;
+
+    const dash = rest.search(/(?:^|\s)-\s/);
+    const category = (dash === -1 ? rest : rest.slice(0, dash)).trim();
+    const notes = dash === -1 ? '' : rest.slice(dash).replace(/^\s*-\s/, '').trim();
+
+    return {
+        ...(category ? { category } : {}),
+        ...(notes ? { notes } : {}),
+        ...(participant ? { participant } : {}),
+    };
+}
+
+/**
+ * Parse split shorthand typed in Telegram or sent as `user_input.split`
+ *
+ * Grammar:
+ *   <n> [ways] [@name ...]                        - N equal parts, the names owing parts 2..N
+ *   <p>/<p>[/<p>...]                              - percentages
+ *   <amount|p%> [category] [@name] [- notes], ... - parts separated by `,` `;` `+` or new lines
+ *
+ * Examples: `3`, `2 @Ali`, `60/40`, `60% Food, 40% Groceries`,
+ * `12.50 Food, 13 Transport @Sam - taxi`.
+ * Percentages and amounts can't be mixed. Whether they add up is checked when
+ * the split is resolved against the transaction amount.
+ *
+ * @param text - Shorthand text
+ * @returns Parse result
+ */
+export function parseSplitRule(text: string): SplitRuleParseResult {
+    const trimmed = text.trim();
+
+    const even = EVEN.exec(trimmed);
+    if (even) {
+        const ways = parseInt(even[1]!, 10);
+        const participants = (even[3] ?? '').split('@').map((name) => name.trim()).filter(Boolean);
+
+        if (ways < 2) {
+            return { status: 'invalid', reason: 'A split needs at least 2 parts' };
+        }
+        if (participants.length >= ways) {
+            return { status: 'invalid', reason: `Only ${ways - 1} other people can share a ${ways}-way split` };
+        }
+        return {
+            status: 'parsed',
+            rule: participants.length > 0
+                ? { type: 'even', ways, parts: [{}, ...participants.map((participant) => ({ participant }))] }
+                : { type: 'even', ways },
+        };
+    }
+
+    if (PERCENT_RATIO.test(trimmed)) {
+        return {
+            status: 'parsed',
+            rule: {
+                type: 'percent',
+                parts: trimmed.split('/').map((value) => ({ percent: parseFloat(value) })),
+            },
+        };
+    }
+
+    const segments = trimmed.split(PART_SEPARATOR).filter(Boolean);
+    if (segments.length < 2) {
+        return { status: 'invalid', reason: 'A split needs at least 2 parts' };
+    }
+
+    const parts: Array<SplitPartDetails & { value: number; percent: boolean }> = [];
+    for (const segment of segments) {
+        const match = PART.exec(segment);
+        if (!match) {
+            return { status: 'invalid', reason: `Can't read "${segment}" - start each part with an amount or percentage` };
+        }
+        const [, value = '', percent, rest = ''] = match;
+        parts.push({ value: parseFloat(value), percent: percent === '%', ...parseDetails(rest) });
+    }
+
+    const percentParts = parts.filter((part) => part.percent).length;
+    if (percentParts > 0 && percentParts < parts.length) {
+        return { status: 'invalid', reason: 'Use either percentages or amounts for every part' };
+    }
+
+    const details = (part: (typeof parts)[number]): SplitPartDetails => ({
+        ...(part.category ? { category: part.category } : {}),
+        ...(part.notes ? { notes: part.notes } : {}),
+        ...(part.participant ? { participant: part.participant } : {}),
+    });
+
+    return percentParts > 0
+        ? { status: 'parsed', rule: { type: 'percent', parts: parts.map((part) => ({ percent: part.value, ...details(part) })) } }
+        : { status: 'parsed', rule: { type: 'amount', parts: parts.map((part) => ({ amount: part.value, ...details(part) })) } };
+}
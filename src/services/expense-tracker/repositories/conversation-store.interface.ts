@@ -0,0 +1,59 @@
+import type { PendingTransaction } from '../services/conversation-state.service';
+
+/**
+ * Conversation Store Repository
+ *
+ * Storage for pending Telegram transactions, so half-finished confirmations
+ * survive restarts and deploys.
+ *
+ * Implementations: in-memory, SQLite (bun:sqlite)
+ */
+export interface ConversationStore {
+    /**
+     * Create or update a pending transaction
+     */
+    set(key: string, transaction: PendingTransaction): void;
+
+    /**
+     * Get a pending transaction
+     */
+    get(key: string): PendingTransaction | undefined;
+
+    /**
+     * Delete a pending transaction
+     */
+    delete(key: string): void;
+
+    /**
+     * List pending transactions, oldest first
+     *
+     * @param chatId - Only list transactions in this chat
+     */
+    list(chatId?: number): PendingTransaction[];
+
+    /**
+     * Delete pending transactions created before the cutoff
+     *
+     * @returns Number of deleted transactions
+     */
+    deleteOlderThan(cutoff: Date): number;
+
+    /**
+     * Count pending transactions
+     */
+    count(): number;
+}
+
+/**
+ * Conversation Store Error
+ */
+export class ConversationStoreError extends Error {
+    constructor(
+        message: string,
+        public readonly key?: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'ConversationStoreError';
+    }
+}
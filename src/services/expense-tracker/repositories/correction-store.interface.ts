@@ -0,0 +1,63 @@
+/**
+ * What a user changed for a merchant
+ *
+ * Only corrected fields are set; later corrections of other fields are merged in.
+ */
+export interface MerchantCorrection {
+    /** Merchant as extracted by the AI (what future extractions are matched against) */
+    merchant: string;
+    /** Payee name the user changed it to */
+    payee?: string | undefined;
+    /** Category the user picked */
+    category?: string | undefined;
+    /** Budget category ID of the picked category */
+    categoryId?: string | undefined;
+    /** Budget account the user picked */
+    accountId?: string | undefined;
+    /** How many times this merchant was corrected */
+    timesCorrected: number;
+    updatedAt: Date;
+}
+
+/**
+ * Correction Store Repository
+ *
+ * Remembers merchant corrections made in Telegram. Merchants are keyed by
+ * their normalized name, so "STARBUCKS KLCC" and "Starbucks Klcc" share one entry.
+ *
+ * Implementations: SQLite (bun:sqlite)
+ */
+export interface CorrectionStore {
+    /**
+     * Record a correction, merging it into any earlier one for the same merchant
+     *
+     * @returns The merged correction
+     */
+    save(correction: Omit<MerchantCorrection, 'timesCorrected' | 'updatedAt'>): MerchantCorrection;
+
+    /**
+     * Correction for a merchant with the same normalized name
+     */
+    find(merchant: string): MerchantCorrection | undefined;
+
+    /**
+     * All corrections, most recently updated first
+     *
+     * @param limit - Maximum number of corrections (default: all)
+     */
+    list(limit?: number): MerchantCorrection[];
+}
+
+/**
+ * Correction Store Error
+ */
+export class CorrectionStoreError extends Error {
+    constructor(
+        message: string,
+        public readonly merchant?: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'CorrectionStoreError';
+    }
+}
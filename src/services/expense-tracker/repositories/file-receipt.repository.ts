@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { detectImageFormat } from '../services/image-preprocessing.service';
+import type { ReceiptStore, StoredReceipt } from './receipt-store.interface';
+import { ReceiptStoreError } from './receipt-store.interface';
+
+/**
+ * Receipt IDs are SHA-256 hex digests (anything else can't be a stored file)
+ */
+const RECEIPT_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * File Receipt Store
+ *
+ * Stores each image as `<directory>/<first 2 hex chars>/<sha256>` so no
+ * directory grows too large. Files are written to a temporary name and
+ * renamed, so a crash never leaves a truncated receipt behind.
+ */
+export class FileReceiptStore implements ReceiptStore {
+    constructor(private readonly directory: string) { }
+
+    save(data: Uint8Array): StoredReceipt {
+        const id = createHash('sha256').update(data).digest('hex');
+        const path = this.path(id);
+
+        try {
+            if (!existsSync(path)) {
+                mkdirSync(join(this.directory, id.slice(0, 2)), { recursive: true });
+                const temporaryPath = `${path}.${crypto.randomUUID()}.tmp`;
+                writeFileSync(temporaryPath, data);
+                renameSync(temporaryPath, path);
+            }
+        } catch (error) {
+            throw new ReceiptStoreError('Failed to store receipt', id, error instanceof Error ? error : undefined);
+        }
+
+        return { id, mimeType: mimeTypeOf(data), bytes: data.length };
+    }
+
+    get(id: string): (StoredReceipt & { data: Uint8Array<ArrayBuffer> }) | undefined {
+        if (!RECEIPT_ID_PATTERN.test(id) || !existsSync(this.path(id))) {
+            return undefined;
+        }
+
+        try {
+            const data = readFileSync(this.path(id));
+            return { id, mimeType: mimeTypeOf(data), bytes: data.length, data };
+        } catch (error) {
+            throw new ReceiptStoreError('Failed to read receipt', id, error instanceof Error ? error : undefined);
+        }
+    }
+
+    private path(id: string): string {
+        return join(this.directory, id.slice(0, 2), id);
+    }
+}
+
+/**
+ * MIME type of an image from its magic bytes
+ */
+function mimeTypeOf(data: Uint8Array): string {
+    const format = detectImageFormat(data);
+    return format ? `image/${format}` : 'application/octet-stream';
+}
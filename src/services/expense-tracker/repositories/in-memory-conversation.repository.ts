@@ -0,0 +1,47 @@
+import type { PendingTransaction } from '../services/conversation-state.service';
+import type { ConversationStore } from './conversation-store.interface';
+
+/**
+ * In-Memory Conversation Store
+ *
+ * Keeps pending transactions in a Map. State is lost on restart - use the
+ * SQLite store in production.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+    private conversations = new Map<string, PendingTransaction>();
+
+    set(key: string, transaction: PendingTransaction): void {
+        this.conversations.set(key, transaction);
+    }
+
+    get(key: string): PendingTransaction | undefined {
+        return this.conversations.get(key);
+    }
+
+    delete(key: string): void {
+        this.conversations.delete(key);
+    }
+
+    list(chatId?: number): PendingTransaction[] {
+        return Array.from(this.conversations.values())
+            .filter((transaction) => chatId === undefined || transaction.chatId === chatId)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    deleteOlderThan(cutoff: Date): number {
+        let deleted = 0;
+
+        for (const [key, transaction] of this.conversations.entries()) {
+            if (transaction.createdAt < cutoff) {
+                this.conversations.delete(key);
+                deleted++;
+            }
+        }
+
+        return deleted;
+    }
+
+    count(): number {
+        return this.conversations.size;
+    }
+}
@@ -0,0 +1,124 @@
+import type { ExtractedTransaction, TransactionResult } from '@/shared/types/common.types';
+
+/**
+ * Channel a ledger entry came in through
+ */
+export type LedgerSource = 'notification' | 'screenshot' | 'telegram';
+
+/**
+ * Pipeline outcome of a ledger entry
+ * - pending: still being processed (or the process died mid-way)
+ * - success: transaction created in the budget platform
+ * - rejected: filtered out on purpose (not allowed, not a transaction, low confidence)
+ * - error: processing failed
+ */
+export type LedgerOutcome = 'pending' | 'success' | 'rejected' | 'error';
+
+/**
+ * A single processed request as recorded in the ledger
+ */
+export interface LedgerEntry {
+    /** Ledger entry ID */
+    id: string;
+    /** Request ID (matches the wide event request_id) */
+    requestId: string;
+    /** Channel the request came in through */
+    source: LedgerSource;
+    /** Position in the request's batch, for each transaction of a multi-transaction extraction */
+    batchIndex?: number | undefined;
+    /** Banking app name / package name (if known) */
+    appName?: string | undefined;
+    /** Raw webhook payload (large binary fields are omitted) */
+    rawPayload: unknown;
+    /** Archived screenshot the transaction was extracted from */
+    receiptId?: string | undefined;
+    /** AI extraction result */
+    extracted?: ExtractedTransaction | undefined;
+    /** Resolved budget platform account ID */
+    accountId?: string | undefined;
+    /** Budget platform result */
+    result?: TransactionResult | undefined;
+    /** Pipeline outcome */
+    outcome: LedgerOutcome;
+    /** Pipeline step that rejected or failed the request */
+    failedStep?: string | undefined;
+    /** Error message for rejected/failed requests */
+    error?: string | undefined;
+    /** Created at (ISO 8601) */
+    createdAt: string;
+    /** Last updated at (ISO 8601) */
+    updatedAt: string;
+}
+
+/**
+ * Transaction Ledger Repository
+ *
+ * Durable record of every request that enters the transaction pipeline.
+ * The processor writes to it at each stage, so a transaction that Lunch Money
+ * rejected (or a process that crashed mid-way) can still be found and replayed.
+ *
+ * Implementations: SQLite (bun:sqlite)
+ */
+export interface TransactionLedger {
+    /**
+     * Open a ledger entry when a request enters the pipeline
+     *
+     * @returns Ledger entry ID
+     */
+    start(entry: {
+        requestId: string;
+        source: LedgerSource;
+        rawPayload: unknown;
+        appName?: string | undefined;
+        batchIndex?: number | undefined;
+    }): string;
+
+    /**
+     * Record the archived screenshot of the request
+     */
+    recordReceipt(id: string, receiptId: string): void;
+
+    /**
+     * Record the AI extraction result
+     */
+    recordExtraction(id: string, extracted: ExtractedTransaction): void;
+
+    /**
+     * Record the resolved budget platform account
+     */
+    recordAccount(id: string, accountId: string): void;
+
+    /**
+     * Record the budget platform result
+     */
+    recordResult(id: string, result: TransactionResult): void;
+
+    /**
+     * Close the entry with its final pipeline outcome
+     */
+    complete(id: string, outcome: LedgerOutcome, details?: { step?: string; error?: string }): void;
+
+    /**
+     * Get a ledger entry by ID
+     */
+    get(id: string): LedgerEntry | undefined;
+
+    /**
+     * List ledger entries, newest first
+     */
+    list(options?: { limit?: number; outcome?: LedgerOutcome; since?: Date; requestId?: string }): LedgerEntry[];
+}
+
+/**
+ * Ledger Error
+ */
+export class LedgerError extends Error {
+    constructor(
+        message: string,
+        public readonly entryId?: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'LedgerError';
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * An archived screenshot or receipt photo
+ */
+export interface StoredReceipt {
+    /** Content address: SHA-256 of the image (hex) */
+    id: string;
+    /** MIME type detected from the image's magic bytes */
+    mimeType: string;
+    /** Size in bytes */
+    bytes: number;
+}
+
+/**
+ * Receipt Store Repository
+ *
+ * Keeps the original images sent for extraction, addressed by their content,
+ * so the same screenshot sent twice is stored once and every transaction
+ * created from it points at the same receipt.
+ *
+ * Implementations: local files
+ */
+export interface ReceiptStore {
+    /**
+     * Store an image (a no-op if it is already stored)
+     */
+    save(data: Uint8Array): StoredReceipt;
+
+    /**
+     * Get a stored image by its ID
+     */
+    get(id: string): (StoredReceipt & { data: Uint8Array<ArrayBuffer> }) | undefined;
+}
+
+/**
+ * Receipt Store Error
+ */
+export class ReceiptStoreError extends Error {
+    constructor(
+        message: string,
+        public readonly receiptId?: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'ReceiptStoreError';
+    }
+}
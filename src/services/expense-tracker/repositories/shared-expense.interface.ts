@@ -0,0 +1,83 @@
+/**
+ * Kind of shared-expense entry
+ * - expense: someone's part of a split bill (they owe you)
+ * - settlement: a repayment (reduces what they owe)
+ */
+export type SharedExpenseKind = 'expense' | 'settlement';
+
+/**
+ * One change to what a person owes
+ */
+export interface SharedExpense {
+    /** Entry ID (UUID) */
+    id: string;
+    /** Person's name as entered */
+    participant: string;
+    /** Amount they owe (negative for settlements) */
+    amount: number;
+    /** ISO currency code (upper case) */
+    currency: string;
+    /** What it was for (e.g. the merchant) */
+    description: string;
+    /** Budget account the bill was paid from / the repayment went to */
+    accountId: string;
+    /** Budget platform transaction ID */
+    transactionId?: string | undefined;
+    kind: SharedExpenseKind;
+    createdAt: Date;
+}
+
+/**
+ * Outstanding balance of one person in one currency
+ */
+export interface ParticipantBalance {
+    /** Person's name (as last entered) */
+    participant: string;
+    /** ISO currency code */
+    currency: string;
+    /** Amount they owe (negative if you owe them) */
+    amount: number;
+    /** Account of their latest entry (where repayments are recorded) */
+    accountId: string;
+    lastActivityAt: Date;
+}
+
+/**
+ * Shared Expense Store Repository
+ *
+ * Records who owes what for split bills. Names are matched case-insensitively.
+ *
+ * Implementations: SQLite (bun:sqlite)
+ */
+export interface SharedExpenseStore {
+    /**
+     * Record an expense or settlement
+     *
+     * @returns The stored entry
+     */
+    record(entry: Omit<SharedExpense, 'id' | 'createdAt'>): SharedExpense;
+
+    /**
+     * Outstanding (non-zero) balances, largest first
+     */
+    balances(): ParticipantBalance[];
+
+    /**
+     * Entries of one person, oldest first
+     */
+    list(participant: string): SharedExpense[];
+}
+
+/**
+ * Shared Expense Store Error
+ */
+export class SharedExpenseStoreError extends Error {
+    constructor(
+        message: string,
+        public readonly participant?: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'SharedExpenseStoreError';
+    }
+}
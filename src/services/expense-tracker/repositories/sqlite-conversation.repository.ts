@@ -0,0 +1,138 @@
+import type { Database } from 'bun:sqlite';
+import type { PendingTransaction } from '../services/conversation-state.service';
+import type { ConversationStore } from './conversation-store.interface';
+import { ConversationStoreError } from './conversation-store.interface';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Row shape of the conversation_state table
+ */
+interface ConversationRow {
+    key: string;
+    chat_id: number;
+    data: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * SQLite Conversation Store
+ *
+ * Stores pending transactions as JSON in a `conversation_state` table.
+ * `createdAt` is kept in its own column so expiry doesn't need to parse every row.
+ * Screenshots aren't stored - the archived receipt (`receiptId`) links to the original.
+ */
+export class SqliteConversationStore implements ConversationStore {
+    constructor(private readonly db: Database) {
+        this.migrate();
+    }
+
+    /**
+     * Create tables and indexes if they don't exist
+     */
+    private migrate(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS conversation_state (
+                key TEXT PRIMARY KEY,
+                chat_id INTEGER NOT NULL,
+                data TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_conversation_state_created_at ON conversation_state (created_at);
+            CREATE INDEX IF NOT EXISTS idx_conversation_state_chat_id ON conversation_state (chat_id);
+        `);
+    }
+
+    set(key: string, transaction: PendingTransaction): void {
+        this.db.query(`
+            INSERT INTO conversation_state (key, chat_id, data, created_at, updated_at)
+            VALUES ($key, $chatId, $data, $createdAt, $now)
+            ON CONFLICT (key) DO UPDATE SET
+                chat_id = excluded.chat_id,
+                data = excluded.data,
+                created_at = excluded.created_at,
+                updated_at = excluded.updated_at
+        `).run({
+            key,
+            chatId: transaction.chatId,
+            data: JSON.stringify(transaction),
+            createdAt: transaction.createdAt.toISOString(),
+            now: new Date().toISOString(),
+        });
+    }
+
+    get(key: string): PendingTransaction | undefined {
+        const row = this.db
+            .query<ConversationRow, { key: string }>('SELECT * FROM conversation_state WHERE key = $key')
+            .get({ key });
+
+        return row ? this.toTransaction(row) : undefined;
+    }
+
+    delete(key: string): void {
+        this.db.query('DELETE FROM conversation_state WHERE key = $key').run({ key });
+    }
+
+    list(chatId?: number): PendingTransaction[] {
+        const rows = chatId === undefined
+            ? this.db
+                .query<ConversationRow, []>('SELECT * FROM conversation_state ORDER BY created_at ASC')
+                .all()
+            : this.db
+                .query<ConversationRow, { chatId: number }>(
+                    'SELECT * FROM conversation_state WHERE chat_id = $chatId ORDER BY created_at ASC'
+                )
+                .all({ chatId });
+
+        // One unreadable row shouldn't hide every other pending confirmation
+        return rows.flatMap((row) => {
+            try {
+                return [this.toTransaction(row)];
+            } catch (error) {
+                logger.warn({
+                    event: 'telegram.conversation.corrupt',
+                    key: row.key,
+                    error: error instanceof Error ? error.message : String(error),
+                }, 'Deleting pending conversation that can no longer be read');
+
+                this.delete(row.key);
+                return [];
+            }
+        });
+    }
+
+    deleteOlderThan(cutoff: Date): number {
+        return this.db
+            .query('DELETE FROM conversation_state WHERE created_at < $cutoff')
+            .run({ cutoff: cutoff.toISOString() })
+            .changes;
+    }
+
+    count(): number {
+        const row = this.db
+            .query<{ count: number }, []>('SELECT COUNT(*) AS count FROM conversation_state')
+            .get();
+
+        return row?.count ?? 0;
+    }
+
+    /**
+     * Convert a database row to a pending transaction
+     */
+    private toTransaction(row: ConversationRow): PendingTransaction {
+        try {
+            const transaction = JSON.parse(row.data) as Omit<PendingTransaction, 'createdAt'> & { createdAt: string };
+            return {
+                ...transaction,
+                createdAt: new Date(transaction.createdAt),
+            };
+        } catch (error) {
+            throw new ConversationStoreError(
+                'Failed to parse stored conversation',
+                row.key,
+                error instanceof Error ? error : undefined
+            );
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import type { Database } from 'bun:sqlite';
+import type { CorrectionStore, MerchantCorrection } from './correction-store.interface';
+import { CorrectionStoreError } from './correction-store.interface';
+
+/**
+ * Row shape of the merchant_corrections table
+ */
+interface CorrectionRow {
+    merchant_key: string;
+    merchant: string;
+    payee: string | null;
+    category: string | null;
+    category_id: string | null;
+    account_id: string | null;
+    times_corrected: number;
+    updated_at: string;
+}
+
+/**
+ * Normalize a merchant name for lookup ("STARBUCKS KLCC" and "Starbucks  Klcc" are the same)
+ */
+function merchantKey(merchant: string): string {
+    return merchant.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * SQLite Correction Store
+ *
+ * Stores one row per normalized merchant name. Saving a correction only
+ * overwrites the fields it sets, so a payee fix and a later category fix
+ * for the same merchant end up in one row.
+ */
+export class SqliteCorrectionStore implements CorrectionStore {
+    constructor(private readonly db: Database) {
+        this.migrate();
+    }
+
+    /**
+     * Create tables and indexes if they don't exist
+     */
+    private migrate(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS merchant_corrections (
+                merchant_key TEXT PRIMARY KEY,
+                merchant TEXT NOT NULL,
+                payee TEXT,
+                category TEXT,
+                category_id TEXT,
+                account_id TEXT,
+                times_corrected INTEGER NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_merchant_corrections_updated_at ON merchant_corrections (updated_at);
+        `);
+    }
+
+    save(correction: Omit<MerchantCorrection, 'timesCorrected' | 'updatedAt'>): MerchantCorrection {
+        const key = merchantKey(correction.merchant);
+        if (!key) {
+            throw new CorrectionStoreError('Merchant name is required', correction.merchant);
+        }
+
+        // A new category without an ID replaces the old category's ID too
+        this.db.query(`
+            INSERT INTO merchant_corrections (
+                merchant_key, merchant, payee, category, category_id, account_id, times_corrected, updated_at
+            ) VALUES (
+                $key, $merchant, $payee, $category, $categoryId, $accountId, 1, $now
+            )
+            ON CONFLICT (merchant_key) DO UPDATE SET
+                merchant = excluded.merchant,
+                payee = COALESCE(excluded.payee, payee),
+                category = COALESCE(excluded.category, category),
+                category_id = CASE WHEN excluded.category IS NULL THEN category_id ELSE excluded.category_id END,
+                account_id = COALESCE(excluded.account_id, account_id),
+                times_corrected = times_corrected + 1,
+                updated_at = excluded.updated_at
+        `).run({
+            key,
+            merchant: correction.merchant.trim(),
+            payee: correction.payee ?? null,
+            category: correction.category ?? null,
+            categoryId: correction.categoryId ?? null,
+            accountId: correction.accountId ?? null,
+            now: new Date().toISOString(),
+        });
+
+        const saved = this.find(correction.merchant);
+        if (!saved) {
+            throw new CorrectionStoreError('Failed to save correction', correction.merchant);
+        }
+        return saved;
+    }
+
+    find(merchant: string): MerchantCorrection | undefined {
+        const row = this.db
+            .query<CorrectionRow, { key: string }>('SELECT * FROM merchant_corrections WHERE merchant_key = $key')
+            .get({ key: merchantKey(merchant) });
+
+        return row ? this.toCorrection(row) : undefined;
+    }
+
+    list(limit?: number): MerchantCorrection[] {
+        return this.db
+            .query<CorrectionRow, { limit: number }>(
+                'SELECT * FROM merchant_corrections ORDER BY updated_at DESC, rowid DESC LIMIT $limit'
+            )
+            .all({ limit: limit ?? -1 })
+            .map((row) => this.toCorrection(row));
+    }
+
+    /**
+     * Convert a database row to a correction
+     */
+    private toCorrection(row: CorrectionRow): MerchantCorrection {
+        return {
+            merchant: row.merchant,
+            payee: row.payee ?? undefined,
+            category: row.category ?? undefined,
+            categoryId: row.category_id ?? undefined,
+            accountId: row.account_id ?? undefined,
+            timesCorrected: row.times_corrected,
+            updatedAt: new Date(row.updated_at),
+        };
+    }
+}
@@ -0,0 +1,199 @@
+import type { Database } from 'bun:sqlite';
+import type { ExtractedTransaction, TransactionResult } from '@/shared/types/common.types';
+import type { LedgerEntry, LedgerOutcome, LedgerSource, TransactionLedger } from './ledger.interface';
+import { LedgerError } from './ledger.interface';
+
+/**
+ * Row shape of the transaction_ledger table
+ */
+interface LedgerRow {
+    id: string;
+    request_id: string;
+    source: string;
+    batch_index: number | null;
+    app_name: string | null;
+    raw_payload: string;
+    receipt_id: string | null;
+    extracted: string | null;
+    account_id: string | null;
+    result: string | null;
+    outcome: string;
+    failed_step: string | null;
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * SQLite Transaction Ledger
+ *
+ * Stores ledger entries in a `transaction_ledger` table. JSON columns hold
+ * the raw payload, extraction and result so the schema doesn't have to
+ * follow every change to those types.
+ */
+export class SqliteTransactionLedger implements TransactionLedger {
+    constructor(private readonly db: Database) {
+        this.migrate();
+    }
+
+    /**
+     * Create tables and indexes if they don't exist
+     */
+    private migrate(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS transaction_ledger (
+                id TEXT PRIMARY KEY,
+                request_id TEXT NOT NULL,
+                source TEXT NOT NULL,
+                app_name TEXT,
+                raw_payload TEXT NOT NULL,
+                extracted TEXT,
+                account_id TEXT,
+                result TEXT,
+                outcome TEXT NOT NULL DEFAULT 'pending',
+                failed_step TEXT,
+                error TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_transaction_ledger_created_at ON transaction_ledger (created_at);
+            CREATE INDEX IF NOT EXISTS idx_transaction_ledger_outcome ON transaction_ledger (outcome);
+            CREATE INDEX IF NOT EXISTS idx_transaction_ledger_request_id ON transaction_ledger (request_id);
+        `);
+
+        // Added after the table was first released
+        const columns = this.db.query<{ name: string }, []>('PRAGMA table_info(transaction_ledger)').all();
+        if (!columns.some((column) => column.name === 'receipt_id')) {
+            this.db.exec('ALTER TABLE transaction_ledger ADD COLUMN receipt_id TEXT');
+        }
+        if (!columns.some((column) => column.name === 'batch_index')) {
+            this.db.exec('ALTER TABLE transaction_ledger ADD COLUMN batch_index INTEGER');
+        }
+    }
+
+    start(entry: {
+        requestId: string;
+        source: LedgerSource;
+        rawPayload: unknown;
+        appName?: string | undefined;
+        batchIndex?: number | undefined;
+    }): string {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+
+        this.db.query(`
+            INSERT INTO transaction_ledger (id, request_id, source, batch_index, app_name, raw_payload, outcome, created_at, updated_at)
+            VALUES ($id, $requestId, $source, $batchIndex, $appName, $rawPayload, 'pending', $now, $now)
+        `).run({
+            id,
+            requestId: entry.requestId,
+            source: entry.source,
+            batchIndex: entry.batchIndex ?? null,
+            appName: entry.appName ?? null,
+            rawPayload: JSON.stringify(entry.rawPayload ?? null),
+            now,
+        });
+
+        return id;
+    }
+
+    recordReceipt(id: string, receiptId: string): void {
+        this.update(id, 'receipt_id', receiptId);
+    }
+
+    recordExtraction(id: string, extracted: ExtractedTransaction): void {
+        this.update(id, 'extracted', JSON.stringify(extracted));
+    }
+
+    recordAccount(id: string, accountId: string): void {
+        this.update(id, 'account_id', accountId);
+    }
+
+    recordResult(id: string, result: TransactionResult): void {
+        this.update(id, 'result', JSON.stringify(result));
+    }
+
+    complete(id: string, outcome: LedgerOutcome, details?: { step?: string; error?: string }): void {
+        const changes = this.db.query(`
+            UPDATE transaction_ledger
+            SET outcome = $outcome, failed_step = $step, error = $error, updated_at = $now
+            WHERE id = $id
+        `).run({
+            id,
+            outcome,
+            step: details?.step ?? null,
+            error: details?.error ?? null,
+            now: new Date().toISOString(),
+        }).changes;
+
+        if (changes === 0) {
+            throw new LedgerError('Ledger entry not found', id);
+        }
+    }
+
+    get(id: string): LedgerEntry | undefined {
+        const row = this.db
+            .query<LedgerRow, { id: string }>('SELECT * FROM transaction_ledger WHERE id = $id')
+            .get({ id });
+
+        return row ? this.toEntry(row) : undefined;
+    }
+
+    list(options?: { limit?: number; outcome?: LedgerOutcome; since?: Date; requestId?: string }): LedgerEntry[] {
+        const rows = this.db.query<LedgerRow, { outcome: string | null; since: string | null; requestId: string | null; limit: number }>(`
+            SELECT * FROM transaction_ledger
+            WHERE ($outcome IS NULL OR outcome = $outcome)
+              AND ($since IS NULL OR created_at >= $since)
+              AND ($requestId IS NULL OR request_id = $requestId)
+            ORDER BY created_at DESC
+            LIMIT $limit
+        `).all({
+            outcome: options?.outcome ?? null,
+            since: options?.since?.toISOString() ?? null,
+            requestId: options?.requestId ?? null,
+            limit: options?.limit ?? 100,
+        });
+
+        return rows.map((row) => this.toEntry(row));
+    }
+
+    /**
+     * Update a single column of a ledger entry
+     */
+    private update(id: string, column: 'receipt_id' | 'extracted' | 'account_id' | 'result', value: string): void {
+        const changes = this.db.query(`
+            UPDATE transaction_ledger SET ${column} = $value, updated_at = $now WHERE id = $id
+        `).run({
+            id,
+            value,
+            now: new Date().toISOString(),
+        }).changes;
+
+        if (changes === 0) {
+            throw new LedgerError('Ledger entry not found', id);
+        }
+    }
+
+    /**
+     * Convert a database row to a ledger entry
+     */
+    private toEntry(row: LedgerRow): LedgerEntry {
+        return {
+            id: row.id,
+            requestId: row.request_id,
+            source: row.source as LedgerSource,
+            batchIndex: row.batch_index ?? undefined,
+            appName: row.app_name ?? undefined,
+            rawPayload: JSON.parse(row.raw_payload) as unknown,
+            receiptId: row.receipt_id ?? undefined,
+            extracted: row.extracted ? JSON.parse(row.extracted) as ExtractedTransaction : undefined,
+            accountId: row.account_id ?? undefined,
+            result: row.result ? JSON.parse(row.result) as TransactionResult : undefined,
+            outcome: row.outcome as LedgerOutcome,
+            failedStep: row.failed_step ?? undefined,
+            error: row.error ?? undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
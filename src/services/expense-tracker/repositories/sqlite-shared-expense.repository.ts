@@ -0,0 +1,152 @@
+import type { Database } from 'bun:sqlite';
+import type { ParticipantBalance, SharedExpense, SharedExpenseKind, SharedExpenseStore } from './shared-expense.interface';
+import { SharedExpenseStoreError } from './shared-expense.interface';
+
+/**
+ * Row shape of the shared_expenses table
+ */
+interface SharedExpenseRow {
+    id: string;
+    participant: string;
+    participant_key: string;
+    amount_cents: number;
+    currency: string;
+    description: string;
+    account_id: string;
+    transaction_id: string | null;
+    kind: SharedExpenseKind;
+    created_at: string;
+}
+
+/**
+ * Row shape of the balance query
+ */
+interface BalanceRow {
+    participant: string;
+    currency: string;
+    amount_cents: number;
+    account_id: string;
+    last_activity_at: string;
+}
+
+/**
+ * Normalize a name for matching ("  Ali " and "ali" are the same person)
+ */
+function participantKey(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+/**
+ * SQLite Shared Expense Store
+ *
+ * Stores amounts in integer cents so balances add up exactly.
+ */
+export class SqliteSharedExpenseStore implements SharedExpenseStore {
+    constructor(private readonly db: Database) {
+        this.migrate();
+    }
+
+    /**
+     * Create tables and indexes if they don't exist
+     */
+    private migrate(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS shared_expenses (
+                id TEXT PRIMARY KEY,
+                participant TEXT NOT NULL,
+                participant_key TEXT NOT NULL,
+                amount_cents INTEGER NOT NULL,
+                currency TEXT NOT NULL,
+                description TEXT NOT NULL,
+                account_id TEXT NOT NULL,
+                transaction_id TEXT,
+                kind TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_shared_expenses_participant_key ON shared_expenses (participant_key);
+        `);
+    }
+
+    record(entry: Omit<SharedExpense, 'id' | 'createdAt'>): SharedExpense {
+        const participant = entry.participant.trim();
+        if (!participant) {
+            throw new SharedExpenseStoreError('Participant name is required');
+        }
+
+        const stored: SharedExpense = {
+            ...entry,
+            id: crypto.randomUUID(),
+            participant,
+            currency: entry.currency.toUpperCase(),
+            createdAt: new Date(),
+        };
+
+        this.db.query(`
+            INSERT INTO shared_expenses (
+                id, participant, participant_key, amount_cents, currency,
+                description, account_id, transaction_id, kind, created_at
+            ) VALUES (
+                $id, $participant, $participantKey, $amountCents, $currency,
+                $description, $accountId, $transactionId, $kind, $createdAt
+            )
+        `).run({
+            id: stored.id,
+            participant,
+            participantKey: participantKey(participant),
+            amountCents: Math.round(stored.amount * 100),
+            currency: stored.currency,
+            description: stored.description,
+            accountId: stored.accountId,
+            transactionId: stored.transactionId ?? null,
+            kind: stored.kind,
+            createdAt: stored.createdAt.toISOString(),
+        });
+
+        return stored;
+    }
+
+    balances(): ParticipantBalance[] {
+        // SQLite takes bare columns (participant, account_id, created_at) from the row that has
+        // MAX(rowid) - the latest entry, even when several share a timestamp
+        const rows = this.db.query<BalanceRow, []>(`
+            SELECT
+                participant,
+                currency,
+                SUM(amount_cents) AS amount_cents,
+                account_id,
+                created_at AS last_activity_at,
+                MAX(rowid)
+            FROM shared_expenses
+            GROUP BY participant_key, currency
+            HAVING SUM(amount_cents) != 0
+            ORDER BY amount_cents DESC, participant_key ASC
+        `).all();
+
+        return rows.map((row) => ({
+            participant: row.participant,
+            currency: row.currency,
+            amount: row.amount_cents / 100,
+            accountId: row.account_id,
+            lastActivityAt: new Date(row.last_activity_at),
+        }));
+    }
+
+    list(participant: string): SharedExpense[] {
+        return this.db
+            .query<SharedExpenseRow, { participantKey: string }>(
+                'SELECT * FROM shared_expenses WHERE participant_key = $participantKey ORDER BY created_at ASC'
+            )
+            .all({ participantKey: participantKey(participant) })
+            .map((row) => ({
+                id: row.id,
+                participant: row.participant,
+                amount: row.amount_cents / 100,
+                currency: row.currency,
+                description: row.description,
+                accountId: row.account_id,
+                transactionId: row.transaction_id ?? undefined,
+                kind: row.kind,
+                createdAt: new Date(row.created_at),
+            }));
+    }
+}
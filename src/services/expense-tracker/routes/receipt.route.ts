@@ -0,0 +1,56 @@
+import { Hono } from 'hono';
+import type { ReceiptArchiveService } from '../services/receipt-archive.service';
+import { signedLinkMiddleware } from '@/shared/middleware/webhook-auth.middleware';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Create receipt archive routes
+ *
+ * Screenshots of banking apps must never be public, so without a secret to
+ * sign links with the route isn't served at all.
+ *
+ * @param receipts - Archive of the original screenshots
+ * @param security - Secret links are signed with, and the tolerance for header-signed requests
+ * @returns Hono app with receipt routes
+ */
+export function createReceiptRoutes(
+    receipts: ReceiptArchiveService,
+    security: { secret: string | undefined; toleranceSeconds: number }
+) {
+    const app = new Hono();
+
+    if (!security.secret) {
+        logger.warn({
+            event: 'receipt.route.disabled',
+        }, 'WEBHOOK_SECRET not set - GET /receipts/:id is disabled');
+        return app;
+    }
+
+    const verifyLink = signedLinkMiddleware(security.secret, {
+        toleranceSeconds: security.toleranceSeconds,
+    });
+
+    /**
+     * GET /receipts/:id
+     *
+     * Original screenshot a transaction was extracted from
+     * (linked from the transaction notes and recorded in the ledger)
+     */
+    app.get('/receipts/:id', verifyLink, (c) => {
+        const receipt = receipts.get(c.req.param('id'));
+        if (!receipt) {
+            return c.json({
+                success: false,
+                error: 'Receipt not found',
+            }, 404);
+        }
+
+        // Content-addressed, so a receipt never changes
+        return c.body(receipt.data, 200, {
+            'Content-Type': receipt.mimeType,
+            'Cache-Control': 'private, max-age=31536000, immutable',
+        });
+    });
+
+    return app;
+}
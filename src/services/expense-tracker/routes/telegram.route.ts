@@ -4,23 +4,46 @@ import type { TelegramUpdate } from '../adapters/telegram/telegram.interface';
 import { logger } from '@/shared/utils/logger';
 import { getWideEvent } from '@/shared/middleware/wide-event.middleware';
 import { config } from '@/shared/config/config';
+import {
+    telegramSecretTokenMiddleware,
+    webhookSignatureMiddleware,
+} from '@/shared/middleware/webhook-auth.middleware';
+
+/**
+ * Chat an update was sent from, for messages and button presses alike
+ */
+function chatIdOf(update: TelegramUpdate): number | undefined {
+    return update.message?.chat.id ?? update.callback_query?.message?.chat.id;
+}
 
 /**
  * Create Telegram webhook routes
  * 
+ * Anyone can message the bot, so only updates from the expense chat are
+ * handled - without one configured, no update is.
+ * 
  * @param conversationService - Telegram conversation service instance
+ * @param expenseChatId - The only chat allowed to add transactions
  * @returns Hono app with Telegram routes
  */
-export function createTelegramRoutes(conversationService: TelegramConversationService) {
+export function createTelegramRoutes(conversationService: TelegramConversationService, expenseChatId: string) {
     const app = new Hono();
 
+    // Telegram updates carry the secret_token registered via setWebhook
+    const verifyTelegramToken = telegramSecretTokenMiddleware(config.security.telegramSecretToken);
+
+    // MacroDroid screenshots are HMAC-signed like the other webhooks
+    const verifySignature = webhookSignatureMiddleware(config.security.webhookSecret, {
+        toleranceSeconds: config.security.signatureToleranceSeconds,
+    });
+
     /**
      * POST /webhook/telegram
      * 
      * Telegram webhook for receiving updates (messages, callbacks, etc.)
      * This is the standard Telegram webhook endpoint
      */
-    app.post('/webhook/telegram', async (c) => {
+    app.post('/webhook/telegram', verifyTelegramToken, async (c) => {
         try {
             const wideEvent = getWideEvent(c);
 
@@ -42,11 +65,23 @@ export function createTelegramRoutes(conversationService: TelegramConversationSe
                 messageText: update.message?.text,
                 callbackData: update.callback_query?.data,
                 callbackId: update.callback_query?.id,
-                chatId: update.message?.chat.id || update.callback_query?.message?.chat.id,
+                chatId: chatIdOf(update),
                 updateKeys: Object.keys(update),
                 rawUpdate: JSON.stringify(update).substring(0, 300),
             }, 'Received Telegram webhook update');
 
+            // Answer with ok so Telegram doesn't redeliver updates we ignore
+            const chatId = chatIdOf(update);
+            if (chatId !== undefined && String(chatId) !== expenseChatId) {
+                logger.warn({
+                    event: 'telegram.webhook.unauthorized_chat',
+                    updateId: update.update_id,
+                    chatId,
+                }, 'Ignoring Telegram update from a chat other than the expense chat');
+
+                return c.json({ ok: true });
+            }
+
             // Handle callback query (button press) - MUST BE FIRST
             if (update.callback_query) {
                 const { id, message, data } = update.callback_query;
@@ -66,7 +101,8 @@ export function createTelegramRoutes(conversationService: TelegramConversationSe
                         await conversationService.handleCallback(
                             message.chat.id,
                             id,
-                            data
+                            data,
+                            message.message_id
                         );
 
                         logger.info({ event: 'telegram.callback.success', callbackId: id }, 'Callback handled');
@@ -104,24 +140,36 @@ export function createTelegramRoutes(conversationService: TelegramConversationSe
 
             // Handle message
             if (update.message) {
-                const { chat, photo, text } = update.message;
+                const { chat, photo, document, caption, text } = update.message;
 
-                // Handle photo (screenshot)
+                // Handle photo (screenshot) - Telegram sends several sizes, use the largest
                 if (photo && photo.length > 0) {
-                    // Note: For native Telegram photo uploads, we would need to:
-                    // 1. Get file_id from photo array
-                    // 2. Call getFile API to get file_path
-                    // 3. Download file from Telegram servers
-                    // 4. Convert to base64
-                    // 
-                    // For now, we'll rely on the custom /webhook/telegram/screenshot endpoint
-                    // where MacroDroid sends base64 directly
-
-                    await conversationService.telegram.sendMessage(
-                        chat.id,
-                        '⚠️ Please use MacroDroid to send screenshots.\n\nDirect photo uploads are not yet supported.'
+                    const largest = photo.reduce((best, size) =>
+                        size.width * size.height > best.width * best.height ? size : best
                     );
 
+                    await conversationService.handlePhotoUpload(chat.id, largest.file_id, {
+                        caption,
+                        fileSize: largest.file_size,
+                    });
+
+                    return c.json({ ok: true });
+                }
+
+                // Handle image sent as a file (uncompressed)
+                if (document) {
+                    if (document.mime_type?.startsWith('image/')) {
+                        await conversationService.handlePhotoUpload(chat.id, document.file_id, {
+                            caption,
+                            fileSize: document.file_size,
+                        });
+                    } else {
+                        await conversationService.telegram.sendMessage(
+                            chat.id,
+                            '⚠️ Only images are supported.\n\nPlease send a screenshot of your transaction.'
+                        );
+                    }
+
                     return c.json({ ok: true });
                 }
 
@@ -135,14 +183,24 @@ export function createTelegramRoutes(conversationService: TelegramConversationSe
                             'Send me a screenshot of your transaction and I\'ll help you track it.\n\n' +
                             '*How to use:*\n' +
                             '1. Take a screenshot of your transaction notification\n' +
-                            '2. Send it to me via MacroDroid\n' +
+                            '2. Send it to me here (or via MacroDroid)\n' +
                             '3. I\'ll extract the details and ask you to confirm\n' +
                             '4. Done! Transaction saved to Lunch Money\n\n' +
-                            '💡 *Tip:* Make sure MacroDroid is configured to send screenshots to this bot.',
+                            '*No screenshot?* Just type it:\n' +
+                            '`12.50 kopi tiam`\n' +
+                            '`/add 25 grab to office #transport`\n\n' +
+                            '*Shared bills:* split with `@name` (e.g. `2 @Ali`), then\n' +
+                            '`/owed` - who owes you what\n' +
+                            '`/settle Ali 20` - record a repayment\n\n' +
+                            '💡 *Tip:* Add a caption to the photo to include it as a remark.',
                             { parse_mode: 'Markdown' }
                         );
+                    } else if (/^\/owed(@\w+)?$/i.test(text.trim())) {
+                        await conversationService.handleOwedCommand(chat.id);
+                    } else if (/^\/settle(@\w+)?(\s|$)/i.test(text.trim())) {
+                        await conversationService.handleSettleCommand(chat.id, text);
                     } else {
-                        // Handle text input for editing
+                        // Handle text input for editing or quick-add expenses
                         await conversationService.handleTextMessage(chat.id, text);
                     }
 
@@ -168,7 +226,7 @@ export function createTelegramRoutes(conversationService: TelegramConversationSe
      * Custom endpoint for MacroDroid to send screenshots directly
      * This bypasses Telegram's file API and sends base64 directly
      */
-    app.post('/webhook/telegram/screenshot', async (c) => {
+    app.post('/webhook/telegram/screenshot', verifySignature, async (c) => {
         try {
             const body = await c.req.json();
 
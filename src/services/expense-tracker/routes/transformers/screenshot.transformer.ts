@@ -1,4 +1,5 @@
 import type { ScreenshotPayloadInput, ScreenshotPayloadOutput } from './types';
+import type { UserInput } from '@/shared/types/common.types';
 
 /**
  * Transform screenshot payload from MacroDroid format to standard format
@@ -61,11 +62,14 @@ export function transformScreenshotPayload(input: ScreenshotPayloadInput): Scree
         result.metadata = input.metadata;
 
         // Extract user_input from metadata if provided
-        if (input.metadata.user_input) {
+        // Raw values - coerced by the screenshot payload schema
+        const userInput = input.metadata.user_input as UserInput | undefined;
+        if (userInput) {
             result.user_input = {
-                payee: input.metadata.user_input.payee,
-                split: input.metadata.user_input.split ?? false,
-                remarks: input.metadata.user_input.remarks,
+                payee: userInput.payee,
+                split: userInput.split ?? false,
+                participants: userInput.participants,
+                remarks: userInput.remarks,
             };
         }
     }
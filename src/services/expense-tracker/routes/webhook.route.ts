@@ -1,30 +1,37 @@
 import { Hono } from 'hono';
-import type { TransactionProcessor } from '../transaction-processor.service';
+import type { JobQueue } from '@/shared/queue/job-queue.interface';
+import { TRANSACTION_JOB_TYPES } from '../jobs/transaction.jobs';
 import { validateWebhookPayload, validateScreenshotWebhookPayload } from '@/shared/utils/validators';
-import { logger } from '@/shared/utils/logger';
 import { ZodError } from 'zod';
 import { transformNotificationPayload, transformScreenshotPayload } from './transformers';
 import { tracer } from '@/shared/utils/tracing';
 import { addSpanAttributes, setSpanStatus } from '@/shared/utils/tracing-utils';
 import { trace, context } from '@opentelemetry/api';
 import { getWideEvent } from '@/shared/middleware/wide-event.middleware';
+import { webhookSignatureMiddleware } from '@/shared/middleware/webhook-auth.middleware';
+import { config } from '@/shared/config/config';
 
 /**
  * Create webhook routes
  * 
- * @param processor - Transaction processor instance
+ * @param queue - Job queue that processes transactions in the background
  * @returns Hono app with webhook routes
  */
-export function createWebhookRoutes(processor: TransactionProcessor) {
+export function createWebhookRoutes(queue: JobQueue) {
     const app = new Hono();
 
+    // Verify HMAC signature (no-op when WEBHOOK_SECRET is not configured)
+    const verifySignature = webhookSignatureMiddleware(config.security.webhookSecret, {
+        toleranceSeconds: config.security.signatureToleranceSeconds,
+    });
+
     /**
      * POST /webhook/notification
      * 
      * Process banking notification from MacroDroid
      * Accepts both MacroDroid format (app, title, text) and standard format
      */
-    app.post('/webhook/notification', async (c) => {
+    app.post('/webhook/notification', verifySignature, async (c) => {
         // Start root span for webhook request
         const span = tracer.startSpan('webhook.notification.received');
 
@@ -70,15 +77,13 @@ export function createWebhookRoutes(processor: TransactionProcessor) {
                     'webhook.timestamp': payload.timestamp,
                 });
 
-                // Process transaction asynchronously (fire-and-forget)
-                // We respond immediately to MacroDroid, processing happens in background
-                processor.processTransaction(payload, wideEvent).catch((error) => {
-                    logger.error({
-                        event: 'transaction.processing.error',
-                        error,
-                        payload,
-                    }, 'Failed to process transaction');
+                // Queue transaction for background processing
+                // We respond immediately to MacroDroid; the queue persists and retries the job
+                const jobId = queue.enqueue(TRANSACTION_JOB_TYPES.notification, {
+                    requestId: wideEvent?.request_id ?? crypto.randomUUID(),
+                    payload,
                 });
+                span.setAttribute('job.id', jobId);
 
                 // Mark span as successful
                 setSpanStatus(span, true);
@@ -88,6 +93,7 @@ export function createWebhookRoutes(processor: TransactionProcessor) {
                 return c.json({
                     success: true,
                     message: 'Notification webhook received, processing transaction',
+                    jobId,
                 });
             } catch (error) {
                 // Get wide event for error enrichment
@@ -148,7 +154,7 @@ export function createWebhookRoutes(processor: TransactionProcessor) {
      * Process screenshot from MacroDroid
      * Accepts base64-encoded images with metadata (app package name, location, etc.)
      */
-    app.post('/webhook/screenshot', async (c) => {
+    app.post('/webhook/screenshot', verifySignature, async (c) => {
         // Start root span for webhook request
         const span = tracer.startSpan('webhook.screenshot.received');
 
@@ -196,15 +202,13 @@ export function createWebhookRoutes(processor: TransactionProcessor) {
                     'webhook.has_metadata': !!payload.metadata,
                 });
 
-                // Process transaction asynchronously (fire-and-forget)
-                // We respond immediately to MacroDroid, processing happens in background
-                processor.processScreenshotTransaction(payload, wideEvent).catch((error: Error) => {
-                    logger.error({
-                        event: 'transaction.processing.error',
-                        error,
-                        appPackageName: payload.app_package_name,
-                    }, 'Failed to process screenshot transaction');
+                // Queue transaction for background processing
+                // We respond immediately to MacroDroid; the queue persists and retries the job
+                const jobId = queue.enqueue(TRANSACTION_JOB_TYPES.screenshot, {
+                    requestId: wideEvent?.request_id ?? crypto.randomUUID(),
+                    payload,
                 });
+                span.setAttribute('job.id', jobId);
 
                 // Mark span as successful
                 setSpanStatus(span, true);
@@ -214,6 +218,7 @@ export function createWebhookRoutes(processor: TransactionProcessor) {
                 return c.json({
                     success: true,
                     message: 'Screenshot webhook received, processing transaction',
+                    jobId,
                 });
             } catch (error) {
                 // Get wide event for error enrichment
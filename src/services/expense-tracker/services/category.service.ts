@@ -0,0 +1,188 @@
+import type { BudgetAdapter, BudgetCategory } from '../adapters/budget/budget.interface';
+import { merchantSimilarity } from './duplicate-detection.service';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Groups of interchangeable category names
+ *
+ * The AI returns generic categories ("food", "transport"); budgets use their
+ * own names ("Dining Out", "Transportation"). A category in the same group
+ * as the AI's answer is treated as a match.
+ */
+export const DEFAULT_CATEGORY_ALIASES: string[][] = [
+    ['food', 'food and drink', 'dining', 'dining out', 'restaurants', 'eating out', 'meals', 'coffee'],
+    ['groceries', 'grocery', 'supermarket'],
+    ['transport', 'transportation', 'taxi', 'rideshare', 'e-hailing', 'fuel', 'petrol', 'parking', 'tolls'],
+    ['travel', 'flights', 'hotels', 'vacation'],
+    ['shopping', 'retail', 'clothing', 'online shopping'],
+    ['bills', 'utilities', 'bills and utilities', 'telco', 'internet', 'phone'],
+    ['entertainment', 'leisure', 'movies', 'streaming', 'subscriptions'],
+    ['health', 'healthcare', 'medical', 'pharmacy', 'fitness'],
+    ['income', 'salary', 'paycheck', 'wages'],
+    ['transfer', 'transfers', 'payment transfer'],
+];
+
+/**
+ * Category service options
+ */
+export interface CategoryServiceOptions {
+    /** How long the category list is cached */
+    cacheTtlMinutes: number;
+    /** Category name similarity (0-1) accepted as a match */
+    similarityThreshold?: number;
+    /** Groups of interchangeable category names */
+    aliases?: string[][];
+    /** Clock override (for tests) */
+    now?: () => number;
+}
+
+/**
+ * Normalize a category name for comparison ("Food & Drink" -> "food and drink")
+ */
+function normalizeCategory(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9-]+/g, ' ')
+        .trim()
+        .replace(/\s+/g, ' ');
+}
+
+/**
+ * Category Service
+ *
+ * Caches the budget platform's categories and maps free-text categories
+ * (from the AI or typed by the user) to real category IDs.
+ */
+export class CategoryService {
+    private cache: { categories: BudgetCategory[]; fetchedAt: number } | undefined;
+    private inflight: Promise<BudgetCategory[]> | undefined;
+    private readonly now: () => number;
+
+    constructor(
+        private readonly budgetAdapter: BudgetAdapter,
+        private readonly options: CategoryServiceOptions
+    ) {
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * Get categories, from cache while it is fresh
+     *
+     * If refreshing fails, the stale list is returned rather than nothing.
+     *
+     * @throws {BudgetAPIError} If categories were never fetched and the API call fails
+     */
+    async getCategories(): Promise<BudgetCategory[]> {
+        const ttlMs = this.options.cacheTtlMinutes * 60 * 1000;
+        if (this.cache && this.now() - this.cache.fetchedAt < ttlMs) {
+            return this.cache.categories;
+        }
+
+        // Concurrent callers share one request
+        this.inflight ??= this.refresh().finally(() => {
+            this.inflight = undefined;
+        });
+
+        return this.inflight;
+    }
+
+    /**
+     * Find a category by ID
+     */
+    async getById(id: string): Promise<BudgetCategory | undefined> {
+        const categories = await this.getCategories();
+        return categories.find((category) => category.id === id);
+    }
+
+    /**
+     * Map a free-text category to a budget category
+     *
+     * Tries an exact name match, then the alias groups, then name similarity.
+     * Never throws - an unresolved category is left for the budget platform.
+     *
+     * @returns Matching category, or undefined if nothing is close enough
+     */
+    async resolve(name: string | undefined): Promise<BudgetCategory | undefined> {
+        if (!name?.trim()) {
+            return undefined;
+        }
+
+        let categories: BudgetCategory[];
+        try {
+            categories = await this.getCategories();
+        } catch (error) {
+            logger.warn({
+                event: 'category.resolve.unavailable',
+                category: name,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Categories unavailable, leaving category unresolved');
+            return undefined;
+        }
+
+        const wanted = normalizeCategory(name);
+        const byName = new Map(categories.map((category) => [normalizeCategory(category.name), category]));
+
+        const exact = byName.get(wanted);
+        if (exact) {
+            return exact;
+        }
+
+        const aliases = (this.options.aliases ?? DEFAULT_CATEGORY_ALIASES)
+            .map((group) => group.map(normalizeCategory))
+            .find((group) => group.includes(wanted));
+        for (const alias of aliases ?? []) {
+            const match = byName.get(alias);
+            if (match) {
+                return match;
+            }
+        }
+
+        const threshold = this.options.similarityThreshold ?? 0.6;
+        let best: { category: BudgetCategory; score: number } | undefined;
+        for (const [normalized, category] of byName) {
+            const score = Math.max(
+                merchantSimilarity(wanted, normalized),
+                ...(aliases ?? []).map((alias) => merchantSimilarity(alias, normalized))
+            );
+            if (score >= threshold && (!best || score > best.score)) {
+                best = { category, score };
+            }
+        }
+
+        return best?.category;
+    }
+
+    /**
+     * Drop the cached categories (e.g. after categories were changed in the budget platform)
+     */
+    invalidate(): void {
+        this.cache = undefined;
+    }
+
+    /**
+     * Fetch categories from the budget platform
+     */
+    private async refresh(): Promise<BudgetCategory[]> {
+        try {
+            const categories = await this.budgetAdapter.listCategories();
+            this.cache = { categories, fetchedAt: this.now() };
+
+            logger.debug({
+                event: 'category.cache.refreshed',
+                count: categories.length,
+            }, 'Refreshed budget categories');
+
+            return categories;
+        } catch (error) {
+            if (this.cache) {
+                logger.warn({
+                    event: 'category.cache.stale',
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                }, 'Failed to refresh categories, using cached list');
+                return this.cache.categories;
+            }
+            throw error;
+        }
+    }
+}
@@ -1,10 +1,14 @@
-import type { ExtractedTransaction } from '@/shared/types/common.types';
+import type { ExtractedTransaction, SplitRule } from '@/shared/types/common.types';
+import type { ConversationStore } from '../repositories/conversation-store.interface';
+import { InMemoryConversationStore } from '../repositories/in-memory-conversation.repository';
+import { logger } from '@/shared/utils/logger';
 
 /**
  * Conversation state types
  */
 export type ConversationState =
     | 'awaiting_account_selection'
+    | 'awaiting_batch_review'
     | 'awaiting_confirmation'
     | 'awaiting_amount_correction'
     | 'awaiting_merchant_correction'
@@ -22,12 +26,26 @@ export interface PendingTransaction {
     messageId: number;
     /** Current conversation state */
     state: ConversationState;
-    /** Extracted transaction data */
+    /** Extracted transaction data (the first one of a batch) */
     transactionData: ExtractedTransaction;
+    /** All transactions found in one screenshot, while they're reviewed as a batch */
+    batch?: ExtractedTransaction[] | undefined;
     /** Selected account ID (once user chooses) */
     accountId?: string;
-    /** Original screenshot base64 (for reference) */
-    screenshotBase64?: string;
+    /** Budget category ID (once picked or resolved from the category text) */
+    categoryId?: string | undefined;
+    /** How to split the transaction once it's created */
+    split?: SplitRule | undefined;
+    /** What was first suggested, to learn from the user's changes on confirm */
+    suggestion?: {
+        /** Merchant as extracted (what a correction is remembered for) */
+        extractedMerchant?: string | undefined;
+        merchant?: string | undefined;
+        category?: string | undefined;
+        accountId?: string | undefined;
+    } | undefined;
+    /** Archived original screenshot (linked from the transaction notes) */
+    receiptId?: string | undefined;
     /** GPS coordinates */
     location?: { latitude: number; longitude: number };
     /** Timestamp */
@@ -39,73 +57,172 @@ export interface PendingTransaction {
 }
 
 /**
- * In-memory conversation state manager
+ * Separator between the action and the message key in callback data
+ */
+const CALLBACK_KEY_SEPARATOR = '|';
+
+/**
+ * Append the pending transaction key (bot message ID) to callback data
+ * 
+ * e.g. `confirm` -> `confirm|812`, `account:246029` -> `account:246029|812`
+ */
+export function encodeCallbackData(action: string, messageId: number): string {
+    return `${action}${CALLBACK_KEY_SEPARATOR}${messageId}`;
+}
+
+/**
+ * Split callback data into the action and the pending transaction key
  * 
- * Manages ongoing conversations and pending transactions.
- * For production with multiple instances, replace with Redis.
+ * Buttons sent before keys were added have no key (`messageId` is undefined).
+ */
+export function parseCallbackData(data: string): { action: string; messageId?: number } {
+    const separatorIndex = data.lastIndexOf(CALLBACK_KEY_SEPARATOR);
+    if (separatorIndex === -1) {
+        return { action: data };
+    }
+
+    const messageId = Number(data.slice(separatorIndex + 1));
+    if (!Number.isInteger(messageId)) {
+        return { action: data };
+    }
+
+    return { action: data.slice(0, separatorIndex), messageId };
+}
+
+/**
+ * Conversation state manager
+ * 
+ * Manages ongoing conversations and pending transactions. Each pending
+ * transaction is keyed by chat and bot message ID, so a chat can have several
+ * confirmations open at once. State lives in a ConversationStore (in-memory
+ * or SQLite) so it can survive restarts; conversations older than the TTL are
+ * treated as expired.
  */
 export class ConversationStateService {
-    private conversations = new Map<number, PendingTransaction>();
+    private readonly ttlMs: number;
+
+    constructor(
+        private readonly store: ConversationStore = new InMemoryConversationStore(),
+        options?: { ttlMinutes?: number }
+    ) {
+        this.ttlMs = (options?.ttlMinutes ?? 60) * 60 * 1000;
+    }
 
     /**
-     * Create or update a pending transaction
+     * Create or update a pending transaction (keyed by its chat and message ID)
      */
-    set(chatId: number, transaction: PendingTransaction): void {
-        this.conversations.set(chatId, transaction);
+    set(transaction: PendingTransaction): void {
+        this.store.set(this.key(transaction.chatId, transaction.messageId), transaction);
     }
 
     /**
-     * Get pending transaction for a chat
+     * Get the pending transaction behind a bot message (expired conversations are removed)
      */
-    get(chatId: number): PendingTransaction | undefined {
-        return this.conversations.get(chatId);
+    get(chatId: number, messageId: number): PendingTransaction | undefined {
+        const key = this.key(chatId, messageId);
+        const transaction = this.store.get(key);
+
+        if (transaction && this.isExpired(transaction)) {
+            this.store.delete(key);
+            return undefined;
+        }
+
+        return transaction;
     }
 
     /**
      * Delete pending transaction
      */
-    delete(chatId: number): void {
-        this.conversations.delete(chatId);
+    delete(chatId: number, messageId: number): void {
+        this.store.delete(this.key(chatId, messageId));
+    }
+
+    /**
+     * Check if a bot message has a pending transaction
+     */
+    has(chatId: number, messageId: number): boolean {
+        return this.get(chatId, messageId) !== undefined;
+    }
+
+    /**
+     * Get all active pending transactions in a chat, oldest first
+     */
+    getForChat(chatId: number): PendingTransaction[] {
+        return this.store.list(chatId).filter((transaction) => !this.isExpired(transaction));
     }
 
     /**
-     * Check if chat has pending transaction
+     * Get the pending transaction in a chat that is waiting for a text reply
+     * (a field edit), if any
      */
-    has(chatId: number): boolean {
-        return this.conversations.has(chatId);
+    getEditing(chatId: number): PendingTransaction | undefined {
+        return this.getForChat(chatId).find((transaction) => (transaction.state as string).startsWith('editing_'));
     }
 
     /**
      * Get all active conversations
      */
     getAll(): PendingTransaction[] {
-        return Array.from(this.conversations.values());
+        return this.store.list().filter((transaction) => !this.isExpired(transaction));
     }
 
     /**
-     * Clean up old conversations (>1 hour)
+     * Clean up conversations older than the TTL
      * Should be called periodically
+     * 
+     * @returns Number of conversations removed
      */
-    cleanup(): void {
-        const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-        let cleanedCount = 0;
-
-        for (const [chatId, transaction] of this.conversations.entries()) {
-            if (transaction.createdAt < oneHourAgo) {
-                this.conversations.delete(chatId);
-                cleanedCount++;
-            }
-        }
+    cleanup(): number {
+        const cleanedCount = this.store.deleteOlderThan(new Date(Date.now() - this.ttlMs));
 
         if (cleanedCount > 0) {
-            console.log(`Cleaned up ${cleanedCount} old conversation(s)`);
+            logger.debug({
+                event: 'telegram.conversation.expired',
+                count: cleanedCount,
+            }, `Cleaned up ${cleanedCount} old conversation(s)`);
         }
+
+        return cleanedCount;
+    }
+
+    /**
+     * Rehydrate conversations persisted before a restart
+     * 
+     * Drops the ones that expired while the service was down.
+     * 
+     * @returns Number of conversations restored
+     */
+    restore(): number {
+        const expired = this.cleanup();
+        const restored = this.store.count();
+
+        logger.info({
+            event: 'telegram.conversation.restored',
+            restored,
+            expired,
+        }, `Restored ${restored} pending conversation(s)`);
+
+        return restored;
     }
 
     /**
      * Get conversation count (for monitoring)
      */
     getCount(): number {
-        return this.conversations.size;
+        return this.store.count();
+    }
+
+    /**
+     * Store key for a pending transaction
+     */
+    private key(chatId: number, messageId: number): string {
+        return `${chatId}:${messageId}`;
+    }
+
+    /**
+     * Check whether a conversation is older than the TTL
+     */
+    private isExpired(transaction: PendingTransaction): boolean {
+        return Date.now() - transaction.createdAt.getTime() > this.ttlMs;
     }
 }
@@ -0,0 +1,183 @@
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+import type { CorrectionHint } from '../adapters/ai/ai.interface';
+import type { CorrectionStore, MerchantCorrection } from '../repositories/correction-store.interface';
+import { merchantSimilarity } from './duplicate-detection.service';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Correction learning options
+ */
+export interface CorrectionOptions {
+    /** Merchant similarity (0-1) at which a correction is reused for a merchant that isn't an exact match */
+    merchantSimilarityThreshold: number;
+    /** How many corrections are given to the AI as examples */
+    hintLimit: number;
+}
+
+/**
+ * What was suggested and what the user confirmed, for the fields that can be learned
+ */
+export interface CorrectionFields {
+    merchant?: string | undefined;
+    category?: string | undefined;
+    categoryId?: string | undefined;
+    accountId?: string | undefined;
+}
+
+/**
+ * A learned correction applied to an extraction
+ */
+export interface AppliedCorrection {
+    /** Extraction with the learned payee and category */
+    extracted: ExtractedTransaction;
+    /** Learned account (use it when the account can't be detected otherwise) */
+    accountId?: string | undefined;
+    /** The correction that was applied */
+    correction: MerchantCorrection;
+    /** Merchant similarity to the corrected merchant (1 for the same merchant) */
+    similarity: number;
+}
+
+/**
+ * Correction Service
+ *
+ * Learns from the merchant, category and account changes users make in
+ * Telegram before confirming a transaction. The next time the same or a
+ * similar merchant is extracted, the correction is applied automatically,
+ * and recent corrections are given to the AI as examples so it stops
+ * repeating the mistake. Storage failures are logged and never block a
+ * transaction.
+ */
+export class CorrectionService {
+    constructor(
+        private readonly store: CorrectionStore,
+        private readonly options: CorrectionOptions
+    ) { }
+
+    /**
+     * Remember what the user changed
+     *
+     * @param merchant - Merchant as extracted by the AI
+     * @param suggested - What was shown to the user
+     * @param confirmed - What the user confirmed
+     * @returns The stored correction, or undefined if nothing was changed
+     */
+    learn(merchant: string, suggested: CorrectionFields, confirmed: CorrectionFields): MerchantCorrection | undefined {
+        const changed = (field: keyof CorrectionFields) =>
+            confirmed[field] !== undefined && confirmed[field] !== suggested[field] ? confirmed[field] : undefined;
+
+        const payee = changed('merchant');
+        const category = changed('category');
+        const accountId = changed('accountId');
+        if (payee === undefined && category === undefined && accountId === undefined) {
+            return undefined;
+        }
+
+        try {
+            const correction = this.store.save({
+                merchant,
+                payee,
+                category,
+                categoryId: category !== undefined ? confirmed.categoryId : undefined,
+                accountId,
+            });
+
+            logger.info({
+                event: 'correction.learned',
+                merchant,
+                payee,
+                category,
+                accountId,
+                timesCorrected: correction.timesCorrected,
+            }, `Learned correction for ${merchant}`);
+
+            return correction;
+        } catch (error) {
+            logger.error({
+                event: 'correction.learn.failed',
+                merchant,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to store correction');
+            return undefined;
+        }
+    }
+
+    /**
+     * Apply the correction learned for the same or the most similar merchant
+     *
+     * @returns The applied correction, or undefined if none matches
+     */
+    apply(extracted: ExtractedTransaction): AppliedCorrection | undefined {
+        if (!extracted.merchant) {
+            return undefined;
+        }
+
+        const match = this.findCorrection(extracted.merchant);
+        if (!match) {
+            return undefined;
+        }
+
+        const { correction, similarity } = match;
+        return {
+            extracted: {
+                ...extracted,
+                merchant: correction.payee ?? extracted.merchant,
+                category: correction.category ?? extracted.category,
+            },
+            accountId: correction.accountId,
+            correction,
+            similarity,
+        };
+    }
+
+    /**
+     * Recent corrections of payee or category, as examples for the AI
+     */
+    hints(): CorrectionHint[] {
+        try {
+            return this.store
+                .list()
+                .filter((correction) => correction.payee !== undefined || correction.category !== undefined)
+                .slice(0, this.options.hintLimit)
+                .map((correction) => ({
+                    merchant: correction.merchant,
+                    payee: correction.payee,
+                    category: correction.category,
+                }));
+        } catch (error) {
+            logger.error({
+                event: 'correction.hints.failed',
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to load corrections for AI hints');
+            return [];
+        }
+    }
+
+    /**
+     * Find the correction for a merchant: same normalized name first, then the most similar one
+     */
+    private findCorrection(merchant: string): { correction: MerchantCorrection; similarity: number } | undefined {
+        try {
+            const exact = this.store.find(merchant);
+            if (exact) {
+                return { correction: exact, similarity: 1 };
+            }
+
+            let best: { correction: MerchantCorrection; similarity: number } | undefined;
+            for (const correction of this.store.list()) {
+                const similarity = merchantSimilarity(merchant, correction.merchant);
+                if (similarity >= this.options.merchantSimilarityThreshold && similarity > (best?.similarity ?? 0)) {
+                    best = { correction, similarity };
+                }
+            }
+            return best;
+        } catch (error) {
+            logger.error({
+                event: 'correction.lookup.failed',
+                merchant,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to look up corrections, continuing without them');
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+import type { LedgerEntry, TransactionLedger } from '../repositories/ledger.interface';
+
+/**
+ * Duplicate match strength
+ * - duplicate: same purchase (matching reference, or matching amount and merchant) - skip it
+ * - possible_duplicate: same amount in the time window but a different merchant - create and flag it
+ */
+export type DuplicateMatchType = 'duplicate' | 'possible_duplicate';
+
+/**
+ * A previously created transaction that matches a candidate
+ */
+export interface DuplicateMatch {
+    /** Match strength */
+    type: DuplicateMatchType;
+    /** Matching ledger entry */
+    entry: LedgerEntry;
+    /** Fingerprint fields that matched (amount, currency, reference, merchant) */
+    reasons: string[];
+    /** Merchant name similarity (0-1) */
+    merchantSimilarity: number;
+}
+
+/**
+ * Duplicate detection options
+ */
+export interface DuplicateDetectionOptions {
+    /** How far back to look for created transactions */
+    windowMinutes: number;
+    /** Merchant similarity (0-1) at which same-amount transactions are treated as the same purchase */
+    merchantSimilarityThreshold: number;
+    /** Clock override (for tests) */
+    now?: () => number;
+}
+
+/**
+ * Normalize a merchant name for comparison
+ */
+function normalizeMerchant(merchant: string): string {
+    return merchant
+        .toLowerCase()
+        .replace(/\b(sdn|bhd|berhad|plc|ltd|inc|co)\b/g, '')
+        .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Get character bigrams of a string
+ */
+function bigrams(value: string): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < value.length - 1; i++) {
+        result.push(value.slice(i, i + 2));
+    }
+    return result;
+}
+
+/**
+ * Merchant name similarity (0-1)
+ *
+ * Dice coefficient over character bigrams of the normalized names. A name
+ * contained in the other (e.g. "Starbucks" vs "STARBUCKS KLCC") scores 1,
+ * since banks and receipts often add branch or company suffixes.
+ */
+export function merchantSimilarity(a: string, b: string): number {
+    const left = normalizeMerchant(a);
+    const right = normalizeMerchant(b);
+
+    if (!left || !right) {
+        return 0;
+    }
+    if (left === right || left.includes(right) || right.includes(left)) {
+        return 1;
+    }
+
+    const leftBigrams = bigrams(left);
+    const rightBigrams = bigrams(right);
+    if (leftBigrams.length === 0 || rightBigrams.length === 0) {
+        return 0;
+    }
+
+    const remaining = new Map<string, number>();
+    for (const bigram of rightBigrams) {
+        remaining.set(bigram, (remaining.get(bigram) ?? 0) + 1);
+    }
+
+    let overlap = 0;
+    for (const bigram of leftBigrams) {
+        const count = remaining.get(bigram) ?? 0;
+        if (count > 0) {
+            overlap++;
+            remaining.set(bigram, count - 1);
+        }
+    }
+
+    return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+/**
+ * Duplicate Detection Service
+ *
+ * The same purchase often arrives through more than one channel (bank push
+ * notification, MacroDroid screenshot, Telegram). Before a transaction is
+ * created, its fingerprint - amount, currency, type, reference and merchant -
+ * is compared against transactions the ledger recorded as created within the
+ * time window.
+ */
+export class DuplicateDetectionService {
+    private readonly now: () => number;
+
+    constructor(
+        private readonly ledger: TransactionLedger,
+        private readonly options: DuplicateDetectionOptions
+    ) {
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * Find the strongest match for a candidate transaction
+     *
+     * @param requestId - Request the candidate belongs to; its own entries (e.g. the
+     *   other transactions of a batch) are not compared, as they are separate purchases
+     * @returns The match, or undefined if the transaction looks new
+     */
+    findDuplicate(candidate: ExtractedTransaction, requestId?: string): DuplicateMatch | undefined {
+        if (candidate.amount === undefined) {
+            return undefined;
+        }
+
+        const since = new Date(this.now() - this.options.windowMinutes * 60 * 1000);
+        const recent = this.ledger.list({ outcome: 'success', since, limit: 500 });
+
+        let best: DuplicateMatch | undefined;
+        for (const entry of recent) {
+            if (requestId !== undefined && entry.requestId === requestId) {
+                continue;
+            }
+            const match = this.compare(candidate, entry);
+            if (!match) {
+                continue;
+            }
+            if (match.type === 'duplicate') {
+                return match;
+            }
+            best ??= match;
+        }
+
+        return best;
+    }
+
+    /**
+     * Compare a candidate against a previously created transaction
+     */
+    private compare(candidate: ExtractedTransaction, entry: LedgerEntry): DuplicateMatch | undefined {
+        const existing = entry.extracted;
+        if (!existing || existing.amount === undefined || candidate.amount === undefined) {
+            return undefined;
+        }
+
+        if (Math.abs(existing.amount - candidate.amount) >= 0.005) {
+            return undefined;
+        }
+
+        const candidateCurrency = (candidate.currency ?? 'myr').toLowerCase();
+        const existingCurrency = (existing.currency ?? 'myr').toLowerCase();
+        if (candidateCurrency !== existingCurrency) {
+            return undefined;
+        }
+
+        if (candidate.type && existing.type && candidate.type !== existing.type) {
+            return undefined;
+        }
+
+        const similarity = candidate.merchant && existing.merchant
+            ? merchantSimilarity(candidate.merchant, existing.merchant)
+            : 0;
+
+        // Both sides carry a reference number - it decides on its own
+        if (candidate.reference && existing.reference) {
+            if (candidate.reference.trim().toLowerCase() !== existing.reference.trim().toLowerCase()) {
+                return undefined;
+            }
+            return {
+                type: 'duplicate',
+                entry,
+                reasons: ['amount', 'currency', 'reference'],
+                merchantSimilarity: similarity,
+            };
+        }
+
+        if (similarity >= this.options.merchantSimilarityThreshold) {
+            return {
+                type: 'duplicate',
+                entry,
+                reasons: ['amount', 'currency', 'merchant'],
+                merchantSimilarity: similarity,
+            };
+        }
+
+        return {
+            type: 'possible_duplicate',
+            entry,
+            reasons: ['amount', 'currency'],
+            merchantSimilarity: similarity,
+        };
+    }
+}
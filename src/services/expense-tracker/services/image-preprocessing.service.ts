@@ -0,0 +1,234 @@
+import sharp, { type Metadata, type Sharp } from 'sharp';
+
+/**
+ * Image formats the AI providers accept
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * How screenshots are prepared for the AI
+ */
+export interface ImagePreprocessingOptions {
+    /** Longest side in pixels; larger images are downscaled */
+    maxDimension: number;
+    /** Largest image sent to the AI; larger images are re-encoded as JPEG */
+    maxBytes: number;
+    /** Crop the status and navigation bars off phone screenshots */
+    cropSystemBars: boolean;
+}
+
+/**
+ * What was done to an image
+ */
+export interface ImagePreprocessingDetails {
+    format: ImageFormat;
+    originalBytes: number;
+    bytes: number;
+    originalWidth: number;
+    originalHeight: number;
+    width: number;
+    height: number;
+    cropped: boolean;
+    resized: boolean;
+}
+
+/**
+ * An image ready for the AI
+ */
+export interface PreprocessedImage {
+    /** Base64-encoded image */
+    base64: string;
+    mimeType: string;
+    details: ImagePreprocessingDetails;
+}
+
+/**
+ * Why an image can't be used
+ */
+export type ImagePreprocessingFailure = 'unsupported_format' | 'invalid_image' | 'too_large';
+
+/**
+ * Image Preprocessing Error
+ *
+ * The image is in an unsupported format, can't be decoded, or stays over
+ * the size cap. Retrying won't help.
+ */
+export class ImagePreprocessingError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: ImagePreprocessingFailure,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'ImagePreprocessingError';
+    }
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+/**
+ * ISO base media brands of HEIC/HEIF images (iPhone photos)
+ */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1']);
+
+/**
+ * Height/width ratio from which an image is taken for a full phone screenshot
+ * (camera photos of receipts are 4:3, screenshots 16:9 or taller)
+ */
+const SCREENSHOT_ASPECT_RATIO = 1.7;
+
+/**
+ * Share of a phone screenshot's height taken by the status bar (top) and
+ * the navigation bar (bottom)
+ */
+const STATUS_BAR_RATIO = 0.03;
+const NAVIGATION_BAR_RATIO = 0.05;
+
+/**
+ * JPEG qualities tried in turn while an image is over the size cap
+ */
+const JPEG_QUALITIES = [85, 70, 55];
+
+/**
+ * Detect an image format from its magic bytes
+ *
+ * @returns The format, `heic` for HEIC/HEIF images, or undefined if unknown
+ */
+export function detectImageFormat(data: Uint8Array): ImageFormat | 'heic' | undefined {
+    const ascii = (start: number, end: number) => String.fromCharCode(...data.subarray(start, end));
+
+    if (data[0] === 0x89 && ascii(1, 4) === 'PNG') {
+        return 'png';
+    }
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return 'jpeg';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return 'webp';
+    }
+    if (ascii(4, 8) === 'ftyp' && HEIF_BRANDS.has(ascii(8, 12))) {
+        return 'heic';
+    }
+    return undefined;
+}
+
+/**
+ * Prepare a screenshot for an AI vision call
+ *
+ * Detects the format from the magic bytes (rejecting HEIC and unknown
+ * formats), applies the EXIF orientation, crops the status and navigation
+ * bars off phone screenshots, downscales to `maxDimension` and re-encodes
+ * as JPEG while over `maxBytes`. An image that needs none of this is passed
+ * through untouched.
+ *
+ * @throws {ImagePreprocessingError} If the image can't be used
+ */
+export async function preprocessImage(imageBase64: string, options: ImagePreprocessingOptions): Promise<PreprocessedImage> {
+    const input = Buffer.from(imageBase64, 'base64');
+    const detected = detectImageFormat(input);
+
+    if (detected === 'heic') {
+        throw new ImagePreprocessingError('HEIC images are not supported - send the screenshot as PNG or JPEG', 'unsupported_format');
+    }
+    if (!detected) {
+        throw new ImagePreprocessingError('Unsupported image format - send a PNG, JPEG or WebP screenshot', 'unsupported_format');
+    }
+
+    let metadata: Metadata;
+    try {
+        metadata = await sharp(input).metadata();
+    } catch (error) {
+        throw new ImagePreprocessingError('Image could not be read', 'invalid_image', error instanceof Error ? error : undefined);
+    }
+
+    // EXIF orientations 5-8 are rotated by 90°
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const originalWidth = (rotated ? metadata.height : metadata.width) ?? 0;
+    const originalHeight = (rotated ? metadata.width : metadata.height) ?? 0;
+
+    const cropped = options.cropSystemBars && originalHeight / originalWidth >= SCREENSHOT_ASPECT_RATIO;
+    const top = cropped ? Math.round(originalHeight * STATUS_BAR_RATIO) : 0;
+    const croppedHeight = cropped ? originalHeight - top - Math.round(originalHeight * NAVIGATION_BAR_RATIO) : originalHeight;
+    const resized = Math.max(originalWidth, croppedHeight) > options.maxDimension;
+
+    const details = {
+        format: detected,
+        originalBytes: input.length,
+        originalWidth,
+        originalHeight,
+        cropped,
+        resized,
+    };
+
+    if (!cropped && !resized && (metadata.orientation ?? 1) === 1 && input.length <= options.maxBytes) {
+        return {
+            base64: imageBase64,
+            mimeType: MIME_TYPES[detected],
+            details: { ...details, bytes: input.length, width: originalWidth, height: originalHeight },
+        };
+    }
+
+    let image = sharp(input).rotate();
+    if (cropped) {
+        image = image.extract({ left: 0, top, width: originalWidth, height: croppedHeight });
+    }
+    if (resized) {
+        image = image.resize({ width: options.maxDimension, height: options.maxDimension, fit: 'inside' });
+    }
+
+    try {
+        let format: ImageFormat = detected;
+        let output = await encode(image, format);
+
+        for (const quality of JPEG_QUALITIES) {
+            if (output.data.length <= options.maxBytes) {
+                break;
+            }
+            format = 'jpeg';
+            output = await encode(image, format, quality);
+        }
+
+        if (output.data.length > options.maxBytes) {
+            throw new ImagePreprocessingError(
+                `Image is still ${Math.ceil(output.data.length / 1024)} KB after compression (max ${Math.floor(options.maxBytes / 1024)} KB)`,
+                'too_large'
+            );
+        }
+
+        return {
+            base64: output.data.toString('base64'),
+            mimeType: MIME_TYPES[format],
+            details: {
+                ...details,
+                format,
+                bytes: output.data.length,
+                width: output.info.width,
+                height: output.info.height,
+            },
+        };
+    } catch (error) {
+        if (error instanceof ImagePreprocessingError) {
+            throw error;
+        }
+        throw new ImagePreprocessingError('Image could not be read', 'invalid_image', error instanceof Error ? error : undefined);
+    }
+}
+
+/**
+ * Encode a (cloned) image pipeline
+ */
+function encode(image: Sharp, format: ImageFormat, quality = 85) {
+    const pipeline = image.clone();
+    switch (format) {
+        case 'png':
+            return pipeline.png().toBuffer({ resolveWithObject: true });
+        case 'jpeg':
+            return pipeline.jpeg({ quality }).toBuffer({ resolveWithObject: true });
+        case 'webp':
+            return pipeline.webp({ quality }).toBuffer({ resolveWithObject: true });
+    }
+}
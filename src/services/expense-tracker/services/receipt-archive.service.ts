@@ -0,0 +1,86 @@
+import type { ReceiptStore, StoredReceipt } from '../repositories/receipt-store.interface';
+import { computeLinkSignature, LINK_SIGNATURE_PARAM } from '@/shared/middleware/webhook-auth.middleware';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Options for receipt links
+ */
+export interface ReceiptArchiveOptions {
+    /** Public base URL of this service (no links without it) */
+    publicUrl?: string | undefined;
+    /** Secret links are signed with (no links without it - the route isn't served) */
+    secret?: string | undefined;
+}
+
+/**
+ * Receipt Archive Service
+ *
+ * Archives the original screenshots sent for extraction and builds the
+ * links to them that go into the ledger and transaction notes, so what the
+ * AI saw can be audited later. Archiving never fails a transaction.
+ */
+export class ReceiptArchiveService {
+    constructor(
+        private readonly store: ReceiptStore,
+        private readonly options: ReceiptArchiveOptions = {}
+    ) { }
+
+    /**
+     * Archive an image
+     *
+     * @returns The stored receipt, or undefined if it couldn't be stored
+     */
+    archive(imageBase64: string): StoredReceipt | undefined {
+        try {
+            const receipt = this.store.save(Buffer.from(imageBase64, 'base64'));
+
+            logger.debug({
+                event: 'receipt.archived',
+                receiptId: receipt.id,
+                mimeType: receipt.mimeType,
+                bytes: receipt.bytes,
+            }, 'Archived screenshot');
+
+            return receipt;
+        } catch (error) {
+            logger.error({
+                event: 'receipt.archive.failed',
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to archive screenshot');
+            return undefined;
+        }
+    }
+
+    /**
+     * Get an archived image
+     */
+    get(id: string) {
+        return this.store.get(id);
+    }
+
+    /**
+     * Signed link to an archived image (`GET /receipts/:id`)
+     *
+     * @returns The link, or undefined without a public URL or secret
+     */
+    link(id: string): string | undefined {
+        if (!this.options.publicUrl || !this.options.secret) {
+            return undefined;
+        }
+
+        const path = `/receipts/${id}`;
+        const signature = computeLinkSignature(this.options.secret, path);
+
+        return `${this.options.publicUrl.replace(/\/+$/, '')}${path}?${LINK_SIGNATURE_PARAM}=${signature}`;
+    }
+
+    /**
+     * Transaction note pointing at an archived image
+     *
+     * @returns The note, or undefined without a public URL or secret
+     */
+    note(id: string): string | undefined {
+        const link = this.link(id);
+        return link ? `🧾 ${link}` : undefined;
+    }
+}
@@ -0,0 +1,197 @@
+import type { ExtractedTransaction, TransactionRule } from '@/shared/types/common.types';
+
+/**
+ * What the rules are matched against
+ */
+export interface RuleSubject {
+    /** App package name */
+    app: string;
+    /** Extracted transaction */
+    extracted: ExtractedTransaction;
+    /** Transaction date (ISO 8601) */
+    date: string;
+}
+
+/**
+ * Result of applying the rules to a transaction
+ */
+export interface RuleOutcome {
+    /** Extracted transaction with payee and category rewritten */
+    extracted: ExtractedTransaction;
+    /** Account to use instead of the app's mapped account */
+    accountId?: string | undefined;
+    /** Tags to add */
+    tags: string[];
+    /** Create the transaction as cleared */
+    cleared: boolean;
+    /** Don't create the transaction */
+    drop: boolean;
+    /** Names of the rules that matched, in order */
+    matched: string[];
+}
+
+/**
+ * Rule with its merchant regex compiled
+ */
+interface CompiledRule {
+    rule: TransactionRule;
+    merchant?: RegExp | undefined;
+}
+
+/**
+ * Minutes since midnight of an HH:MM time
+ */
+function minutesOf(time: string): number {
+    const [hours = 0, minutes = 0] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+/**
+ * Time zone rule times are in when none is configured
+ */
+export const DEFAULT_RULE_TIME_ZONE = 'Asia/Kuala_Lumpur';
+
+/**
+ * Wall-clock minutes since midnight of an ISO date in a time zone
+ *
+ * A date with an offset or `Z` is converted first, so "2026-01-02T15:30:00Z"
+ * is 23:30 in Kuala Lumpur. A date without one is taken as written.
+ */
+function timeOfDay(date: string, clock: Intl.DateTimeFormat): number | undefined {
+    const local = /T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(date);
+    if (local) {
+        return Number(local[1]) * 60 + Number(local[2]);
+    }
+
+    const parsed = new Date(date);
+    if (Number.isNaN(parsed.getTime())) {
+        return undefined;
+    }
+
+    const parts = clock.formatToParts(parsed);
+    const hours = Number(parts.find((part) => part.type === 'hour')?.value);
+    const minutes = Number(parts.find((part) => part.type === 'minute')?.value);
+    return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a rule's conditions all hold
+ */
+function matches({ rule, merchant }: CompiledRule, app: string, extracted: ExtractedTransaction, date: string, clock: Intl.DateTimeFormat): boolean {
+    const { match } = rule;
+
+    if (match.apps && !match.apps.includes(app)) {
+        return false;
+    }
+    if (merchant && !merchant.test(extracted.merchant ?? '')) {
+        return false;
+    }
+    if (match.type && extracted.type !== match.type) {
+        return false;
+    }
+    if (match.amount) {
+        if (extracted.amount === undefined) {
+            return false;
+        }
+        const amount = Math.abs(extracted.amount);
+        if ((match.amount.min !== undefined && amount < match.amount.min)
+            || (match.amount.max !== undefined && amount > match.amount.max)) {
+            return false;
+        }
+    }
+    if (match.time) {
+        const minutes = timeOfDay(date, clock);
+        if (minutes === undefined) {
+            return false;
+        }
+        const from = minutesOf(match.time.from);
+        const to = minutesOf(match.time.to);
+        const inRange = from <= to
+            ? minutes >= from && minutes <= to
+            : minutes >= from || minutes <= to;
+        if (!inRange) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Rule Engine
+ *
+ * Applies the declarative rules from config/transaction-rules.json to an
+ * extracted transaction before it is synced. Every matching rule is applied
+ * in file order, and each sees the changes of the ones before it (a rule can
+ * categorise by the payee an earlier rule set). A rule that drops the
+ * transaction stops the rest.
+ */
+export class RuleEngine {
+    private readonly rules: CompiledRule[];
+    private readonly clock: Intl.DateTimeFormat;
+
+    /**
+     * @param rules - Rules in the order they are applied
+     * @param timeZone - IANA time zone the rules' `time` conditions are in
+     */
+    constructor(rules: TransactionRule[], timeZone: string = DEFAULT_RULE_TIME_ZONE) {
+        this.rules = rules.map((rule) => ({
+            rule,
+            merchant: rule.match.merchant !== undefined ? new RegExp(rule.match.merchant, 'i') : undefined,
+        }));
+        this.clock = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    }
+
+    /**
+     * Number of rules
+     */
+    get size(): number {
+        return this.rules.length;
+    }
+
+    /**
+     * Apply the matching rules to a transaction
+     */
+    apply({ app, extracted, date }: RuleSubject): RuleOutcome {
+        const outcome: RuleOutcome = {
+            extracted: { ...extracted },
+            tags: [],
+            cleared: false,
+            drop: false,
+            matched: [],
+        };
+
+        for (const compiled of this.rules) {
+            if (!matches(compiled, app, outcome.extracted, date, this.clock)) {
+                continue;
+            }
+
+            const { name, actions } = compiled.rule;
+            outcome.matched.push(name);
+
+            if (actions.drop) {
+                outcome.drop = true;
+                break;
+            }
+            if (actions.payee !== undefined) {
+                outcome.extracted.merchant = actions.payee;
+            }
+            if (actions.category !== undefined) {
+                outcome.extracted.category = actions.category;
+            }
+            if (actions.account !== undefined) {
+                outcome.accountId = actions.account;
+            }
+            if (actions.cleared !== undefined) {
+                outcome.cleared = actions.cleared;
+            }
+            for (const tag of actions.tags ?? []) {
+                if (!outcome.tags.includes(tag)) {
+                    outcome.tags.push(tag);
+                }
+            }
+        }
+
+        return outcome;
+    }
+}
@@ -0,0 +1,151 @@
+import type { TransactionProcessor } from '../transaction-processor.service';
+import type { ParticipantBalance, SharedExpenseStore } from '../repositories/shared-expense.interface';
+import type { Transaction, TransactionResult } from '@/shared/types/common.types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Shared Expense Error
+ *
+ * A settle-up can't be done (nothing owed, too much, or the budget platform refused it)
+ */
+export class SharedExpenseError extends Error {
+    constructor(
+        message: string,
+        public readonly participant: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'SharedExpenseError';
+    }
+}
+
+/**
+ * Outcome of settling up with someone
+ */
+export interface SettleUpResult {
+    /** Balance that was settled (before the repayment) */
+    balance: ParticipantBalance;
+    /** Amount repaid */
+    settled: number;
+    /** Amount still owed */
+    remaining: number;
+    /** Result of creating the repayment transaction */
+    result: TransactionResult;
+}
+
+/**
+ * Shared Expense Service
+ *
+ * Reports who owes what for split bills and records repayments. Settling up
+ * creates a credit transaction in the budget platform, in the account the
+ * person's latest shared bill was paid from.
+ */
+export class SharedExpenseService {
+    constructor(
+        private readonly store: SharedExpenseStore,
+        private readonly processor: TransactionProcessor
+    ) { }
+
+    /**
+     * Outstanding balances, largest first
+     */
+    getBalances(): ParticipantBalance[] {
+        return this.store.balances();
+    }
+
+    /**
+     * Record that someone paid you back
+     *
+     * @param participant - Person's name (case-insensitive)
+     * @param options.amount - Amount repaid (default: everything they owe)
+     * @param options.currency - Currency of the balance (default: their largest balance)
+     * @throws {SharedExpenseError} If they owe nothing, the amount is too large, or the transaction fails
+     */
+    async settleUp(
+        participant: string,
+        options: { amount?: number | undefined; currency?: string | undefined } = {}
+    ): Promise<SettleUpResult> {
+        const key = participant.trim().toLowerCase();
+        const balance = this.store.balances().find((candidate) =>
+            candidate.participant.toLowerCase() === key
+            && candidate.amount > 0
+            && (!options.currency || candidate.currency === options.currency.toUpperCase())
+        );
+
+        if (!balance) {
+            throw new SharedExpenseError(`${participant} doesn't owe anything`, participant);
+        }
+
+        const settled = options.amount ?? balance.amount;
+        if (!(settled > 0) || Math.round(settled * 100) > Math.round(balance.amount * 100)) {
+            throw new SharedExpenseError(
+                `${balance.participant} owes ${balance.currency} ${balance.amount.toFixed(2)}`,
+                balance.participant
+            );
+        }
+
+        // Negative amount = money coming in
+        const transaction: Transaction = {
+            date: new Date().toISOString(),
+            amount: -settled,
+            payee: balance.participant,
+            account_id: balance.accountId,
+            currency: balance.currency.toLowerCase(),
+            notes: 'Settle up: shared expenses',
+            status: 'uncleared',
+        };
+
+        let result: TransactionResult;
+        try {
+            result = await this.processor.budgetAdapter.createTransaction(transaction);
+        } catch (error) {
+            throw new SharedExpenseError(
+                'Failed to create the repayment transaction',
+                balance.participant,
+                error instanceof Error ? error : undefined
+            );
+        }
+
+        if (!result.success) {
+            throw new SharedExpenseError(result.error || 'Failed to create the repayment transaction', balance.participant);
+        }
+
+        this.store.record({
+            participant: balance.participant,
+            amount: -settled,
+            currency: balance.currency,
+            description: 'Settle up',
+            accountId: balance.accountId,
+            transactionId: result.transactionId,
+            kind: 'settlement',
+        });
+
+        // Lets the bank's notification of the same transfer be caught as a duplicate
+        this.processor.recordCreatedTransaction({
+            source: 'telegram',
+            rawPayload: transaction,
+            extracted: {
+                is_transaction: true,
+                amount: -settled,
+                merchant: balance.participant,
+                type: 'credit',
+                currency: balance.currency,
+            },
+            accountId: balance.accountId,
+            result,
+        });
+
+        const remaining = Math.round((balance.amount - settled) * 100) / 100;
+
+        logger.info({
+            event: 'shared_expense.settled',
+            participant: balance.participant,
+            currency: balance.currency,
+            settled,
+            remaining,
+            transactionId: result.transactionId,
+        }, `Settled up with ${balance.participant}`);
+
+        return { balance, settled, remaining, result };
+    }
+}
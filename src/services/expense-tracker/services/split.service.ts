@@ -0,0 +1,226 @@
+import type { ExtractedTransaction, SplitPart, SplitPartDetails, SplitRule, UserInput } from '@/shared/types/common.types';
+import { parseSplitRule } from '../parsers/split-rule.parser';
+
+/**
+ * Most parts a transaction can be split into
+ */
+export const MAX_SPLIT_PARTS = 20;
+
+/**
+ * Split Rule Error
+ *
+ * The rule can't be applied (e.g. percentages don't add up to 100)
+ */
+export class SplitRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SplitRuleError';
+    }
+}
+
+/**
+ * Turn `user_input.split` into a split rule
+ *
+ * @returns The rule, or undefined when no split was requested
+ * @throws {SplitRuleError} If split shorthand can't be parsed
+ */
+export function toSplitRule(split: UserInput['split']): SplitRule | undefined {
+    if (split === undefined || split === false) {
+        return undefined;
+    }
+    if (split === true) {
+        return { type: 'even', ways: 2 };
+    }
+    if (typeof split === 'string') {
+        const parsed = parseSplitRule(split);
+        if (parsed.status === 'invalid') {
+            throw new SplitRuleError(parsed.reason);
+        }
+        return parsed.rule;
+    }
+    return split;
+}
+
+/**
+ * Assign people sharing a bill to the parts of a split
+ *
+ * The first part is yours; the participants owe the following parts that
+ * don't name someone already. Without a rule, the bill is split evenly.
+ *
+ * @throws {SplitRuleError} If there are more participants than parts to give them
+ */
+export function withParticipants(rule: SplitRule | undefined, participants: string[] = []): SplitRule | undefined {
+    if (participants.length === 0) {
+        return rule;
+    }
+    if (!rule) {
+        return {
+            type: 'even',
+            ways: participants.length + 1,
+            parts: [{}, ...participants.map((participant) => ({ participant }))],
+        };
+    }
+
+    const count = rule.type === 'even' ? rule.ways : rule.parts.length;
+    const parts: SplitPartDetails[] = Array.from({ length: count }, (_, index) => ({ ...rule.parts?.[index] }));
+
+    const remaining = [...participants];
+    for (const part of parts.slice(1)) {
+        if (!part.participant && remaining.length > 0) {
+            part.participant = remaining.shift();
+        }
+    }
+    if (remaining.length > 0) {
+        throw new SplitRuleError(`No split part left for ${remaining.join(', ')}`);
+    }
+
+    const assign = <T extends SplitPartDetails>(part: T, index: number): T => ({ ...part, participant: parts[index]?.participant });
+    switch (rule.type) {
+        case 'even':
+            return { ...rule, parts };
+        case 'percent':
+            return { ...rule, parts: rule.parts.map(assign) };
+        case 'amount':
+            return { ...rule, parts: rule.parts.map(assign) };
+    }
+}
+
+/**
+ * Split rule for an itemised receipt: one part per item category
+ *
+ * Each part's share of the total is its items' share of the subtotal, so tax,
+ * service charge and discount lines are shared out in proportion. Items
+ * without a category fall under the transaction's category.
+ *
+ * @returns The rule, or undefined unless the items fall into 2 to MAX_SPLIT_PARTS categories
+ */
+export function receiptSplitRule(extracted: ExtractedTransaction): SplitRule | undefined {
+    const groups = new Map<string, { category?: string | undefined; subtotal: number; items: string[] }>();
+
+    for (const item of extracted.line_items ?? []) {
+        if (!(item.price > 0)) {
+            continue;
+        }
+
+        const category = item.category ?? extracted.category;
+        const key = category?.trim().toLowerCase() ?? '';
+        const group = groups.get(key) ?? { category, subtotal: 0, items: [] };
+        group.subtotal += item.price;
+        group.items.push(item.quantity !== undefined && item.quantity !== 1 ? `${item.quantity}× ${item.name}` : item.name);
+        groups.set(key, group);
+    }
+
+    if (groups.size < 2 || groups.size > MAX_SPLIT_PARTS) {
+        return undefined;
+    }
+
+    const subtotal = [...groups.values()].reduce((sum, group) => sum + group.subtotal, 0);
+    return {
+        type: 'percent',
+        parts: [...groups.values()].map((group) => ({
+            percent: (group.subtotal / subtotal) * 100,
+            ...(group.category ? { category: group.category } : {}),
+            notes: group.items.join(', '),
+        })),
+    };
+}
+
+/**
+ * Share out cents by weight (largest remainder method)
+ *
+ * Every part is rounded down, then the leftover cents go one at a time to the
+ * parts with the largest remainders, earliest part first on ties - so 10.00
+ * split 3 ways is always 3.34 / 3.33 / 3.33.
+ */
+function allocateCents(totalCents: number, weights: number[]): number[] {
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    const exact = weights.map((weight) => (totalCents * weight) / weightSum);
+    const cents = exact.map(Math.floor);
+
+    let leftover = totalCents - cents.reduce((sum, value) => sum + value, 0);
+    const order = exact
+        .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (const { index } of order) {
+        if (leftover <= 0) {
+            break;
+        }
+        cents[index]! += 1;
+        leftover -= 1;
+    }
+
+    return cents;
+}
+
+/**
+ * Work out the part amounts of a split
+ *
+ * Amounts are handled in cents; parts keep the sign of the transaction amount.
+ *
+ * @param amount - Transaction amount
+ * @param rule - How to split it
+ * @returns Parts that add up exactly to the amount
+ * @throws {SplitRuleError} If the rule doesn't fit the amount
+ */
+export function resolveSplit(amount: number, rule: SplitRule): SplitPart[] {
+    const totalCents = Math.round(Math.abs(amount) * 100);
+    const sign = amount < 0 ? -1 : 1;
+
+    let cents: number[];
+    let details: SplitPartDetails[];
+
+    switch (rule.type) {
+        case 'even':
+            if (!Number.isInteger(rule.ways) || rule.ways < 2 || rule.ways > MAX_SPLIT_PARTS) {
+                throw new SplitRuleError(`Split into 2 to ${MAX_SPLIT_PARTS} parts`);
+            }
+            cents = allocateCents(totalCents, Array<number>(rule.ways).fill(1));
+            details = rule.parts ?? [];
+            break;
+
+        case 'percent': {
+            assertPartCount(rule.parts.length);
+            if (rule.parts.some((part) => !(part.percent > 0))) {
+                throw new SplitRuleError('Every percentage must be above 0');
+            }
+            const total = rule.parts.reduce((sum, part) => sum + part.percent, 0);
+            if (Math.abs(total - 100) > 0.001) {
+                throw new SplitRuleError(`Percentages add up to ${total}%, not 100%`);
+            }
+            cents = allocateCents(totalCents, rule.parts.map((part) => part.percent));
+            details = rule.parts;
+            break;
+        }
+
+        case 'amount': {
+            assertPartCount(rule.parts.length);
+            if (rule.parts.some((part) => !(part.amount > 0))) {
+                throw new SplitRuleError('Every amount must be above 0');
+            }
+            cents = rule.parts.map((part) => Math.round(part.amount * 100));
+            const total = cents.reduce((sum, value) => sum + value, 0);
+            if (total !== totalCents) {
+                throw new SplitRuleError(`Amounts add up to ${(total / 100).toFixed(2)}, not ${(totalCents / 100).toFixed(2)}`);
+            }
+            details = rule.parts;
+            break;
+        }
+    }
+
+    return cents.map((value, index) => ({
+        amount: (sign * value) / 100,
+        ...(details[index]?.category ? { category: details[index].category } : {}),
+        ...(details[index]?.notes ? { notes: details[index].notes } : {}),
+        ...(details[index]?.participant ? { participant: details[index].participant } : {}),
+    }));
+}
+
+/**
+ * Check the number of parts of a percent or amount split
+ */
+function assertPartCount(count: number): void {
+    if (count < 2 || count > MAX_SPLIT_PARTS) {
+        throw new SplitRuleError(`Split into 2 to ${MAX_SPLIT_PARTS} parts`);
+    }
+}
@@ -1,10 +1,49 @@
-import type { TelegramAdapter } from '../adapters/telegram/telegram.interface';
-import type { TransactionProcessor } from '../transaction-processor.service';
-import type { ExtractedTransaction } from '@/shared/types/common.types';
-import { ConversationStateService, type PendingTransaction } from './conversation-state.service';
+import type { TelegramAdapter, InlineKeyboardMarkup } from '../adapters/telegram/telegram.interface';
+import { TELEGRAM_MAX_DOWNLOAD_BYTES, TelegramAPIError } from '../adapters/telegram/telegram.interface';
+import type { BatchItem, TransactionProcessor } from '../transaction-processor.service';
+import type { BudgetCategory } from '../adapters/budget/budget.interface';
+import type { ExtractedTransaction, SplitRule, Transaction, TransactionResult } from '@/shared/types/common.types';
+import {
+    ConversationStateService,
+    encodeCallbackData,
+    parseCallbackData,
+    type PendingTransaction,
+} from './conversation-state.service';
 import { AccountSelectionService, type AccountConfig } from './account-selection.service';
+import { isQuickAddCommand, parseQuickAdd, stripQuickAddCommand } from '../parsers/quick-add.parser';
+import { parseSplitRule } from '../parsers/split-rule.parser';
+import { resolveSplit, SplitRuleError } from './split.service';
+import { ImagePreprocessingError, type PreprocessedImage } from './image-preprocessing.service';
+import { SharedExpenseError, type SharedExpenseService } from './shared-expense.service';
 import { logger } from '@/shared/utils/logger';
 
+/**
+ * Metadata sent along with a screenshot
+ */
+interface ScreenshotMetadata {
+    appPackageName?: string;
+    latitude?: string;
+    longitude?: string;
+    timestamp?: string;
+    userPayee?: string;
+    userRemarks?: string;
+    /** Archived original screenshot */
+    receiptId?: string;
+}
+
+/**
+ * Categories shown per page of the category picker
+ */
+const CATEGORY_PAGE_SIZE = 8;
+
+/**
+ * Telegram's limit on callback data size
+ */
+const CALLBACK_DATA_MAX_BYTES = 64;
+
+/** `/settle <name> [amount]`, optionally addressed to the bot */
+const SETTLE_COMMAND = /^\/settle(?:@\w+)?\s+(.+?)(?:\s+(?:rm\s*)?(\d+(?:\.\d{1,2})?))?\s*$/i;
+
 /**
  * Telegram Conversation Service
  * 
@@ -21,7 +60,8 @@ export class TelegramConversationService {
         public telegram: TelegramAdapter,
         private processor: TransactionProcessor,
         private conversationState: ConversationStateService,
-        private accountSelection: AccountSelectionService
+        private accountSelection: AccountSelectionService,
+        private sharedExpenses?: SharedExpenseService
     ) { }
 
     /**
@@ -30,14 +70,7 @@ export class TelegramConversationService {
     async handleScreenshot(
         chatId: number,
         imageBase64: string,
-        metadata?: {
-            appPackageName?: string;
-            latitude?: string;
-            longitude?: string;
-            timestamp?: string;
-            userPayee?: string;
-            userRemarks?: string;
-        }
+        metadata?: ScreenshotMetadata
     ): Promise<void> {
         try {
             // Send "processing" message
@@ -53,6 +86,27 @@ export class TelegramConversationService {
                 appPackageName: metadata?.appPackageName,
             }, 'Processing screenshot from Telegram');
 
+            // Check the format and shrink large screenshots before the AI sees them
+            let image: PreprocessedImage;
+            try {
+                image = await this.processor.preprocessImage(imageBase64);
+            } catch (error) {
+                if (!(error instanceof ImagePreprocessingError)) {
+                    throw error;
+                }
+                logger.warn({
+                    event: 'telegram.screenshot.rejected',
+                    chatId,
+                    reason: error.reason,
+                }, 'Screenshot rejected before extraction');
+                await this.telegram.editMessage(chatId, processingMsg.message_id, `❌ ${error.message}`);
+                return;
+            }
+
+            // Keep the original so the transaction notes can link back to it
+            const receipt = this.processor.receipts?.archive(imageBase64);
+            const screenshot: ScreenshotMetadata | undefined = receipt ? { ...metadata, receiptId: receipt.id } : metadata;
+
             // Extract transaction using AI
             const locationData = (metadata?.latitude && metadata?.longitude) ? {
                 latitude: parseFloat(metadata.latitude),
@@ -65,20 +119,24 @@ export class TelegramConversationService {
                 accountId: acc.id,
             }));
 
-            const extracted = await this.processor.aiAdapter.extractTransactionDataFromImage(
-                imageBase64,
+            const extractions = await this.processor.aiAdapter.extractTransactionsFromImage(
+                image.base64,
                 {
+                    mimeType: image.mimeType,
                     appPackageName: metadata?.appPackageName,
                     location: locationData,
                     timestamp: metadata?.timestamp || new Date().toISOString(),
                     userPayee: metadata?.userPayee,
                     userRemarks: metadata?.userRemarks,
                     availableAccounts,
+                    corrections: this.processor.corrections?.hints(),
                 }
             );
 
             // Check if it's a transaction
-            if (!extracted.is_transaction) {
+            const transactions = extractions.filter((transaction) => transaction.is_transaction);
+            const extracted = transactions[0];
+            if (!extracted) {
                 await this.telegram.editMessage(
                     chatId,
                     processingMsg.message_id,
@@ -87,6 +145,12 @@ export class TelegramConversationService {
                 return;
             }
 
+            // Statements and transaction histories are reviewed as a batch
+            if (transactions.length > 1) {
+                await this.showBatchReview(chatId, processingMsg.message_id, transactions, screenshot);
+                return;
+            }
+
             // Check confidence
             const MIN_CONFIDENCE = 0.4;
             if (extracted.confidence && extracted.confidence < MIN_CONFIDENCE) {
@@ -98,60 +162,284 @@ export class TelegramConversationService {
                 return;
             }
 
-            // Try to detect account
-            const detection = this.accountSelection.detectAccount(
-                metadata?.appPackageName,
-                extracted,
-                undefined // AI-detected app (could be added to extraction response)
+            await this.startConfirmationFlow(chatId, processingMsg.message_id, extracted, screenshot);
+
+        } catch (error) {
+            logger.error({
+                event: 'telegram.screenshot.failed',
+                chatId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to process screenshot');
+
+            await this.telegram.sendMessage(
+                chatId,
+                '❌ Failed to process screenshot. Please try again.\n\nIf the problem persists, check the logs.'
             );
+        }
+    }
 
-            if (detection.accountId) {
-                // Auto-detected account with high confidence
-                logger.info({
-                    event: 'telegram.account.auto_detected',
-                    chatId,
-                    accountId: detection.accountId,
-                    confidence: detection.confidence,
-                }, 'Account auto-detected');
+    /**
+     * Handle a quick-add text expense ("12.50 kopi tiam", "/add 25 grab to office #transport")
+     * 
+     * Falls back to AI extraction when the text doesn't fit the quick-add grammar.
+     * 
+     * @returns False if the text isn't a quick-add message (nothing was done)
+     */
+    async handleQuickAdd(chatId: number, text: string): Promise<boolean> {
+        const parsed = parseQuickAdd(text);
+        if (parsed.status === 'not_quick_add') {
+            return false;
+        }
 
-                await this.showConfirmation(
-                    chatId,
-                    processingMsg.message_id,
-                    extracted,
-                    detection.accountId,
-                    imageBase64,
-                    metadata
-                );
+        try {
+            const processingMsg = await this.telegram.sendMessage(chatId, '📝 Reading expense...');
+
+            let extracted: ExtractedTransaction;
+            if (parsed.status === 'parsed') {
+                extracted = parsed.transaction;
             } else {
-                // Need user to select account
                 logger.info({
-                    event: 'telegram.account.needs_selection',
+                    event: 'telegram.quick_add.ai_fallback',
                     chatId,
-                    matchCount: detection.matches.length,
-                }, 'Prompting user for account selection');
+                    reason: parsed.reason,
+                }, 'Quick-add text is ambiguous, falling back to AI extraction');
 
-                await this.promptAccountSelection(
+                extracted = await this.processor.aiAdapter.extractTransactionData(
+                    stripQuickAddCommand(text),
+                    { corrections: this.processor.corrections?.hints() }
+                );
+            }
+
+            if (!extracted.is_transaction || !extracted.amount || !extracted.merchant) {
+                await this.telegram.editMessage(
                     chatId,
                     processingMsg.message_id,
-                    extracted,
-                    imageBase64,
-                    metadata,
-                    detection.matches
+                    '❓ Couldn\'t read that expense.\n\nTry something like `12.50 kopi tiam` or `/add 25 grab to office #transport`.',
+                    { parse_mode: 'Markdown' }
                 );
+                return true;
             }
 
+            logger.info({
+                event: 'telegram.quick_add.parsed',
+                chatId,
+                source: parsed.status === 'parsed' ? 'grammar' : 'ai',
+                amount: extracted.amount,
+                merchant: extracted.merchant,
+            }, 'Quick-add expense parsed');
+
+            await this.startConfirmationFlow(chatId, processingMsg.message_id, extracted, {
+                timestamp: new Date().toISOString(),
+            });
         } catch (error) {
             logger.error({
-                event: 'telegram.screenshot.failed',
+                event: 'telegram.quick_add.failed',
                 chatId,
                 error: error instanceof Error ? error.message : 'Unknown error',
-            }, 'Failed to process screenshot');
+            }, 'Failed to process quick-add expense');
 
             await this.telegram.sendMessage(
                 chatId,
-                '❌ Failed to process screenshot. Please try again.\n\nIf the problem persists, check the logs.'
+                '❌ Failed to process expense. Please try again.'
+            );
+        }
+
+        return true;
+    }
+
+    /**
+     * Detect the account for an extracted transaction, then show the
+     * confirmation keyboard (or ask the user to pick an account first)
+     */
+    private async startConfirmationFlow(
+        chatId: number,
+        messageId: number,
+        extracted: ExtractedTransaction,
+        metadata?: ScreenshotMetadata
+    ): Promise<void> {
+        const { suggested, accountId, detection, suggestion } = this.suggest(extracted, metadata?.appPackageName);
+
+        // Itemised receipts start out split by item category
+        const split = this.processor.receiptSplit(suggested);
+
+        if (accountId) {
+            // Auto-detected (or previously picked) account
+            logger.info({
+                event: 'telegram.account.auto_detected',
+                chatId,
+                accountId,
+                confidence: detection.accountId ? detection.confidence : undefined,
+                learned: !detection.accountId,
+            }, 'Account auto-detected');
+
+            await this.showConfirmation(
+                chatId,
+                messageId,
+                suggested,
+                accountId,
+                metadata,
+                suggestion,
+                split
+            );
+        } else {
+            // Need user to select account
+            logger.info({
+                event: 'telegram.account.needs_selection',
+                chatId,
+                matchCount: detection.matches.length,
+            }, 'Prompting user for account selection');
+
+            await this.promptAccountSelection(
+                chatId,
+                messageId,
+                suggested,
+                metadata,
+                detection.matches,
+                suggestion,
+                split
+            );
+        }
+    }
+
+    /**
+     * Apply learned corrections to an extracted transaction and detect its account
+     */
+    private suggest(extracted: ExtractedTransaction, appPackageName: string | undefined) {
+        // Fix what the user corrected for this merchant before
+        const correction = this.processor.corrections?.apply(extracted);
+        const suggested = correction?.extracted ?? extracted;
+
+        // Try to detect account
+        const detection = this.accountSelection.detectAccount(
+            appPackageName,
+            suggested,
+            undefined // AI-detected app (could be added to extraction response)
+        );
+        const accountId = detection.accountId ?? correction?.accountId;
+
+        const suggestion: PendingTransaction['suggestion'] = {
+            extractedMerchant: extracted.merchant,
+            merchant: suggested.merchant,
+            category: suggested.category,
+            accountId,
+        };
+
+        return { suggested, accountId, detection, suggestion };
+    }
+
+    /**
+     * Show the transactions found in one screenshot, to confirm all, review
+     * each one or drop some
+     */
+    private async showBatchReview(
+        chatId: number,
+        messageId: number,
+        transactions: ExtractedTransaction[],
+        metadata?: ScreenshotMetadata
+    ): Promise<void> {
+        const lines = transactions.map((transaction, index) => `${index + 1}. ${this.formatBatchItem(transaction)}`);
+        const text = `🧾 *${transactions.length} transactions found*\n\n${lines.join('\n')}\n\n` +
+            'Confirm all, review them one by one, or drop the ones that don\'t belong.';
+
+        const dropButtons = transactions.map((_, index) => ({ text: `🗑 #${index + 1}`, callback_data: `batch_drop:${index}` }));
+        const keyboard = {
+            inline_keyboard: [
+                [
+                    { text: `✅ Confirm all (${transactions.length})`, callback_data: 'batch_confirm' },
+                    { text: '📝 Review each', callback_data: 'batch_review' },
+                ],
+                ...Array.from(
+                    { length: Math.ceil(dropButtons.length / 4) },
+                    (_, row) => dropButtons.slice(row * 4, row * 4 + 4)
+                ),
+                [{ text: '❌ Drop all', callback_data: 'cancel' }],
+            ],
+        };
+
+        await this.telegram.editMessage(chatId, messageId, text, {
+            reply_markup: this.withMessageKey(keyboard, messageId),
+            parse_mode: 'Markdown',
+        });
+
+        this.conversationState.set({
+            chatId,
+            messageId,
+            state: 'awaiting_batch_review',
+            transactionData: transactions[0]!,
+            batch: transactions,
+            ...(metadata?.latitude && metadata.longitude ? {
+                location: {
+                    latitude: parseFloat(metadata.latitude),
+                    longitude: parseFloat(metadata.longitude),
+                },
+            } : {}),
+            timestamp: metadata?.timestamp || new Date().toISOString(),
+            ...(metadata?.appPackageName ? { appPackageName: metadata.appPackageName } : {}),
+            receiptId: metadata?.receiptId,
+            createdAt: new Date(),
+        });
+
+        logger.info({
+            event: 'telegram.batch.review',
+            chatId,
+            count: transactions.length,
+        }, 'Multiple transactions found, asking for batch review');
+    }
+
+    /**
+     * Handle a photo uploaded directly to the bot
+     * 
+     * Downloads the file from Telegram and runs it through the screenshot flow.
+     * The caption, if any, is passed along as user remarks.
+     */
+    async handlePhotoUpload(
+        chatId: number,
+        fileId: string,
+        options?: { caption?: string | undefined; fileSize?: number | undefined }
+    ): Promise<void> {
+        if (options?.fileSize && options.fileSize > TELEGRAM_MAX_DOWNLOAD_BYTES) {
+            await this.telegram.sendMessage(
+                chatId,
+                '⚠️ This image is too large (max 20 MB). Please send a smaller screenshot.'
+            );
+            return;
+        }
+
+        let imageBase64: string;
+        try {
+            const file = await this.telegram.getFile(fileId);
+            if (!file.file_path) {
+                throw new TelegramAPIError('Telegram did not return a file path');
+            }
+
+            const data = await this.telegram.downloadFile(file.file_path);
+            imageBase64 = Buffer.from(data).toString('base64');
+
+            logger.info({
+                event: 'telegram.photo.downloaded',
+                chatId,
+                filePath: file.file_path,
+                bytes: data.byteLength,
+            }, 'Downloaded photo uploaded to Telegram');
+        } catch (error) {
+            logger.error({
+                event: 'telegram.photo.download_failed',
+                chatId,
+                fileId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to download photo from Telegram');
+
+            await this.telegram.sendMessage(
+                chatId,
+                '❌ Failed to download the image. Please try again.'
             );
+            return;
         }
+
+        await this.handleScreenshot(chatId, imageBase64, {
+            timestamp: new Date().toISOString(),
+            ...(options?.caption ? { userRemarks: options.caption } : {}),
+        });
     }
 
     /**
@@ -161,26 +449,29 @@ export class TelegramConversationService {
         chatId: number,
         messageId: number,
         extracted: ExtractedTransaction,
-        imageBase64: string,
         metadata?: any,
-        suggestedMatches?: AccountConfig[]
+        suggestedMatches?: AccountConfig[],
+        suggestion?: PendingTransaction['suggestion'],
+        split?: SplitRule
     ): Promise<void> {
         const text = this.formatTransactionSummary(extracted) + '\n\n📂 *Which account is this from?*';
 
         const keyboard = this.accountSelection.createAccountSelectionKeyboard(suggestedMatches);
 
         await this.telegram.editMessage(chatId, messageId, text, {
-            reply_markup: keyboard,
+            reply_markup: this.withMessageKey(keyboard, messageId),
             parse_mode: 'Markdown',
         });
 
         // Save pending transaction
-        this.conversationState.set(chatId, {
+        this.conversationState.set({
             chatId,
             messageId,
             state: 'awaiting_account_selection',
             transactionData: extracted,
-            screenshotBase64: imageBase64,
+            split,
+            suggestion,
+            receiptId: (metadata as ScreenshotMetadata | undefined)?.receiptId,
             location: metadata?.latitude && metadata?.longitude ? {
                 latitude: parseFloat(metadata.latitude),
                 longitude: parseFloat(metadata.longitude),
@@ -203,13 +494,21 @@ export class TelegramConversationService {
         messageId: number,
         extracted: ExtractedTransaction,
         accountId: string,
-        imageBase64?: string,
-        metadata?: any
+        metadata?: any,
+        suggestion?: PendingTransaction['suggestion'],
+        initialSplit?: SplitRule
     ): Promise<void> {
         const account = this.accountSelection.getAccount(accountId);
         const accountLabel = account ? `${account.icon} ${account.label}` : accountId;
 
-        const text = this.formatTransactionSummary(extracted) + `\n📂 *Account:* ${accountLabel}`;
+        // Keep a category and split picked earlier for this message
+        const existing = this.conversationState.get(chatId, messageId);
+        const split = initialSplit ?? existing?.split;
+
+        let text = this.formatTransactionSummary(extracted) + `\n📂 *Account:* ${accountLabel}`;
+        if (split) {
+            text += `\n${this.formatSplit(extracted.amount ?? 0, split)}`;
+        }
 
         const keyboard = {
             inline_keyboard: [
@@ -218,24 +517,28 @@ export class TelegramConversationService {
                     { text: '✏️ Edit', callback_data: 'edit' },
                 ],
                 [
+                    { text: '✂️ Split', callback_data: 'split' },
                     { text: '❌ Cancel', callback_data: 'cancel' },
                 ],
             ],
         };
 
         await this.telegram.editMessage(chatId, messageId, text, {
-            reply_markup: keyboard,
+            reply_markup: this.withMessageKey(keyboard, messageId),
             parse_mode: 'Markdown',
         });
 
         // Save pending transaction
-        this.conversationState.set(chatId, {
+        this.conversationState.set({
             chatId,
             messageId,
             state: 'awaiting_confirmation',
             transactionData: extracted,
             accountId,
-            screenshotBase64: imageBase64,
+            categoryId: existing?.categoryId,
+            split,
+            suggestion: suggestion ?? existing?.suggestion,
+            receiptId: (metadata as ScreenshotMetadata | undefined)?.receiptId ?? existing?.receiptId,
             location: metadata?.latitude && metadata?.longitude ? {
                 latitude: parseFloat(metadata.latitude),
                 longitude: parseFloat(metadata.longitude),
@@ -252,9 +555,25 @@ export class TelegramConversationService {
 
     /**
      * Handle callback query (button press)
+     * 
+     * The pending transaction is looked up by the message key carried in the
+     * callback data, falling back to the message the button belongs to.
      */
-    async handleCallback(chatId: number, callbackQueryId: string, data: string): Promise<void> {
-        const pending = this.conversationState.get(chatId);
+    async handleCallback(
+        chatId: number,
+        callbackQueryId: string,
+        rawData: string,
+        callbackMessageId?: number
+    ): Promise<void> {
+        const { action: data, messageId = callbackMessageId } = parseCallbackData(rawData);
+
+        // Settle-up buttons belong to the /owed summary, not a pending transaction
+        if (data.startsWith('settle:')) {
+            await this.handleSettleCallback(chatId, callbackQueryId, data, messageId);
+            return;
+        }
+
+        const pending = messageId !== undefined ? this.conversationState.get(chatId, messageId) : undefined;
 
         if (!pending) {
             await this.telegram.answerCallbackQuery(
@@ -267,6 +586,7 @@ export class TelegramConversationService {
         logger.info({
             event: 'telegram.callback.received',
             chatId,
+            messageId,
             data,
             state: pending.state,
         }, 'Processing callback query');
@@ -276,12 +596,32 @@ export class TelegramConversationService {
             await this.handleAccountSelection(chatId, callbackQueryId, data, pending);
         } else if (data === 'confirm') {
             await this.handleConfirm(chatId, callbackQueryId, pending);
+        } else if (data === 'confirm_duplicate') {
+            await this.handleConfirm(chatId, callbackQueryId, pending, { allowDuplicate: true });
+        } else if (data === 'batch_confirm') {
+            await this.handleBatchConfirm(chatId, callbackQueryId, pending);
+        } else if (data === 'batch_review') {
+            await this.handleBatchReview(chatId, callbackQueryId, pending);
+        } else if (data.startsWith('batch_drop:')) {
+            await this.handleBatchDrop(chatId, callbackQueryId, data, pending);
         } else if (data === 'edit') {
             await this.handleEdit(chatId, callbackQueryId, pending);
         } else if (data === 'cancel') {
             await this.handleCancel(chatId, callbackQueryId, pending);
         } else if (data === 'back_to_confirm') {
             await this.handleBackToConfirm(chatId, callbackQueryId, pending);
+        } else if (data === 'split') {
+            await this.handleEditField(chatId, callbackQueryId, 'edit_split', pending);
+        } else if (data === 'split_clear') {
+            pending.split = undefined;
+            pending.state = 'awaiting_confirmation';
+            this.conversationState.set(pending);
+            await this.handleBackToConfirm(chatId, callbackQueryId, pending);
+        } else if (data.startsWith('category:')) {
+            await this.handleCategorySelection(chatId, callbackQueryId, data, pending);
+        } else if (data.startsWith('category_page:')) {
+            await this.telegram.answerCallbackQuery(callbackQueryId);
+            await this.showCategoryPicker(chatId, pending, parseInt(data.replace('category_page:', ''), 10) || 0);
         } else if (data.startsWith('edit_')) {
             await this.handleEditField(chatId, callbackQueryId, data, pending);
         } else if (data.startsWith('amount_')) {
@@ -308,7 +648,7 @@ export class TelegramConversationService {
         // Update pending transaction with account
         pending.accountId = accountId;
         pending.state = 'awaiting_confirmation';
-        this.conversationState.set(chatId, pending);
+        this.conversationState.set(pending);
 
         // Show confirmation
         await this.showConfirmation(
@@ -316,7 +656,6 @@ export class TelegramConversationService {
             pending.messageId,
             pending.transactionData,
             accountId,
-            pending.screenshotBase64,
             {
                 latitude: pending.location?.latitude,
                 longitude: pending.location?.longitude,
@@ -328,17 +667,69 @@ export class TelegramConversationService {
 
     /**
      * Handle confirm callback
+     * 
+     * Asks for a second confirmation when the transaction looks like one
+     * already created via a notification or screenshot webhook.
      */
     private async handleConfirm(
         chatId: number,
         callbackQueryId: string,
-        pending: PendingTransaction
+        pending: PendingTransaction,
+        options?: { allowDuplicate?: boolean }
     ): Promise<void> {
         if (!pending.accountId) {
             await this.telegram.answerCallbackQuery(callbackQueryId, 'Please select an account first.');
             return;
         }
 
+        // The amount may have been edited since the split was set
+        if (pending.split) {
+            try {
+                resolveSplit(pending.transactionData.amount ?? 0, pending.split);
+            } catch (error) {
+                await this.telegram.answerCallbackQuery(
+                    callbackQueryId,
+                    `Split doesn't fit: ${error instanceof Error ? error.message : 'invalid split'}`
+                );
+                return;
+            }
+        }
+
+        if (!options?.allowDuplicate) {
+            const duplicate = this.processor.findDuplicate(pending.transactionData);
+
+            if (duplicate?.type === 'duplicate') {
+                await this.telegram.answerCallbackQuery(callbackQueryId, 'Possible duplicate found');
+
+                const minutesAgo = Math.max(0, Math.round((Date.now() - new Date(duplicate.entry.createdAt).getTime()) / 60000));
+                const duplicateOf = duplicate.entry.result?.transactionId ?? duplicate.entry.id;
+
+                await this.telegram.editMessage(
+                    chatId,
+                    pending.messageId,
+                    `⚠️ *Possible duplicate*\n\n${this.formatTransactionSummary(pending.transactionData)}\n` +
+                    `This looks like transaction ${duplicateOf}, created ${minutesAgo} min ago via ${duplicate.entry.source}.`,
+                    {
+                        parse_mode: 'Markdown',
+                        reply_markup: this.withMessageKey({
+                            inline_keyboard: [
+                                [{ text: '✅ Create anyway', callback_data: 'confirm_duplicate' }],
+                                [{ text: '❌ Cancel', callback_data: 'cancel' }],
+                            ],
+                        }, pending.messageId),
+                    }
+                );
+
+                logger.info({
+                    event: 'telegram.transaction.duplicate_detected',
+                    chatId,
+                    duplicateOf,
+                    reasons: duplicate.reasons,
+                }, 'Duplicate transaction detected, asking for confirmation');
+                return;
+            }
+        }
+
         await this.telegram.answerCallbackQuery(callbackQueryId, 'Creating transaction...');
 
         try {
@@ -349,27 +740,34 @@ export class TelegramConversationService {
                 amount: pending.transactionData.amount,
             }, 'Creating transaction from Telegram');
 
-            // Create transaction using budget adapter
-            const result = await this.processor.budgetAdapter.createTransaction({
-                date: pending.timestamp || new Date().toISOString(),
-                amount: pending.transactionData.amount!,
-                payee: pending.transactionData.merchant!,
-                account_id: pending.accountId,
-                category: pending.transactionData.category,
-                notes: pending.transactionData.notes,
-                status: 'uncleared',
-                currency: pending.transactionData.currency?.toLowerCase() || 'myr',
-                tags: pending.appPackageName ? [pending.appPackageName] : undefined,
-            });
+            const { transaction, result } = await this.createTransaction(pending, pending.accountId);
 
             if (result.success) {
-                const account = this.accountSelection.getAccount(pending.accountId);
-                const accountLabel = account ? `${account.icon} ${account.label}` : pending.accountId;
+                // Rules may have renamed, categorized or routed it
+                const account = this.accountSelection.getAccount(transaction.account_id);
+                const accountLabel = account ? `${account.icon} ${account.label}` : transaction.account_id;
+                const created = { ...pending.transactionData, merchant: transaction.payee, category: transaction.category };
+
+                let splitText = '';
+                if (pending.split && result.transactionId) {
+                    try {
+                        await this.processor.splitTransaction(result.transactionId, transaction, pending.split);
+                        splitText = `\n${this.formatSplit(transaction.amount, pending.split)}`;
+                    } catch (error) {
+                        logger.error({
+                            event: 'telegram.transaction.split_failed',
+                            chatId,
+                            transactionId: result.transactionId,
+                            error: error instanceof Error ? error.message : 'Unknown error',
+                        }, 'Failed to split transaction from Telegram');
+                        splitText = '\n⚠️ *Split failed* - split it in your budget app';
+                    }
+                }
 
                 await this.telegram.editMessage(
                     chatId,
                     pending.messageId,
-                    `✅ *Transaction Created!*\n\n${this.formatTransactionSummary(pending.transactionData)}\n📂 *Account:* ${accountLabel}\n\n🆔 *ID:* ${result.transactionId}`,
+                    `✅ *Transaction Created!*\n\n${this.formatTransactionSummary(created)}\n📂 *Account:* ${accountLabel}${splitText}\n\n🆔 *ID:* ${result.transactionId}`,
                     { parse_mode: 'Markdown' }
                 );
 
@@ -394,7 +792,7 @@ export class TelegramConversationService {
             }
 
             // Clean up conversation state
-            this.conversationState.delete(chatId);
+            this.conversationState.delete(chatId, pending.messageId);
 
         } catch (error) {
             logger.error({
@@ -412,6 +810,256 @@ export class TelegramConversationService {
         }
     }
 
+    /**
+     * Create a confirmed transaction in the budget platform
+     * 
+     * Runs the transaction rules like the webhook pipelines do, except that a
+     * category or account the user picked by hand is kept. Records it in the
+     * ledger (so later notifications and screenshots of the same purchase are
+     * caught) and learns from the user's changes on success.
+     * 
+     * @param batch - Request ID of the batch and position in it, for transactions confirmed together
+     */
+    private async createTransaction(
+        pending: PendingTransaction,
+        accountId: string,
+        batch?: Pick<BatchItem, 'requestId' | 'index'>
+    ): Promise<{ transaction: Transaction; result: TransactionResult }> {
+        const date = pending.timestamp || new Date().toISOString();
+        const rules = this.processor.applyRules({
+            app: pending.appPackageName ?? '',
+            extracted: pending.transactionData,
+            date,
+        });
+        const extracted = rules.extracted;
+        const account = accountId === pending.suggestion?.accountId ? rules.accountId ?? accountId : accountId;
+        const category = pending.categoryId ? pending.transactionData.category : extracted.category;
+        const tags = [...new Set([...(pending.appPackageName ? [pending.appPackageName] : []), ...rules.tags])];
+
+        const transaction: Transaction = {
+            date,
+            // Budgets book money coming in as a negative amount
+            amount: extracted.type === 'credit'
+                ? -Math.abs(extracted.amount!)
+                : extracted.amount!,
+            payee: extracted.merchant!,
+            account_id: account,
+            category,
+            category_id: pending.categoryId ?? await this.processor.resolveCategoryId(category),
+            notes: [
+                extracted.notes,
+                pending.receiptId ? this.processor.receipts?.note(pending.receiptId) : undefined,
+            ].filter(Boolean).join(' | ') || undefined,
+            reference: extracted.reference,
+            status: rules.cleared ? 'cleared' : 'uncleared',
+            currency: extracted.currency?.toLowerCase() || 'myr',
+            tags: tags.length > 0 ? tags : undefined,
+        };
+
+        if (rules.drop) {
+            const error = `Dropped by rule '${rules.matched[rules.matched.length - 1]}'`;
+            logger.info({
+                event: 'telegram.transaction.dropped',
+                rules: rules.matched,
+            }, error);
+            return { transaction, result: { success: false, error } };
+        }
+
+        const result = await this.processor.budgetAdapter.createTransaction(transaction);
+
+        this.processor.recordCreatedTransaction({
+            source: 'telegram',
+            rawPayload: transaction,
+            appName: pending.appPackageName,
+            receiptId: pending.receiptId,
+            extracted: pending.transactionData,
+            accountId: account,
+            result,
+            batch,
+        });
+
+        if (result.success) {
+            this.learnCorrections(pending);
+        }
+
+        return { transaction, result };
+    }
+
+    /**
+     * Handle confirm-all callback of a batch
+     * 
+     * Creates every transaction whose account is detected; the others are
+     * posted for individual review. Duplicates of transactions created before
+     * are skipped - identical transactions within the batch are all created.
+     */
+    private async handleBatchConfirm(
+        chatId: number,
+        callbackQueryId: string,
+        pending: PendingTransaction
+    ): Promise<void> {
+        const batch = pending.batch ?? [pending.transactionData];
+        await this.telegram.answerCallbackQuery(callbackQueryId, `Creating ${batch.length} transactions...`);
+
+        // Drop the batch first so a second tap can't create the transactions twice
+        this.conversationState.delete(chatId, pending.messageId);
+
+        const lines: string[] = [];
+        const needsReview: ExtractedTransaction[] = [];
+        const requestId = crypto.randomUUID();
+
+        for (const [index, extracted] of batch.entries()) {
+            const { suggested, accountId, suggestion } = this.suggest(extracted, pending.appPackageName);
+            const item = `${index + 1}. ${this.formatBatchItem(suggested)}`;
+
+            if (!accountId) {
+                needsReview.push(extracted);
+                lines.push(`📂 ${item} - pick an account below`);
+                continue;
+            }
+
+            const duplicate = this.processor.findDuplicate(suggested, undefined, requestId);
+            if (duplicate?.type === 'duplicate') {
+                lines.push(`⏭️ ${item} - duplicate of ${duplicate.entry.result?.transactionId ?? duplicate.entry.id}`);
+                continue;
+            }
+
+            try {
+                const { result } = await this.createTransaction(
+                    { ...pending, state: 'completed', transactionData: suggested, batch: undefined, accountId, suggestion },
+                    accountId,
+                    { requestId, index }
+                );
+                lines.push(result.success ? `✅ ${item}` : `❌ ${item} - ${result.error || 'Unknown error'}`);
+            } catch (error) {
+                logger.error({
+                    event: 'telegram.batch.item_failed',
+                    chatId,
+                    index,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                }, 'Exception while creating a transaction of a batch');
+                lines.push(`❌ ${item} - failed, please add it manually`);
+            }
+        }
+
+        await this.telegram.editMessage(
+            chatId,
+            pending.messageId,
+            `🧾 *Batch processed*\n\n${lines.join('\n')}`,
+            { parse_mode: 'Markdown' }
+        );
+
+        logger.info({
+            event: 'telegram.batch.confirmed',
+            chatId,
+            count: batch.length,
+            needsReview: needsReview.length,
+        }, 'Batch of transactions confirmed');
+
+        await this.reviewIndividually(chatId, needsReview, pending);
+    }
+
+    /**
+     * Handle review-each callback of a batch
+     */
+    private async handleBatchReview(
+        chatId: number,
+        callbackQueryId: string,
+        pending: PendingTransaction
+    ): Promise<void> {
+        const batch = pending.batch ?? [pending.transactionData];
+        await this.telegram.answerCallbackQuery(callbackQueryId);
+
+        this.conversationState.delete(chatId, pending.messageId);
+        await this.telegram.editMessage(
+            chatId,
+            pending.messageId,
+            `📝 Reviewing ${batch.length} transactions one by one below.`
+        );
+
+        await this.reviewIndividually(chatId, batch, pending);
+    }
+
+    /**
+     * Handle drop callback of one transaction of a batch
+     * 
+     * Once a single transaction is left, it gets the regular confirmation.
+     */
+    private async handleBatchDrop(
+        chatId: number,
+        callbackQueryId: string,
+        data: string,
+        pending: PendingTransaction
+    ): Promise<void> {
+        const index = parseInt(data.replace('batch_drop:', ''), 10);
+        const batch = (pending.batch ?? []).filter((_, i) => i !== index);
+        const [remaining] = batch;
+
+        if (!remaining) {
+            await this.handleCancel(chatId, callbackQueryId, pending);
+            return;
+        }
+
+        await this.telegram.answerCallbackQuery(callbackQueryId, `Dropped #${index + 1}`);
+
+        const metadata = this.toScreenshotMetadata(pending);
+        if (batch.length > 1) {
+            await this.showBatchReview(chatId, pending.messageId, batch, metadata);
+        } else {
+            await this.startConfirmationFlow(chatId, pending.messageId, remaining, metadata);
+        }
+    }
+
+    /**
+     * Post each transaction of a batch as its own confirmation message
+     */
+    private async reviewIndividually(
+        chatId: number,
+        transactions: ExtractedTransaction[],
+        pending: PendingTransaction
+    ): Promise<void> {
+        const metadata = this.toScreenshotMetadata(pending);
+
+        for (const [index, extracted] of transactions.entries()) {
+            const message = await this.telegram.sendMessage(
+                chatId,
+                `🔄 Transaction ${index + 1} of ${transactions.length}...`
+            );
+            await this.startConfirmationFlow(chatId, message.message_id, extracted, metadata);
+        }
+    }
+
+    /**
+     * Screenshot metadata of a pending transaction, to start a new confirmation from it
+     */
+    private toScreenshotMetadata(pending: PendingTransaction): ScreenshotMetadata {
+        return {
+            timestamp: pending.timestamp,
+            ...(pending.appPackageName ? { appPackageName: pending.appPackageName } : {}),
+            ...(pending.receiptId ? { receiptId: pending.receiptId } : {}),
+            ...(pending.location ? {
+                latitude: String(pending.location.latitude),
+                longitude: String(pending.location.longitude),
+            } : {}),
+        };
+    }
+
+    /**
+     * Remember the merchant, category and account changes made before confirming
+     */
+    private learnCorrections(pending: PendingTransaction): void {
+        const suggestion = pending.suggestion;
+        if (!this.processor.corrections || !suggestion?.extractedMerchant) {
+            return;
+        }
+
+        this.processor.corrections.learn(suggestion.extractedMerchant, suggestion, {
+            merchant: pending.transactionData.merchant,
+            category: pending.transactionData.category,
+            categoryId: pending.categoryId,
+            accountId: pending.accountId,
+        });
+    }
+
     /**
      * Handle edit callback
      */
@@ -442,7 +1090,7 @@ export class TelegramConversationService {
             chatId,
             pending.messageId,
             `*What would you like to edit?*\n\n${this.formatTransactionSummary(pending.transactionData)}`,
-            { reply_markup: keyboard, parse_mode: 'Markdown' }
+            { reply_markup: this.withMessageKey(keyboard, pending.messageId), parse_mode: 'Markdown' }
         );
     }
 
@@ -460,7 +1108,7 @@ export class TelegramConversationService {
             pending.messageId,
             '❌ Transaction cancelled.\n\nSend another screenshot to start over.'
         );
-        this.conversationState.delete(chatId);
+        this.conversationState.delete(chatId, pending.messageId);
 
         logger.info({
             event: 'telegram.transaction.cancelled',
@@ -488,7 +1136,6 @@ export class TelegramConversationService {
             pending.messageId,
             pending.transactionData,
             pending.accountId,
-            pending.screenshotBase64,
             {
                 latitude: pending.location?.latitude,
                 longitude: pending.location?.longitude,
@@ -511,9 +1158,22 @@ export class TelegramConversationService {
 
         const field = data.replace('edit_', '');
 
+        // Text replies carry no message key, so only one transaction per chat can be edited at a time
+        for (const other of this.conversationState.getForChat(chatId)) {
+            if (other.messageId !== pending.messageId && (other.state as string).startsWith('editing_')) {
+                other.state = 'awaiting_confirmation';
+                this.conversationState.set(other);
+            }
+        }
+
         // Update conversation state to track what's being edited
         pending.state = `editing_${field}` as any;
-        this.conversationState.set(chatId, pending);
+        this.conversationState.set(pending);
+
+        // Pick from the budget's categories when they are available (typing one still works)
+        if (field === 'category' && await this.showCategoryPicker(chatId, pending, 0)) {
+            return;
+        }
 
         let promptText = '';
         let keyboard: any;
@@ -566,6 +1226,22 @@ export class TelegramConversationService {
                 };
                 break;
 
+            case 'split':
+                promptText = '✂️ *Split Transaction*\n\n' +
+                    (pending.split ? `${this.formatSplit(pending.transactionData.amount ?? 0, pending.split)}\n\n` : '') +
+                    'Send how to split it, e.g.\n' +
+                    '`2` - in half\n' +
+                    '`60/40` - by percentage\n' +
+                    '`60% Food, 40% Groceries`\n' +
+                    '`12.50 Food, 13 Transport - taxi`';
+                keyboard = {
+                    inline_keyboard: [
+                        ...(pending.split ? [[{ text: '🚫 No split', callback_data: 'split_clear' }]] : []),
+                        [{ text: '🔙 Back', callback_data: 'back_to_confirm' }],
+                    ],
+                };
+                break;
+
             default:
                 promptText = '⚠️ Unknown field';
                 keyboard = {
@@ -580,12 +1256,122 @@ export class TelegramConversationService {
             pending.messageId,
             promptText,
             {
-                reply_markup: keyboard,
+                reply_markup: this.withMessageKey(keyboard, pending.messageId),
                 parse_mode: 'Markdown',
             }
         );
     }
 
+    /**
+     * Show one page of the budget's categories as an inline keyboard
+     * 
+     * @returns False if categories are unavailable (caller falls back to free text)
+     */
+    private async showCategoryPicker(
+        chatId: number,
+        pending: PendingTransaction,
+        page: number
+    ): Promise<boolean> {
+        if (!this.processor.categories) {
+            return false;
+        }
+
+        let categories: BudgetCategory[];
+        try {
+            categories = await this.processor.categories.getCategories();
+        } catch (error) {
+            logger.warn({
+                event: 'telegram.category_picker.unavailable',
+                chatId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to load categories, asking for free text instead');
+            return false;
+        }
+
+        if (categories.length === 0) {
+            return false;
+        }
+
+        const pageCount = Math.ceil(categories.length / CATEGORY_PAGE_SIZE);
+        const currentPage = Math.min(Math.max(page, 0), pageCount - 1);
+        const pageCategories = categories.slice(
+            currentPage * CATEGORY_PAGE_SIZE,
+            (currentPage + 1) * CATEGORY_PAGE_SIZE
+        );
+
+        // 2-column layout, like the account picker
+        const rows = [];
+        for (let i = 0; i < pageCategories.length; i += 2) {
+            rows.push(pageCategories.slice(i, i + 2).map((category) => ({
+                text: category.name,
+                callback_data: `category:${category.id}`,
+            })));
+        }
+
+        const navigation = [];
+        if (currentPage > 0) {
+            navigation.push({ text: '◀️ Prev', callback_data: `category_page:${currentPage - 1}` });
+        }
+        if (currentPage < pageCount - 1) {
+            navigation.push({ text: 'Next ▶️', callback_data: `category_page:${currentPage + 1}` });
+        }
+        if (navigation.length > 0) {
+            rows.push(navigation);
+        }
+        rows.push([{ text: '🔙 Back', callback_data: 'edit' }]);
+
+        const pageLabel = pageCount > 1 ? ` (page ${currentPage + 1}/${pageCount})` : '';
+
+        await this.telegram.editMessage(
+            chatId,
+            pending.messageId,
+            `📁 *Edit Category*${pageLabel}\n\nCurrent: ${pending.transactionData.category || 'None'}\n\nPick a category or send one as a message:`,
+            {
+                reply_markup: this.withMessageKey({ inline_keyboard: rows }, pending.messageId),
+                parse_mode: 'Markdown',
+            }
+        );
+
+        return true;
+    }
+
+    /**
+     * Handle category selection from the category picker
+     */
+    private async handleCategorySelection(
+        chatId: number,
+        callbackQueryId: string,
+        data: string,
+        pending: PendingTransaction
+    ): Promise<void> {
+        const category = await this.processor.categories?.getById(data.replace('category:', ''));
+
+        if (!category || !pending.accountId) {
+            await this.telegram.answerCallbackQuery(callbackQueryId, 'Category not available, please send it as a message.');
+            return;
+        }
+
+        await this.telegram.answerCallbackQuery(callbackQueryId, `Category: ${category.name}`);
+
+        pending.transactionData.category = category.name;
+        pending.categoryId = category.id;
+        pending.state = 'awaiting_confirmation';
+        this.conversationState.set(pending);
+
+        await this.showConfirmation(
+            chatId,
+            pending.messageId,
+            pending.transactionData,
+            pending.accountId,
+            {
+                latitude: pending.location?.latitude,
+                longitude: pending.location?.longitude,
+                timestamp: pending.timestamp,
+                appPackageName: pending.appPackageName,
+            }
+        );
+    }
+
     /**
      * Handle amount adjustment callbacks (+10, -50, etc.)
      */
@@ -609,7 +1395,7 @@ export class TelegramConversationService {
 
         // Update transaction data
         pending.transactionData.amount = Math.max(0, newAmount); // Don't allow negative
-        this.conversationState.set(chatId, pending);
+        this.conversationState.set(pending);
 
         await this.telegram.answerCallbackQuery(
             callbackQueryId,
@@ -621,28 +1407,29 @@ export class TelegramConversationService {
     }
 
     /**
-     * Handle text message (for editing fields)
+     * Handle text message (field edits and quick-add expenses)
      */
     async handleTextMessage(chatId: number, text: string): Promise<void> {
-        const pending = this.conversationState.get(chatId);
-
-        if (!pending) {
-            // No active conversation
+        // Explicit /add always starts a new expense
+        if (isQuickAddCommand(text)) {
+            await this.handleQuickAdd(chatId, text);
             return;
         }
 
-        // Check if we're in an editing state
-        const state = pending.state as string;
-        if (!state.startsWith('editing_')) {
-            // Not editing, ignore
+        const pending = this.conversationState.getEditing(chatId);
+
+        // Not editing a field - text starting with an amount is a quick-add expense
+        if (!pending) {
+            await this.handleQuickAdd(chatId, text);
             return;
         }
 
-        const field = state.replace('editing_', '');
+        const field = (pending.state as string).replace('editing_', '');
 
         logger.info({
             event: 'telegram.edit.text_received',
             chatId,
+            messageId: pending.messageId,
             field,
             text: text.substring(0, 50),
         }, 'Received text input for editing');
@@ -665,18 +1452,34 @@ export class TelegramConversationService {
                 pending.transactionData.merchant = text.trim();
                 break;
 
-            case 'category':
-                pending.transactionData.category = text.trim();
+            case 'category': {
+                const category = await this.processor.categories?.resolve(text.trim());
+                pending.transactionData.category = category?.name ?? text.trim();
+                pending.categoryId = category?.id;
                 break;
+            }
 
             case 'notes':
                 pending.transactionData.notes = text.trim();
                 break;
+
+            case 'split': {
+                const parsed = parseSplitRule(text);
+                const problem = parsed.status === 'invalid'
+                    ? parsed.reason
+                    : this.checkSplit(pending.transactionData.amount ?? 0, parsed.rule);
+                if (parsed.status === 'invalid' || problem) {
+                    await this.telegram.sendMessage(chatId, `⚠️ ${problem}. Please send the split again.`);
+                    return;
+                }
+                pending.split = parsed.rule;
+                break;
+            }
         }
 
         // Update state back to awaiting confirmation
         pending.state = 'awaiting_confirmation';
-        this.conversationState.set(chatId, pending);
+        this.conversationState.set(pending);
 
         // Show confirmation with updated data
         if (pending.accountId) {
@@ -685,7 +1488,6 @@ export class TelegramConversationService {
                 pending.messageId,
                 pending.transactionData,
                 pending.accountId,
-                pending.screenshotBase64,
                 {
                     latitude: pending.location?.latitude,
                     longitude: pending.location?.longitude,
@@ -702,6 +1504,177 @@ export class TelegramConversationService {
         );
     }
 
+    /**
+     * Handle /owed - summarise what people owe from shared bills
+     */
+    async handleOwedCommand(chatId: number): Promise<void> {
+        if (!this.sharedExpenses) {
+            await this.telegram.sendMessage(chatId, '⚠️ Shared expenses are not enabled.');
+            return;
+        }
+
+        const balances = this.sharedExpenses.getBalances();
+        if (balances.length === 0) {
+            await this.telegram.sendMessage(
+                chatId,
+                '🎉 Nobody owes you anything.\n\nSplit a transaction with `@name` (e.g. `2 @Ali`) to track shared bills.',
+                { parse_mode: 'Markdown' }
+            );
+            return;
+        }
+
+        const lines = balances.map((balance) => balance.amount > 0
+            ? `• ${balance.participant} owes you ${this.formatMoney(balance.amount, balance.currency)}`
+            : `• You owe ${balance.participant} ${this.formatMoney(-balance.amount, balance.currency)}`);
+
+        const buttons = balances
+            .filter((balance) => balance.amount > 0)
+            .map((balance) => ({
+                text: `✅ ${balance.participant} paid ${this.formatMoney(balance.amount, balance.currency)}`,
+                callback_data: `settle:${balance.currency}:${balance.participant.toLowerCase()}`,
+            }))
+            .filter((button) => Buffer.byteLength(button.callback_data) <= CALLBACK_DATA_MAX_BYTES);
+
+        await this.telegram.sendMessage(
+            chatId,
+            `💸 *Shared expenses*\n\n${lines.join('\n')}\n\nTap when someone pays you back, or send \`/settle name amount\` for a partial repayment.`,
+            {
+                parse_mode: 'Markdown',
+                reply_markup: { inline_keyboard: buttons.map((button) => [button]) },
+            }
+        );
+    }
+
+    /**
+     * Handle /settle <name> [amount] - record a (partial) repayment
+     */
+    async handleSettleCommand(chatId: number, text: string): Promise<void> {
+        const match = SETTLE_COMMAND.exec(text.trim());
+        if (!match) {
+            await this.telegram.sendMessage(chatId, '⚠️ Usage: `/settle name [amount]`', { parse_mode: 'Markdown' });
+            return;
+        }
+
+        const [, participant = '', amount] = match;
+        const message = await this.settleUp(participant.replace(/^@/, ''), amount ? parseFloat(amount) : undefined);
+        await this.telegram.sendMessage(chatId, message, { parse_mode: 'Markdown' });
+    }
+
+    /**
+     * Handle a settle-up button from the /owed summary
+     */
+    private async handleSettleCallback(
+        chatId: number,
+        callbackQueryId: string,
+        data: string,
+        messageId: number | undefined
+    ): Promise<void> {
+        const [, currency, ...name] = data.split(':');
+        await this.telegram.answerCallbackQuery(callbackQueryId, 'Recording repayment...');
+
+        const message = await this.settleUp(name.join(':'), undefined, currency);
+        if (messageId !== undefined) {
+            await this.telegram.editMessage(chatId, messageId, message, { parse_mode: 'Markdown' });
+        } else {
+            await this.telegram.sendMessage(chatId, message, { parse_mode: 'Markdown' });
+        }
+    }
+
+    /**
+     * Settle up with someone and describe the outcome
+     */
+    private async settleUp(participant: string, amount?: number, currency?: string): Promise<string> {
+        if (!this.sharedExpenses) {
+            return '⚠️ Shared expenses are not enabled.';
+        }
+
+        try {
+            const { balance, settled, remaining, result } = await this.sharedExpenses.settleUp(participant, { amount, currency });
+
+            return `✅ *${balance.participant} paid you ${this.formatMoney(settled, balance.currency)}*\n\n` +
+                (remaining > 0
+                    ? `Still owes ${this.formatMoney(remaining, balance.currency)}.`
+                    : 'All settled up!') +
+                `\n\n🆔 *ID:* ${result.transactionId}`;
+        } catch (error) {
+            if (error instanceof SharedExpenseError) {
+                return `⚠️ ${error.message}`;
+            }
+
+            logger.error({
+                event: 'telegram.settle.exception',
+                participant,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Exception while settling up');
+            return '❌ *Failed to record the repayment*\n\nPlease try again or check the logs.';
+        }
+    }
+
+    /**
+     * Format an amount with its currency (RM for MYR)
+     */
+    private formatMoney(amount: number, currency: string): string {
+        return `${currency.toUpperCase() === 'MYR' ? 'RM' : currency.toUpperCase()} ${amount.toFixed(2)}`;
+    }
+
+    /**
+     * Check a split rule fits an amount
+     * 
+     * @returns Why it doesn't fit, or undefined if it does
+     */
+    private checkSplit(amount: number, rule: SplitRule): string | undefined {
+        try {
+            resolveSplit(amount, rule);
+            return undefined;
+        } catch (error) {
+            if (error instanceof SplitRuleError) {
+                return error.message;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Format the parts of a split for display
+     */
+    private formatSplit(amount: number, rule: SplitRule): string {
+        const problem = this.checkSplit(amount, rule);
+        if (problem) {
+            return `⚠️ *Split:* ${problem}`;
+        }
+
+        const lines = resolveSplit(amount, rule).map((part) => {
+            const details = [part.category, part.notes].filter(Boolean).join(' - ');
+            return `  • RM ${part.amount.toFixed(2)}${details ? ` ${details}` : ''}`;
+        });
+
+        return `✂️ *Split:*\n${lines.join('\n')}`;
+    }
+
+    /**
+     * Add the pending transaction key to every button of a keyboard
+     */
+    private withMessageKey(keyboard: InlineKeyboardMarkup, messageId: number): InlineKeyboardMarkup {
+        return {
+            inline_keyboard: keyboard.inline_keyboard.map((row) => row.map((button) => (
+                button.callback_data
+                    ? { ...button, callback_data: encodeCallbackData(button.callback_data, messageId) }
+                    : button
+            ))),
+        };
+    }
+
+    /**
+     * Format one transaction of a batch as a single line
+     */
+    private formatBatchItem(transaction: ExtractedTransaction): string {
+        const sign = transaction.type === 'credit' ? '+' : '';
+        const amount = transaction.amount !== undefined
+            ? this.formatMoney(transaction.amount, transaction.currency || 'MYR')
+            : 'RM ?';
+        return `${sign}${amount} - ${transaction.merchant || 'Unknown'}${transaction.category ? ` (${transaction.category})` : ''}`;
+    }
+
     /**
      * Format transaction summary for display
      */
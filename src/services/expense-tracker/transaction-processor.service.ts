@@ -1,39 +1,547 @@
-import type { AIAdapter } from './adapters/ai/ai.interface';
+import type { AIAdapter, AIProviderStatus } from './adapters/ai/ai.interface';
+import { AIExtractionError, AIResponseValidationError } from './adapters/ai/ai.interface';
 import type { BudgetAdapter } from './adapters/budget/budget.interface';
+import { getBudgetBackendResults } from './adapters/budget/composite-budget.adapter';
 import type { GeocodingAdapter } from './adapters/geocoding/geocoding.interface';
+import type { LedgerSource, TransactionLedger } from './repositories/ledger.interface';
+import type { SharedExpenseStore } from './repositories/shared-expense.interface';
+import type { ReceiptArchiveService } from './services/receipt-archive.service';
+import type { DuplicateDetectionService, DuplicateMatch } from './services/duplicate-detection.service';
+import type { CategoryService } from './services/category.service';
+import type { AppliedCorrection, CorrectionService } from './services/correction.service';
+import type { RuleEngine, RuleOutcome, RuleSubject } from './services/rule-engine.service';
+import { receiptSplitRule, resolveSplit, toSplitRule, withParticipants } from './services/split.service';
+import { preprocessImage, ImagePreprocessingError, type PreprocessedImage } from './services/image-preprocessing.service';
 import type {
     WebhookPayload,
+    ExtractedTransaction,
+    SplitPart,
+    SplitRule,
     Transaction,
     TransactionResult,
 } from '@/shared/types/common.types';
 import type { WideEvent } from '@/shared/types/wide-event.types';
 import { validateCoordinates } from '@/shared/utils/validators';
 import { logger } from '@/shared/utils/logger';
+import { isTransientError } from '@/shared/utils/errors';
 import { getAccountId, isAllowedApp, config } from '@/shared/config/config';
 import { tracer } from '@/shared/utils/tracing';
 import { addSpanAttributes, setSpanStatus } from '@/shared/utils/tracing-utils';
 import { trace, context } from '@opentelemetry/api';
 
+/**
+ * Wide event error for an unexpected pipeline failure
+ *
+ * AI errors are unwrapped (e.g. from the fallback chain) so the event shows why
+ * extraction failed: code `request_failed` (API error) or `invalid_response`
+ * (the response failed validation even after repairs). Only transient
+ * failures are retriable (see isTransientError).
+ */
+function toWideEventError(error: Error): NonNullable<WideEvent['error']> {
+    if (!(error instanceof AIExtractionError)) {
+        return { type: error.name, message: error.message, retriable: isTransientError(error), step: 'unknown' };
+    }
+
+    let failure: AIExtractionError = error;
+    while (failure.cause instanceof AIExtractionError) {
+        failure = failure.cause;
+    }
+
+    return {
+        type: failure.name,
+        code: failure instanceof AIResponseValidationError ? 'invalid_response' : 'request_failed',
+        message: [error.message, failure !== error ? failure.message : undefined, failure.cause?.message]
+            .filter(Boolean)
+            .join(': '),
+        retriable: isTransientError(error),
+        step: 'ai_extraction',
+    };
+}
+
+/**
+ * One transaction of a multi-transaction extraction
+ */
+export interface BatchItem {
+    /** Extracted transaction (AI extraction is skipped) */
+    extracted: ExtractedTransaction;
+    /** Request ID of the batch (shared by its transactions and retries of it) */
+    requestId: string;
+    /** Position in the batch */
+    index: number;
+}
+
 /**
  * Transaction Processor Service
  * 
  * Orchestrates the transaction processing pipeline:
  * 1. Filter - Check if app is allowed
+ * 1.4. Receipt Archive - Keep the original screenshot (optional)
+ * 1.5. Image Preprocessing - Check the format, crop and downscale screenshots
  * 2. AI Extraction - Parse notification text
+ * 2.1. Batch - Process each transaction separately when there are several
+ * 2.6. Learned Corrections - Reuse payee/category/account fixes made in Telegram (optional)
+ * 2.7. Rules - Rename payee, categorize, tag, route or drop (optional)
  * 3. Account Mapping - Resolve budget platform account ID
+ * 3.5. Deduplication - Skip or flag transactions already created via another channel (optional)
  * 4. Location Enrichment - Convert GPS to address (optional)
  * 5. Budget Sync - Create transaction in budget platform
  * 
  * Uses wide events pattern for logging - enriches a single event throughout
  * the pipeline instead of emitting multiple log statements.
+ * 
+ * If a ledger is provided, every stage is also recorded durably so failed
+ * transactions can be found and replayed.
  */
 export class TransactionProcessor {
     constructor(
         public aiAdapter: AIAdapter,
         public budgetAdapter: BudgetAdapter,
-        private geocodingAdapter: GeocodingAdapter
+        private geocodingAdapter: GeocodingAdapter,
+        public ledger?: TransactionLedger,
+        public duplicateDetection?: DuplicateDetectionService,
+        public categories?: CategoryService,
+        public sharedExpenses?: SharedExpenseStore,
+        public rules?: RuleEngine,
+        public corrections?: CorrectionService,
+        public receipts?: ReceiptArchiveService
     ) { }
 
+    /**
+     * Map a free-text category to a budget platform category ID
+     * 
+     * @returns Category ID, or undefined to let the budget platform categorize
+     */
+    async resolveCategoryId(category: string | undefined): Promise<string | undefined> {
+        if (!this.categories) {
+            return undefined;
+        }
+
+        const match = await this.categories.resolve(category);
+
+        logger.debug({
+            event: 'category.resolved',
+            category,
+            categoryId: match?.id,
+            categoryName: match?.name,
+        }, match ? `Mapped category to ${match.name}` : 'Category left unresolved');
+
+        return match?.id;
+    }
+
+    /**
+     * Split a created transaction according to a split rule
+     * 
+     * Parts without a category keep the transaction's category; part categories
+     * are mapped to budget category IDs like the transaction's own. Parts owed by
+     * someone else are recorded as shared expenses.
+     * 
+     * @returns The parts sent to the budget platform
+     * @throws {SplitRuleError} If the rule doesn't fit the transaction amount
+     * @throws {BudgetAPIError} If the budget platform rejects the split
+     */
+    async splitTransaction(transactionId: string, transaction: Transaction, rule: SplitRule): Promise<SplitPart[]> {
+        const parts = await Promise.all(resolveSplit(transaction.amount, rule).map(async (part) => ({
+            ...part,
+            category: part.category ?? transaction.category,
+            category_id: part.category
+                ? await this.resolveCategoryId(part.category)
+                : transaction.category_id,
+        })));
+
+        await this.budgetAdapter.splitTransaction(transactionId, parts);
+
+        this.recordSharedExpenses(transactionId, transaction, parts);
+
+        return parts;
+    }
+
+    /**
+     * Record the parts other people owe, without letting storage failures break the pipeline
+     */
+    private recordSharedExpenses(transactionId: string, transaction: Transaction, parts: SplitPart[]): void {
+        if (!this.sharedExpenses) {
+            return;
+        }
+
+        for (const part of parts) {
+            if (!part.participant) {
+                continue;
+            }
+
+            try {
+                this.sharedExpenses.record({
+                    participant: part.participant,
+                    amount: part.amount,
+                    currency: transaction.currency ?? 'MYR',
+                    description: part.notes ? `${transaction.payee} - ${part.notes}` : transaction.payee,
+                    accountId: transaction.account_id,
+                    transactionId,
+                    kind: 'expense',
+                });
+            } catch (error) {
+                logger.error({
+                    event: 'shared_expense.record.failed',
+                    transactionId,
+                    participant: part.participant,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                }, 'Failed to record shared expense');
+            }
+        }
+    }
+
+    /**
+     * Split rule for an itemised receipt (one part per item category)
+     * 
+     * @returns The rule, or undefined if receipt splitting is disabled or the items share one category
+     */
+    receiptSplit(extracted: ExtractedTransaction): SplitRule | undefined {
+        return config.receipts.splitByCategory ? receiptSplitRule(extracted) : undefined;
+    }
+
+    /**
+     * Prepare a screenshot for the AI (format check, crop, downscale)
+     * 
+     * @throws {ImagePreprocessingError} If the image can't be used
+     */
+    async preprocessImage(imageBase64: string, wideEvent?: WideEvent): Promise<PreprocessedImage> {
+        const start = Date.now();
+        const image = await preprocessImage(imageBase64, config.images);
+        const { details } = image;
+
+        if (wideEvent) {
+            wideEvent.image = {
+                format: details.format,
+                original_bytes: details.originalBytes,
+                bytes: details.bytes,
+                original_width: details.originalWidth,
+                original_height: details.originalHeight,
+                width: details.width,
+                height: details.height,
+                cropped: details.cropped,
+                resized: details.resized,
+                preprocessing_ms: Date.now() - start,
+            };
+        }
+
+        return image;
+    }
+
+    /**
+     * Open a ledger entry for an incoming request
+     * 
+     * @returns Ledger entry ID, or undefined if no ledger is configured or the write failed
+     */
+    private startLedgerEntry(
+        source: LedgerSource,
+        rawPayload: unknown,
+        appName: string | undefined,
+        wideEvent?: WideEvent,
+        item?: Pick<BatchItem, 'requestId' | 'index'>
+    ): string | undefined {
+        if (!this.ledger) {
+            return undefined;
+        }
+
+        try {
+            return this.ledger.start({
+                requestId: item?.requestId ?? wideEvent?.request_id ?? crypto.randomUUID(),
+                source,
+                rawPayload,
+                appName,
+                batchIndex: item?.index,
+            });
+        } catch (error) {
+            logger.error({
+                event: 'ledger.start.failed',
+                source,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to open transaction ledger entry');
+            return undefined;
+        }
+    }
+
+    /**
+     * Write to an open ledger entry without letting storage failures break the pipeline
+     */
+    private writeLedger(entryId: string | undefined, write: (ledger: TransactionLedger, id: string) => void): void {
+        if (!this.ledger || !entryId) {
+            return;
+        }
+
+        try {
+            write(this.ledger, entryId);
+        } catch (error) {
+            logger.error({
+                event: 'ledger.write.failed',
+                entryId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to write to transaction ledger');
+        }
+    }
+
+    /**
+     * Look for an already created transaction matching the extraction
+     * 
+     * Storage failures are logged and treated as "no duplicate" so they never block a transaction.
+     * 
+     * @param extracted - Extracted transaction to check
+     * @param wideEvent - Optional wide event to enrich with the deduplication result
+     * @param requestId - Request the transaction belongs to (the other transactions of its batch aren't duplicates)
+     * @returns The match, or undefined if the transaction looks new (or detection is disabled)
+     */
+    findDuplicate(extracted: ExtractedTransaction, wideEvent?: WideEvent, requestId?: string): DuplicateMatch | undefined {
+        if (!this.duplicateDetection) {
+            return undefined;
+        }
+
+        let match: DuplicateMatch | undefined;
+        try {
+            match = this.duplicateDetection.findDuplicate(extracted, requestId);
+        } catch (error) {
+            logger.error({
+                event: 'deduplication.check.failed',
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to check for duplicate transactions, continuing');
+            return undefined;
+        }
+
+        if (wideEvent) {
+            wideEvent.deduplication = { result: match?.type ?? 'unique' };
+            if (match) {
+                wideEvent.deduplication.matched_source = match.entry.source;
+                wideEvent.deduplication.merchant_similarity = Number(match.merchantSimilarity.toFixed(2));
+                if (match.entry.result?.transactionId) {
+                    wideEvent.deduplication.matched_transaction_id = match.entry.result.transactionId;
+                }
+            }
+        }
+
+        return match;
+    }
+
+    /**
+     * Apply the correction learned for the extracted merchant
+     * 
+     * @param extracted - Extracted transaction
+     * @param wideEvent - Optional wide event to enrich with the applied correction
+     * @returns The applied correction, or undefined if learning is disabled or none matches
+     */
+    applyCorrections(extracted: ExtractedTransaction, wideEvent?: WideEvent): AppliedCorrection | undefined {
+        const applied = this.corrections?.apply(extracted);
+
+        if (applied) {
+            if (wideEvent) {
+                wideEvent.correction = {
+                    merchant: applied.correction.merchant,
+                    similarity: Number(applied.similarity.toFixed(2)),
+                };
+            }
+            logger.debug({
+                event: 'correction.applied',
+                merchant: extracted.merchant,
+                correctedMerchant: applied.correction.merchant,
+                similarity: applied.similarity,
+            }, 'Applied learned correction');
+        }
+
+        return applied;
+    }
+
+    /**
+     * Apply the transaction rules to an extraction
+     * 
+     * @param subject - App, extracted transaction and date to match against
+     * @param wideEvent - Optional wide event to enrich with the matched rules
+     * @returns The outcome (unchanged extraction if no rules are configured or none match)
+     */
+    applyRules(subject: RuleSubject, wideEvent?: WideEvent): RuleOutcome {
+        const outcome = this.rules?.apply(subject) ?? {
+            extracted: subject.extracted,
+            tags: [],
+            cleared: false,
+            drop: false,
+            matched: [],
+        };
+
+        if (outcome.matched.length > 0) {
+            if (wideEvent) {
+                wideEvent.rules = { matched: outcome.matched, dropped: outcome.drop };
+            }
+            logger.debug({
+                event: 'transaction.rules.matched',
+                app: subject.app,
+                rules: outcome.matched,
+                dropped: outcome.drop,
+            }, `Applied ${outcome.matched.length} transaction rule(s)`);
+        }
+
+        return outcome;
+    }
+
+    /**
+     * Record a transaction created outside the webhook pipelines (e.g. confirmed in Telegram)
+     * so it shows up in the ledger and in duplicate detection
+     * 
+     * Transactions of one batch share its request ID, so they aren't taken for
+     * duplicates of each other.
+     */
+    recordCreatedTransaction(entry: {
+        source: LedgerSource;
+        rawPayload: unknown;
+        appName?: string | undefined;
+        receiptId?: string | undefined;
+        extracted: ExtractedTransaction;
+        accountId: string;
+        result: TransactionResult;
+        batch?: Pick<BatchItem, 'requestId' | 'index'> | undefined;
+    }): void {
+        const ledgerId = this.startLedgerEntry(entry.source, entry.rawPayload, entry.appName, undefined, entry.batch);
+
+        this.writeLedger(ledgerId, (ledger, id) => {
+            if (entry.receiptId) {
+                ledger.recordReceipt(id, entry.receiptId);
+            }
+            ledger.recordExtraction(id, entry.extracted);
+            ledger.recordAccount(id, entry.accountId);
+            ledger.recordResult(id, entry.result);
+            ledger.complete(
+                id,
+                entry.result.success ? 'success' : 'error',
+                entry.result.success ? undefined : { step: 'budget_sync', error: entry.result.error || 'Unknown error' }
+            );
+        });
+    }
+
+    /**
+     * Process each transaction of a multi-transaction extraction through the rest of the pipeline
+     * 
+     * Every transaction gets its own ledger entry under the batch's request ID
+     * and its position (so each can be looked up on its own); the batch's entry
+     * and wide event record the summary. Transactions of the same batch aren't
+     * duplicates of each other - two identical coffees are two purchases.
+     * 
+     * A batch succeeds only if every transaction does. When it's retried, the
+     * transactions the ledger recorded as created at the same position are
+     * skipped, so only the failed ones are created again.
+     * 
+     * @param extractions - Extracted transactions
+     * @param process - Runs the pipeline for one transaction
+     * @param batch - Ledger entry of the batch and AI extraction time
+     * @param wideEvent - Optional wide event to enrich with the batch summary
+     * @returns Summary result, with each transaction's result in `metadata.transactions`
+     */
+    private async processBatch(
+        extractions: ExtractedTransaction[],
+        process: (item: BatchItem) => Promise<TransactionResult>,
+        batch: { ledgerId: string | undefined; aiDuration: number },
+        wideEvent?: WideEvent
+    ): Promise<TransactionResult> {
+        const requestId = wideEvent?.request_id ?? crypto.randomUUID();
+        const alreadyCreated = this.createdBatchItems(requestId);
+
+        // One at a time, so each transaction's duplicate check sees the ones before it
+        const results: TransactionResult[] = [];
+        for (const [index, extracted] of extractions.entries()) {
+            const previous = alreadyCreated.get(index);
+            if (previous) {
+                logger.info({
+                    event: 'transaction.batch.item_skipped',
+                    requestId,
+                    index,
+                    transactionId: previous.transactionId,
+                }, `Transaction #${index + 1} was created by an earlier attempt`);
+                results.push(previous);
+                continue;
+            }
+            results.push(await process({ extracted, requestId, index }));
+        }
+
+        const created = results.filter((result) => result.success);
+        const failures = results
+            .map((result, index) => ({ result, index }))
+            .filter(({ result }) => !result.success);
+        const error = failures.length > 0
+            ? failures.map(({ result, index }) => `#${index + 1}: ${result.error || 'Unknown error'}`).join('; ')
+            : undefined;
+
+        const summary: TransactionResult = {
+            success: failures.length === 0,
+            transactionId: created[0]?.transactionId,
+            error,
+            retriable: failures.some(({ result }) => result.retriable),
+            metadata: {
+                transactions: results,
+            },
+        };
+
+        if (wideEvent) {
+            wideEvent.ai = {
+                is_transaction: true,
+                extraction_time_ms: batch.aiDuration,
+                model: extractions[0]?.model ?? this.aiAdapter.model,
+            };
+            wideEvent.batch = {
+                size: extractions.length,
+                created: created.length,
+                failed: failures.length,
+                transaction_ids: created.flatMap((result) => result.transactionId ? [result.transactionId] : []),
+            };
+            if (created.length === 0) {
+                wideEvent.outcome = 'error';
+            }
+            if (error) {
+                wideEvent.error = {
+                    type: 'BatchError',
+                    message: error,
+                    retriable: summary.retriable ?? false,
+                    step: 'batch',
+                };
+            }
+        }
+
+        this.writeLedger(batch.ledgerId, (ledger, id) => {
+            ledger.recordResult(id, summary);
+            ledger.complete(id, summary.success ? 'success' : 'error', error ? { step: 'batch', error } : undefined);
+        });
+
+        logger.info({
+            event: 'transaction.batch.processed',
+            size: extractions.length,
+            created: created.length,
+            failed: failures.length,
+        }, `Processed ${extractions.length} transactions, ${created.length} created`);
+
+        return summary;
+    }
+
+    /**
+     * Results of the transactions of a batch created by earlier attempts, by position
+     * 
+     * Storage failures are logged and treated as "none created".
+     */
+    private createdBatchItems(requestId: string): Map<number, TransactionResult> {
+        const created = new Map<number, TransactionResult>();
+        if (!this.ledger) {
+            return created;
+        }
+
+        try {
+            for (const entry of this.ledger.list({ requestId, outcome: 'success', limit: 500 })) {
+                if (entry.batchIndex !== undefined && entry.result) {
+                    created.set(entry.batchIndex, entry.result);
+                }
+            }
+        } catch (error) {
+            logger.error({
+                event: 'ledger.read.failed',
+                requestId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to look up transactions created by earlier attempts');
+        }
+
+        return created;
+    }
+
     /**
      * Calculate distance between two GPS coordinates using Haversine formula
      * @returns Distance in kilometers
@@ -53,17 +561,27 @@ export class TransactionProcessor {
     /**
      * Process a webhook payload and create a transaction
      * 
+     * If the notification lists several transactions, each is processed
+     * separately (see processBatch).
+     * 
      * @param payload - Webhook payload from MacroDroid
      * @param wideEvent - Optional wide event to enrich with processing context
+     * @param item - Transaction already extracted from the payload (one of a batch), skips AI extraction
      * @returns Transaction result
      */
-    async processTransaction(payload: WebhookPayload, wideEvent?: WideEvent): Promise<TransactionResult> {
+    async processTransaction(
+        payload: WebhookPayload,
+        wideEvent?: WideEvent,
+        item?: BatchItem
+    ): Promise<TransactionResult> {
         const startTime = performance.now();
 
         // Start main processing span
         const span = tracer.startSpan('transaction.process');
 
         return await context.with(trace.setSpan(context.active(), span), async () => {
+            const ledgerId = this.startLedgerEntry('notification', payload, payload.app_name, wideEvent, item);
+
             try {
                 // Add payload metadata to span
                 addSpanAttributes(span, {
@@ -105,6 +623,7 @@ export class TransactionProcessor {
                             step: 'filter',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'filter', error: errorMsg }));
                     setSpanStatus(span, false, errorMsg);
                     span.end();
                     return {
@@ -121,17 +640,34 @@ export class TransactionProcessor {
                 });
 
                 const aiStart = Date.now();
-                const extracted = await this.aiAdapter.extractTransactionData(
-                    payload.notification_text
+                const extractions = item ? [item.extracted] : await this.aiAdapter.extractTransactions(
+                    payload.notification_text,
+                    { app: payload.app_name, corrections: this.corrections?.hints() }
                 );
                 const aiDuration = Date.now() - aiStart;
 
+                // === STEP 2.1: Batch - Several transactions in one notification ===
+                if (extractions.length > 1) {
+                    aiSpan.end();
+                    const result = await this.processBatch(
+                        extractions,
+                        (batchItem) => this.processTransaction(payload, undefined, batchItem),
+                        { ledgerId, aiDuration },
+                        wideEvent
+                    );
+                    setSpanStatus(span, result.success, result.error);
+                    span.end();
+                    return result;
+                }
+
+                let extracted: ExtractedTransaction = extractions[0] ?? { is_transaction: false };
+
                 // Enrich wide event with AI extraction context
                 if (wideEvent) {
                     wideEvent.ai = {
                         is_transaction: extracted.is_transaction,
                         extraction_time_ms: aiDuration,
-                        model: 'gemini-2.0-flash-exp',
+                        model: extracted.model ?? this.aiAdapter.model,
                     };
                     if (extracted.confidence !== undefined) {
                         wideEvent.ai.confidence = extracted.confidence;
@@ -147,6 +683,8 @@ export class TransactionProcessor {
                 });
                 aiSpan.end();
 
+                this.writeLedger(ledgerId, (ledger, id) => ledger.recordExtraction(id, extracted));
+
                 // Step 2.5: Confidence Filter - Only process actual transactions
                 if (!extracted.is_transaction) {
                     const errorMsg = 'Not a financial transaction';
@@ -159,6 +697,7 @@ export class TransactionProcessor {
                             step: 'ai_extraction',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'ai_extraction', error: errorMsg }));
                     setSpanStatus(span, false, errorMsg);
                     span.end();
                     return {
@@ -179,6 +718,40 @@ export class TransactionProcessor {
                             step: 'ai_extraction',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'ai_extraction', error: errorMsg }));
+                    setSpanStatus(span, false, errorMsg);
+                    span.end();
+                    return {
+                        success: false,
+                        error: errorMsg,
+                    };
+                }
+
+                // === STEP 2.6: Learned Corrections - Fix merchants the user corrected before ===
+                const correction = this.applyCorrections(extracted, wideEvent);
+                if (correction) {
+                    extracted = correction.extracted;
+                }
+
+                // === STEP 2.7: Rules - Rename payee, categorize, tag, route or drop ===
+                const rules = this.applyRules({
+                    app: payload.app_name,
+                    extracted,
+                    date: payload.timestamp,
+                }, wideEvent);
+
+                if (rules.drop) {
+                    const errorMsg = `Dropped by rule '${rules.matched[rules.matched.length - 1]}'`;
+                    if (wideEvent) {
+                        wideEvent.outcome = 'rejected';
+                        wideEvent.error = {
+                            type: 'RuleDropError',
+                            message: errorMsg,
+                            retriable: false,
+                            step: 'rules',
+                        };
+                    }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'rules', error: errorMsg }));
                     setSpanStatus(span, false, errorMsg);
                     span.end();
                     return {
@@ -186,6 +759,7 @@ export class TransactionProcessor {
                         error: errorMsg,
                     };
                 }
+                extracted = rules.extracted;
 
                 // Enrich wide event with transaction details
                 if (wideEvent) {
@@ -206,7 +780,8 @@ export class TransactionProcessor {
                     },
                 });
 
-                const accountId = getAccountId(payload.app_name);
+                // A learned account only fills in for apps without a mapping
+                const accountId = rules.accountId ?? getAccountId(payload.app_name) ?? correction?.accountId;
 
                 if (!accountId) {
                     const errorMsg = `No account mapping found for app '${payload.app_name}'`;
@@ -219,6 +794,7 @@ export class TransactionProcessor {
                             step: 'account_mapping',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'error', { step: 'account_mapping', error: errorMsg }));
                     logger.error({ event: 'account.mapping.missing', appName: payload.app_name }, errorMsg);
 
                     setSpanStatus(accountSpan, false, errorMsg);
@@ -241,6 +817,40 @@ export class TransactionProcessor {
                 });
                 accountSpan.end();
 
+                this.writeLedger(ledgerId, (ledger, id) => ledger.recordAccount(id, accountId));
+
+                // === STEP 3.5: Deduplication - Same purchase from another channel? ===
+                const duplicate = this.findDuplicate(extracted, wideEvent, item?.requestId ?? wideEvent?.request_id);
+
+                if (duplicate?.type === 'duplicate') {
+                    const duplicateOf = duplicate.entry.result?.transactionId ?? duplicate.entry.id;
+                    const errorMsg = `Duplicate of transaction ${duplicateOf} (via ${duplicate.entry.source}, matched on ${duplicate.reasons.join(', ')})`;
+                    if (wideEvent) {
+                        wideEvent.outcome = 'rejected';
+                        wideEvent.error = {
+                            type: 'DuplicateTransactionError',
+                            message: errorMsg,
+                            retriable: false,
+                            step: 'deduplication',
+                        };
+                    }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'deduplication', error: errorMsg }));
+                    setSpanStatus(span, false, errorMsg);
+                    span.end();
+                    return {
+                        success: false,
+                        error: errorMsg,
+                        metadata: {
+                            duplicateOf,
+                        },
+                    };
+                }
+
+                // Possible duplicates are still created, but flagged for review
+                const duplicateNote = duplicate
+                    ? `⚠️ Possible duplicate of ${duplicate.entry.result?.transactionId ?? duplicate.entry.id}`
+                    : null;
+
                 // === STEP 4: Location Enrichment (optional) ===
                 let locationNote = '';
                 if (payload.latitude && payload.longitude) {
@@ -304,14 +914,18 @@ export class TransactionProcessor {
                     payee: extracted.merchant!, // Non-null: verified is_transaction is true
                     account_id: accountId,
                     category: extracted.category,
+                    category_id: await this.resolveCategoryId(extracted.category),
+                    reference: extracted.reference,
                     notes: [
                         extracted.notes || payload.notification_text,
                         extracted.reference ? `Ref: ${extracted.reference}` : null,
                         locationNote ? `📍 ${locationNote}` : null,
                         (payload.latitude && payload.longitude) ? `📌 ${payload.latitude}, ${payload.longitude}` : null,
+                        duplicateNote,
                     ].filter(Boolean).join(' | '),
-                    status: 'uncleared',
+                    status: rules.cleared ? 'cleared' : 'uncleared',
                     currency: extracted.currency?.toLowerCase() || 'myr',
+                    tags: rules.tags.length > 0 ? rules.tags : undefined,
                 };
 
                 // === STEP 6: Budget Sync - Create transaction ===
@@ -342,6 +956,11 @@ export class TransactionProcessor {
                         },
                     };
 
+                    const budgetBackends = getBudgetBackendResults(result);
+                    if (budgetBackends) {
+                        wideEvent.external_apis.budget_backends = budgetBackends;
+                    }
+
                     // Update transaction ID in wide event
                     if (wideEvent.transaction && result.transactionId) {
                         wideEvent.transaction.id = result.transactionId;
@@ -355,6 +974,15 @@ export class TransactionProcessor {
                 setSpanStatus(budgetSpan, result.success);
                 budgetSpan.end();
 
+                this.writeLedger(ledgerId, (ledger, id) => {
+                    ledger.recordResult(id, result);
+                    ledger.complete(
+                        id,
+                        result.success ? 'success' : 'error',
+                        result.success ? undefined : { step: 'budget_sync', error: result.error || 'Unknown error' }
+                    );
+                });
+
                 // Calculate final processing time
                 const processingTime = (performance.now() - startTime) / 1000; // Convert to seconds
 
@@ -368,16 +996,17 @@ export class TransactionProcessor {
 
                 return result;
             } catch (error) {
+                const failure = error instanceof Error ? toWideEventError(error) : undefined;
+                this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'error', {
+                    step: failure?.step ?? 'unknown',
+                    error: failure?.message ?? 'Unknown error',
+                }));
+
                 // Enrich wide event with error
                 if (wideEvent) {
                     wideEvent.outcome = 'error';
-                    if (error instanceof Error) {
-                        wideEvent.error = {
-                            type: error.name,
-                            message: error.message,
-                            retriable: false,
-                            step: 'unknown',
-                        };
+                    if (error instanceof Error && failure) {
+                        wideEvent.error = failure;
                         if (error.stack !== undefined) {
                             wideEvent.error.stack = error.stack;
                         }
@@ -401,6 +1030,7 @@ export class TransactionProcessor {
                 return {
                     success: false,
                     error: error instanceof Error ? error.message : 'Unknown error occurred',
+                    retriable: isTransientError(error),
                 };
             }
         });
@@ -409,13 +1039,18 @@ export class TransactionProcessor {
     /**
      * Process a screenshot webhook payload and create a transaction
      * 
+     * If the screenshot shows several transactions (e.g. a transaction
+     * history), each is processed separately (see processBatch).
+     * 
      * @param payload - Screenshot webhook payload from MacroDroid
      * @param wideEvent - Optional wide event to enrich with processing context
+     * @param item - Transaction already extracted from the screenshot (one of a batch), skips AI extraction
      * @returns Transaction result
      */
     async processScreenshotTransaction(
         payload: import('@/shared/types/common.types').ScreenshotWebhookPayload,
-        wideEvent?: WideEvent
+        wideEvent?: WideEvent,
+        item?: BatchItem
     ): Promise<TransactionResult> {
         const startTime = performance.now();
 
@@ -423,6 +1058,15 @@ export class TransactionProcessor {
         const span = tracer.startSpan('transaction.process.screenshot');
 
         return await context.with(trace.setSpan(context.active(), span), async () => {
+            // Keep the image out of the ledger row - it can be several MB
+            const ledgerId = this.startLedgerEntry(
+                'screenshot',
+                { ...payload, image_base64: `[omitted: ${payload.image_base64.length} chars]` },
+                payload.app_package_name,
+                wideEvent,
+                item
+            );
+
             try {
                 // Add payload metadata to span
                 addSpanAttributes(span, {
@@ -465,6 +1109,7 @@ export class TransactionProcessor {
                             step: 'filter',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'filter', error: errorMsg }));
                     setSpanStatus(span, false, errorMsg);
                     span.end();
                     return {
@@ -473,6 +1118,42 @@ export class TransactionProcessor {
                     };
                 }
 
+                // === STEP 1.4: Receipt Archive - Keep the original screenshot ===
+                // Content-addressed, so each transaction of a batch finds the same receipt
+                const receipt = this.receipts?.archive(payload.image_base64);
+                if (receipt) {
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.recordReceipt(id, receipt.id));
+                }
+
+                // === STEP 1.5: Image Preprocessing - Check the format, crop and downscale ===
+                let image: Pick<PreprocessedImage, 'base64' | 'mimeType'> | undefined;
+                if (!item) {
+                    try {
+                        image = await this.preprocessImage(payload.image_base64, wideEvent);
+                    } catch (error) {
+                        if (!(error instanceof ImagePreprocessingError)) {
+                            throw error;
+                        }
+                        if (wideEvent) {
+                            wideEvent.outcome = 'rejected';
+                            wideEvent.error = {
+                                type: error.name,
+                                message: error.message,
+                                code: error.reason,
+                                retriable: false,
+                                step: 'image_preprocessing',
+                            };
+                        }
+                        this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'image_preprocessing', error: error.message }));
+                        setSpanStatus(span, false, error.message);
+                        span.end();
+                        return {
+                            success: false,
+                            error: error.message,
+                        };
+                    }
+                }
+
                 // === STEP 2: AI Extraction - Analyze screenshot ===
                 const aiSpan = tracer.startSpan('transaction.ai_extract_image', {
                     attributes: {
@@ -493,25 +1174,44 @@ export class TransactionProcessor {
                     accountId: String(accountId),
                 }));
 
-                const extracted = await this.aiAdapter.extractTransactionDataFromImage(
-                    payload.image_base64,
+                // Without an image the transaction was pre-extracted (one of a batch)
+                const extractions = !image ? [item?.extracted ?? { is_transaction: false }] : await this.aiAdapter.extractTransactionsFromImage(
+                    image.base64,
                     {
+                        mimeType: image.mimeType,
                         appPackageName: payload.app_package_name,
                         location: locationData,
                         timestamp: payload.timestamp,
                         userPayee: payload.user_input?.payee,
                         userRemarks: payload.user_input?.remarks,
                         availableAccounts,
+                        corrections: this.corrections?.hints(),
                     }
                 );
                 const aiDuration = Date.now() - aiStart;
 
+                // === STEP 2.1: Batch - Several transactions in one screenshot ===
+                if (extractions.length > 1) {
+                    aiSpan.end();
+                    const result = await this.processBatch(
+                        extractions,
+                        (batchItem) => this.processScreenshotTransaction(payload, undefined, batchItem),
+                        { ledgerId, aiDuration },
+                        wideEvent
+                    );
+                    setSpanStatus(span, result.success, result.error);
+                    span.end();
+                    return result;
+                }
+
+                let extracted: ExtractedTransaction = extractions[0] ?? { is_transaction: false };
+
                 // Enrich wide event with AI extraction context
                 if (wideEvent) {
                     wideEvent.ai = {
                         is_transaction: extracted.is_transaction,
                         extraction_time_ms: aiDuration,
-                        model: 'gemini-2.5-flash-lite',
+                        model: extracted.model ?? this.aiAdapter.model,
                     };
                     if (extracted.confidence !== undefined) {
                         wideEvent.ai.confidence = extracted.confidence;
@@ -527,6 +1227,8 @@ export class TransactionProcessor {
                 });
                 aiSpan.end();
 
+                this.writeLedger(ledgerId, (ledger, id) => ledger.recordExtraction(id, extracted));
+
                 // Step 2.5: Confidence Filter - Only process actual transactions
                 if (!extracted.is_transaction) {
                     const errorMsg = 'Not a financial transaction';
@@ -539,6 +1241,7 @@ export class TransactionProcessor {
                             step: 'ai_extraction',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'ai_extraction', error: errorMsg }));
                     setSpanStatus(span, false, errorMsg);
                     span.end();
                     return {
@@ -559,6 +1262,40 @@ export class TransactionProcessor {
                             step: 'ai_extraction',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'ai_extraction', error: errorMsg }));
+                    setSpanStatus(span, false, errorMsg);
+                    span.end();
+                    return {
+                        success: false,
+                        error: errorMsg,
+                    };
+                }
+
+                // === STEP 2.6: Learned Corrections - Fix merchants the user corrected before ===
+                const correction = this.applyCorrections(extracted, wideEvent);
+                if (correction) {
+                    extracted = correction.extracted;
+                }
+
+                // === STEP 2.7: Rules - Rename payee, categorize, tag, route or drop ===
+                const rules = this.applyRules({
+                    app: payload.app_package_name,
+                    extracted,
+                    date: extracted.transaction_date || payload.timestamp,
+                }, wideEvent);
+
+                if (rules.drop) {
+                    const errorMsg = `Dropped by rule '${rules.matched[rules.matched.length - 1]}'`;
+                    if (wideEvent) {
+                        wideEvent.outcome = 'rejected';
+                        wideEvent.error = {
+                            type: 'RuleDropError',
+                            message: errorMsg,
+                            retriable: false,
+                            step: 'rules',
+                        };
+                    }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'rules', error: errorMsg }));
                     setSpanStatus(span, false, errorMsg);
                     span.end();
                     return {
@@ -566,6 +1303,7 @@ export class TransactionProcessor {
                         error: errorMsg,
                     };
                 }
+                extracted = rules.extracted;
 
                 // Enrich wide event with transaction details
                 if (wideEvent) {
@@ -586,7 +1324,8 @@ export class TransactionProcessor {
                     },
                 });
 
-                const accountId = getAccountId(payload.app_package_name);
+                // A learned account only fills in for apps without a mapping
+                const accountId = rules.accountId ?? getAccountId(payload.app_package_name) ?? correction?.accountId;
 
                 if (!accountId) {
                     const errorMsg = `No account mapping found for app '${payload.app_package_name}'`;
@@ -599,6 +1338,7 @@ export class TransactionProcessor {
                             step: 'account_mapping',
                         };
                     }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'error', { step: 'account_mapping', error: errorMsg }));
                     logger.error({ event: 'account.mapping.missing', appPackageName: payload.app_package_name }, errorMsg);
 
                     setSpanStatus(accountSpan, false, errorMsg);
@@ -621,6 +1361,40 @@ export class TransactionProcessor {
                 });
                 accountSpan.end();
 
+                this.writeLedger(ledgerId, (ledger, id) => ledger.recordAccount(id, accountId));
+
+                // === STEP 3.5: Deduplication - Same purchase from another channel? ===
+                const duplicate = this.findDuplicate(extracted, wideEvent, item?.requestId ?? wideEvent?.request_id);
+
+                if (duplicate?.type === 'duplicate') {
+                    const duplicateOf = duplicate.entry.result?.transactionId ?? duplicate.entry.id;
+                    const errorMsg = `Duplicate of transaction ${duplicateOf} (via ${duplicate.entry.source}, matched on ${duplicate.reasons.join(', ')})`;
+                    if (wideEvent) {
+                        wideEvent.outcome = 'rejected';
+                        wideEvent.error = {
+                            type: 'DuplicateTransactionError',
+                            message: errorMsg,
+                            retriable: false,
+                            step: 'deduplication',
+                        };
+                    }
+                    this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'rejected', { step: 'deduplication', error: errorMsg }));
+                    setSpanStatus(span, false, errorMsg);
+                    span.end();
+                    return {
+                        success: false,
+                        error: errorMsg,
+                        metadata: {
+                            duplicateOf,
+                        },
+                    };
+                }
+
+                // Possible duplicates are still created, but flagged for review
+                const duplicateNote = duplicate
+                    ? `⚠️ Possible duplicate of ${duplicate.entry.result?.transactionId ?? duplicate.entry.id}`
+                    : null;
+
                 // === STEP 4: Location Enrichment (optional) ===
                 let locationNote = '';
                 if (payload.latitude && payload.longitude) {
@@ -711,15 +1485,19 @@ export class TransactionProcessor {
                     payee: extracted.merchant!, // AI-normalized payee
                     account_id: accountId,
                     category: extracted.category,
+                    category_id: await this.resolveCategoryId(extracted.category),
+                    reference: extracted.reference,
                     notes: [
                         extracted.notes,
                         extracted.reference ? `Ref: ${extracted.reference}` : null,
                         payload.user_input?.remarks ? `💬 ${payload.user_input.remarks}` : null,
                         finalLocationNote,
+                        duplicateNote,
+                        receipt ? this.receipts?.note(receipt.id) : null,
                     ].filter(Boolean).join(' | '),
-                    status: 'uncleared',
+                    status: rules.cleared ? 'cleared' : 'uncleared',
                     currency: extracted.currency?.toLowerCase() || 'myr',
-                    tags: [payload.app_package_name],
+                    tags: [payload.app_package_name, ...rules.tags],
                 };
 
                 // === STEP 6: Budget Sync - Create transaction ===
@@ -735,24 +1513,31 @@ export class TransactionProcessor {
                 const result = await this.budgetAdapter.createTransaction(transaction);
                 const budgetDuration = Date.now() - budgetStart;
 
-                // === STEP 7: Split Transaction (if requested) ===
-                if (payload.user_input?.split === true && result.success && result.transactionId) {
+                // === STEP 7: Split Transaction (if requested, or by receipt item categories) ===
+                const receiptSplit = this.receiptSplit(extracted);
+                if ((payload.user_input?.split || payload.user_input?.participants?.length || receiptSplit) && result.success && result.transactionId) {
                     try {
-                        logger.info({
-                            event: 'transaction.split.request',
-                            transactionId: result.transactionId,
-                            amount: transaction.amount,
-                        }, 'Splitting transaction 50/50');
-
-                        await this.budgetAdapter.splitTransaction(
-                            parseInt(result.transactionId),
-                            transaction.amount
-                        );
-
-                        logger.info({
-                            event: 'transaction.split.success',
-                            transactionId: result.transactionId,
-                        }, 'Transaction split successfully');
+                        // A split the user asked for wins over the receipt's categories
+                        const splitRule = payload.user_input?.split || payload.user_input?.participants?.length
+                            ? withParticipants(toSplitRule(payload.user_input.split), payload.user_input.participants)
+                            : receiptSplit;
+
+                        if (splitRule) {
+                            logger.info({
+                                event: 'transaction.split.request',
+                                transactionId: result.transactionId,
+                                amount: transaction.amount,
+                                rule: splitRule,
+                            }, 'Splitting transaction');
+
+                            const parts = await this.splitTransaction(result.transactionId, transaction, splitRule);
+
+                            logger.info({
+                                event: 'transaction.split.success',
+                                transactionId: result.transactionId,
+                                parts: parts.map((part) => part.amount),
+                            }, 'Transaction split successfully');
+                        }
                     } catch (error) {
                         // Log error but don't fail the entire transaction
                         logger.error({
@@ -778,6 +1563,11 @@ export class TransactionProcessor {
                         },
                     };
 
+                    const budgetBackends = getBudgetBackendResults(result);
+                    if (budgetBackends) {
+                        wideEvent.external_apis.budget_backends = budgetBackends;
+                    }
+
                     // Update transaction ID in wide event
                     if (wideEvent.transaction && result.transactionId) {
                         wideEvent.transaction.id = result.transactionId;
@@ -791,6 +1581,15 @@ export class TransactionProcessor {
                 setSpanStatus(budgetSpan, result.success);
                 budgetSpan.end();
 
+                this.writeLedger(ledgerId, (ledger, id) => {
+                    ledger.recordResult(id, result);
+                    ledger.complete(
+                        id,
+                        result.success ? 'success' : 'error',
+                        result.success ? undefined : { step: 'budget_sync', error: result.error || 'Unknown error' }
+                    );
+                });
+
                 // Calculate final processing time
                 const processingTime = (performance.now() - startTime) / 1000; // Convert to seconds
 
@@ -804,16 +1603,17 @@ export class TransactionProcessor {
 
                 return result;
             } catch (error) {
+                const failure = error instanceof Error ? toWideEventError(error) : undefined;
+                this.writeLedger(ledgerId, (ledger, id) => ledger.complete(id, 'error', {
+                    step: failure?.step ?? 'unknown',
+                    error: failure?.message ?? 'Unknown error',
+                }));
+
                 // Enrich wide event with error
                 if (wideEvent) {
                     wideEvent.outcome = 'error';
-                    if (error instanceof Error) {
-                        wideEvent.error = {
-                            type: error.name,
-                            message: error.message,
-                            retriable: false,
-                            step: 'unknown',
-                        };
+                    if (error instanceof Error && failure) {
+                        wideEvent.error = failure;
                         if (error.stack !== undefined) {
                             wideEvent.error.stack = error.stack;
                         }
@@ -844,6 +1644,7 @@ export class TransactionProcessor {
                 return {
                     success: false,
                     error: error instanceof Error ? error.message : 'Unknown error occurred',
+                    retriable: isTransientError(error),
                 };
             }
         });
@@ -855,14 +1656,21 @@ export class TransactionProcessor {
      * @returns Object with validation results for each adapter
      */
     async validateAdapters() {
-        const results = {
+        const results: { ai: boolean; budget: boolean; geocoding: boolean; aiProviders?: AIProviderStatus[] } = {
             ai: false,
             budget: false,
             geocoding: false,
         };
 
         try {
-            results.ai = await this.aiAdapter.validateApiKey();
+            // A fallback chain is healthy while any of its providers is
+            const providers = await this.aiAdapter.validateProviders?.();
+            if (providers) {
+                results.aiProviders = providers;
+                results.ai = providers.some((provider) => provider.connected);
+            } else {
+                results.ai = await this.aiAdapter.validateApiKey();
+            }
         } catch (error) {
             logger.error('AI adapter validation failed', { error });
         }
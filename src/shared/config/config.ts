@@ -1,7 +1,7 @@
-import { readFileSync } from 'fs';
-import { join } from 'path';
-import { validateEnv, validateAccountMapping, type ValidatedEnv } from '../utils/validators';
-import type { AccountMapping } from '../types/common.types';
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { validateEnv, validateAccountMapping, validateTransactionRules, type ValidatedEnv } from '../utils/validators';
+import type { AccountMapping, TransactionRule } from '../types/common.types';
 import { logger } from '../utils/logger';
 
 /**
@@ -79,6 +79,36 @@ function loadAccountMapping(): AccountMapping {
     }
 }
 
+/**
+ * Load transaction rules from config file
+ * A missing file means no rules; an invalid file is logged and ignored
+ */
+function loadTransactionRules(path: string): TransactionRule[] {
+    const rulesPath = resolve(process.cwd(), path);
+    if (!existsSync(rulesPath)) {
+        logger.info({ event: 'transaction_rules.none', path: rulesPath }, 'No transaction rules file, skipping rules');
+        return [];
+    }
+
+    try {
+        const { rules } = validateTransactionRules(JSON.parse(readFileSync(rulesPath, 'utf-8')));
+
+        logger.info({
+            event: 'transaction_rules.success',
+            ruleCount: rules.length,
+        }, 'Successfully loaded transaction rules');
+
+        return rules;
+    } catch (error) {
+        logger.error({
+            event: 'transaction_rules.failed',
+            path: rulesPath,
+            error: error instanceof Error ? error.message : String(error),
+        }, 'Failed to load transaction rules from config file, using no rules');
+        return [];
+    }
+}
+
 /**
  * Merge account mapping from config file and environment variables
  * Environment variables take precedence over config file
@@ -110,6 +140,7 @@ function mergeAccountMapping(
 const env = loadEnv();
 const fileMapping = loadAccountMapping();
 const accountMapping = mergeAccountMapping(fileMapping, env);
+const transactionRules = loadTransactionRules(env.TRANSACTION_RULES_PATH);
 
 /**
  * Application configuration
@@ -121,6 +152,8 @@ export const config = {
         env: env.NODE_ENV,
         isDevelopment: env.NODE_ENV === 'development',
         isProduction: env.NODE_ENV === 'production',
+        // Base URL links back to this service are built from (e.g. receipt links in notes)
+        publicUrl: env.PUBLIC_URL,
     },
 
     // Logging
@@ -128,16 +161,59 @@ export const config = {
         level: env.LOG_LEVEL,
     },
 
+    // AI Provider (model defaults to the provider's default)
+    ai: {
+        provider: env.AI_PROVIDER,
+        model: env.AI_MODEL,
+        temperature: env.AI_TEMPERATURE,
+        // Parse known bank notification formats without calling the AI
+        templateExtraction: env.TEMPLATE_EXTRACTION_ENABLED,
+        // Tried in order when the provider above fails (model defaults to the provider's default)
+        fallbacks: env.AI_FALLBACK_PROVIDERS,
+        circuitBreaker: {
+            failureThreshold: env.AI_CIRCUIT_FAILURE_THRESHOLD,
+            resetMs: env.AI_CIRCUIT_RESET_SECONDS * 1000,
+        },
+    },
+
     // API Keys
     gemini: {
-        apiKey: env.GEMINI_API_KEY,
+        apiKey: env.GEMINI_API_KEY ?? '',
+    },
+
+    // Any OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp server, ...)
+    openai: {
+        baseUrl: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+    },
+
+    // Budget Platform (only the selected provider's credentials are required)
+    budget: {
+        provider: env.BUDGET_PROVIDER,
+        mirrors: env.BUDGET_MIRRORS,
+        fanOutPolicy: env.BUDGET_FANOUT_POLICY,
+        csvPath: env.BUDGET_CSV_PATH,
     },
 
     lunchMoney: {
-        apiKey: env.LUNCH_MONEY_API_KEY,
+        apiKey: env.LUNCH_MONEY_API_KEY ?? '',
         baseUrl: 'https://dev.lunchmoney.app/v1',
     },
 
+    ynab: {
+        accessToken: env.YNAB_ACCESS_TOKEN ?? '',
+        budgetId: env.YNAB_BUDGET_ID,
+        baseUrl: env.YNAB_BASE_URL,
+    },
+
+    // Actual Budget (through an actual-http-api server)
+    actual: {
+        apiUrl: env.ACTUAL_API_URL ?? '',
+        apiKey: env.ACTUAL_API_KEY ?? '',
+        budgetSyncId: env.ACTUAL_BUDGET_SYNC_ID ?? '',
+        encryptionPassword: env.ACTUAL_BUDGET_PASSWORD,
+    },
+
     locationIQ: {
         apiKey: env.LOCATIONIQ_API_KEY,
         baseUrl: 'https://us1.locationiq.com/v1',
@@ -147,17 +223,25 @@ export const config = {
     telegram: {
         expenseBotToken: process.env.TELEGRAM_EXPENSE_BOT_TOKEN || '',
         expenseChatId: process.env.TELEGRAM_EXPENSE_CHAT_ID || '',
+        // Pending confirmations: where they are kept and how long until they expire
+        conversationStore: env.CONVERSATION_STORE,
+        conversationTtlMinutes: env.CONVERSATION_TTL_MINUTES,
     },
 
     // Security
     security: {
         webhookSecret: env.WEBHOOK_SECRET,
+        signatureToleranceSeconds: env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+        // Telegram secret_token falls back to the shared webhook secret
+        telegramSecretToken: env.TELEGRAM_WEBHOOK_SECRET || env.WEBHOOK_SECRET,
     },
 
     // Rate Limiting
     rateLimit: {
         windowMs: env.RATE_LIMIT_WINDOW_MS,
         maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
+        // Proxies (e.g. cloudflared) whose forwarding headers identify the client
+        trustedProxies: env.TRUSTED_PROXIES,
     },
 
     // Retry Configuration
@@ -166,9 +250,60 @@ export const config = {
         backoffMs: env.API_RETRY_BACKOFF_MS,
     },
 
+    // Storage (SQLite database for ledger and other local state)
+    storage: {
+        databasePath: env.DATABASE_PATH,
+    },
+
+    // Job Queue (webhook processing - retries use the retry limit and backoff above)
+    queue: {
+        concurrency: env.QUEUE_CONCURRENCY,
+        pollIntervalMs: env.QUEUE_POLL_INTERVAL_MS,
+        maxAttempts: env.API_RETRY_LIMIT + 1,
+        backoffMs: env.API_RETRY_BACKOFF_MS,
+    },
+
+    // Duplicate Detection (across notification, screenshot and Telegram channels)
+    deduplication: {
+        enabled: env.DUPLICATE_DETECTION_ENABLED,
+        windowMinutes: env.DUPLICATE_WINDOW_MINUTES,
+        merchantSimilarityThreshold: env.DUPLICATE_MERCHANT_SIMILARITY,
+    },
+
+    // Learning from corrections made in Telegram (applied to later extractions and given to the AI)
+    corrections: {
+        enabled: env.CORRECTION_LEARNING_ENABLED,
+        merchantSimilarityThreshold: env.CORRECTION_MERCHANT_SIMILARITY,
+        hintLimit: env.CORRECTION_HINT_LIMIT,
+    },
+
+    // Receipts (photographed receipts are split into one part per category, originals are archived)
+    receipts: {
+        splitByCategory: env.RECEIPT_SPLIT_ENABLED,
+        archiveEnabled: env.RECEIPT_ARCHIVE_ENABLED,
+        archivePath: env.RECEIPT_ARCHIVE_PATH,
+    },
+
+    // Screenshot preprocessing (downscaled and cropped before the AI sees them)
+    images: {
+        maxDimension: env.IMAGE_MAX_DIMENSION,
+        maxBytes: env.IMAGE_MAX_MB * 1024 * 1024,
+        cropSystemBars: env.IMAGE_CROP_SYSTEM_BARS,
+    },
+
+    // Budget Categories (mapping AI categories to budget category IDs)
+    categories: {
+        cacheTtlMinutes: env.CATEGORY_CACHE_TTL_MINUTES,
+    },
+
     // Account Mapping
     accountMapping,
 
+    // Transaction Rules (payee cleanup and categorisation before budget sync)
+    transactionRules,
+    // Time zone of the rules' time-of-day conditions
+    transactionRulesTimeZone: env.TRANSACTION_RULES_TIMEZONE,
+
     // Allowed banking apps (APK package names)
     allowedApps: [
         'com.maybank2u.life',
@@ -207,13 +342,40 @@ export function logConfigSummary() {
         server: {
             port: config.server.port,
             env: config.server.env,
+            publicUrl: config.server.publicUrl,
         },
         logging: {
             level: config.logging.level,
         },
+        ai: {
+            ...config.ai,
+            openaiBaseUrl: [config.ai.provider, ...config.ai.fallbacks.map(({ provider }) => provider)].includes('openai')
+                ? config.openai.baseUrl
+                : undefined,
+        },
+        budget: {
+            provider: config.budget.provider,
+            mirrors: config.budget.mirrors,
+            fanOutPolicy: config.budget.mirrors.length > 0 ? config.budget.fanOutPolicy : undefined,
+            ynabBudgetId: config.budget.provider === 'ynab' ? config.ynab.budgetId : undefined,
+            actualApiUrl: config.budget.provider === 'actual' ? config.actual.apiUrl : undefined,
+        },
+        security: {
+            webhookSignatureEnabled: !!config.security.webhookSecret,
+            telegramSecretTokenEnabled: !!config.security.telegramSecretToken,
+        },
         rateLimit: config.rateLimit,
         retry: config.retry,
+        storage: config.storage,
+        queue: config.queue,
+        deduplication: config.deduplication,
+        corrections: config.corrections,
+        receipts: config.receipts,
+        images: config.images,
+        categories: config.categories,
         accountMapping: Object.keys(config.accountMapping),
+        transactionRules: config.transactionRules.map((rule) => rule.name),
+        transactionRulesTimeZone: config.transactionRulesTimeZone,
         allowedApps: config.allowedApps,
     }, 'Configuration loaded');
 }
@@ -0,0 +1,26 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Open (or create) a SQLite database
+ *
+ * Creates the parent directory if needed and enables WAL mode so the
+ * HTTP handlers and background workers can read while another write is
+ * in progress. Uses strict mode so named parameters can be bound without
+ * the `$` prefix.
+ *
+ * @param path - Database file path, or ':memory:' for an in-memory database
+ * @returns Open database handle
+ */
+export function openDatabase(path: string): Database {
+    if (path !== ':memory:') {
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    const db = new Database(path, { create: true, strict: true });
+    db.exec('PRAGMA journal_mode = WAL;');
+    db.exec('PRAGMA busy_timeout = 5000;');
+
+    return db;
+}
@@ -0,0 +1,227 @@
+import type { Context, Next } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { logger } from '@/shared/utils/logger';
+import { getWideEvent } from './wide-event.middleware';
+
+/**
+ * Rate limiter options
+ */
+export interface RateLimitOptions {
+    /** Window length in milliseconds */
+    windowMs: number;
+    /** Maximum requests allowed per key within the window */
+    maxRequests: number;
+    /** Addresses of proxies whose forwarding headers are trusted */
+    trustedProxies?: ReadonlyArray<string>;
+    /** Clock override (for tests) */
+    now?: () => number;
+}
+
+/**
+ * Result of a rate limit check
+ */
+export interface RateLimitDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Seconds until the next request would be allowed (only when throttled) */
+    retryAfterSeconds?: number;
+}
+
+/**
+ * Sliding Window Rate Limiter
+ *
+ * Keeps a log of request timestamps per key and counts only those inside
+ * the trailing window, so bursts at a window boundary can't double the limit
+ * the way a fixed-window counter would.
+ *
+ * In-memory only - each instance keeps its own counters.
+ */
+export class SlidingWindowRateLimiter {
+    private hits = new Map<string, number[]>();
+    private checksSinceSweep = 0;
+
+    constructor(
+        private readonly windowMs: number,
+        private readonly maxRequests: number
+    ) { }
+
+    /**
+     * Record a request for a key and decide whether it is allowed
+     */
+    check(key: string, now: number = Date.now()): RateLimitDecision {
+        const windowStart = now - this.windowMs;
+        const timestamps = (this.hits.get(key) ?? []).filter((t) => t > windowStart);
+
+        this.sweepIfNeeded(now);
+
+        if (timestamps.length >= this.maxRequests) {
+            this.hits.set(key, timestamps);
+            const oldest = timestamps[0] ?? now;
+
+            return {
+                allowed: false,
+                limit: this.maxRequests,
+                remaining: 0,
+                retryAfterSeconds: Math.max(1, Math.ceil((oldest + this.windowMs - now) / 1000)),
+            };
+        }
+
+        timestamps.push(now);
+        this.hits.set(key, timestamps);
+
+        return {
+            allowed: true,
+            limit: this.maxRequests,
+            remaining: this.maxRequests - timestamps.length,
+        };
+    }
+
+    /**
+     * Number of keys currently tracked (for monitoring)
+     */
+    getKeyCount(): number {
+        return this.hits.size;
+    }
+
+    /**
+     * Drop keys whose timestamps have all expired
+     * Runs every 1000 checks to keep memory bounded without a timer
+     */
+    private sweepIfNeeded(now: number): void {
+        this.checksSinceSweep++;
+        if (this.checksSinceSweep < 1000) {
+            return;
+        }
+        this.checksSinceSweep = 0;
+
+        const windowStart = now - this.windowMs;
+        for (const [key, timestamps] of this.hits.entries()) {
+            if (timestamps.every((t) => t <= windowStart)) {
+                this.hits.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Address of the peer the request came in on
+ *
+ * Undefined when the app isn't served by Bun (e.g. `app.request` in tests).
+ */
+function getConnectionAddress(c: Context): string | undefined {
+    try {
+        // IPv4 clients of a dual-stack server show up as IPv4-mapped IPv6
+        return getConnInfo(c).remote.address?.replace(/^::ffff:/, '');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Resolve the client identity for rate limiting
+ *
+ * Anyone can send forwarding headers, so they're only read when the
+ * connection comes from a trusted proxy (e.g. cloudflared on localhost).
+ * Behind one, prefer the connecting IP Cloudflare reports, then the last
+ * X-Forwarded-For hop the proxies didn't add themselves.
+ *
+ * @param trustedProxies - Addresses of proxies whose forwarding headers are trusted
+ */
+export function getClientIdentity(c: Context, trustedProxies: ReadonlyArray<string> = []): string {
+    const address = getConnectionAddress(c);
+
+    if (!address || !trustedProxies.includes(address)) {
+        return address ?? 'unknown';
+    }
+
+    const cfIp = c.req.header('cf-connecting-ip');
+    if (cfIp) {
+        return cfIp;
+    }
+
+    const forwardedFor = c.req.header('x-forwarded-for');
+    if (forwardedFor) {
+        const client = forwardedFor
+            .split(',')
+            .map((hop) => hop.trim())
+            .filter(Boolean)
+            .reverse()
+            .find((hop) => !trustedProxies.includes(hop));
+        if (client) {
+            return client;
+        }
+    }
+
+    return c.req.header('x-real-ip') || address;
+}
+
+/**
+ * Rate Limit Middleware
+ *
+ * Applies a sliding-window limit keyed by route and client identity
+ * (see getClientIdentity).
+ * Throttled requests get 429 with a `Retry-After` header, and the decision
+ * is recorded on the wide event.
+ *
+ * Usage:
+ * ```typescript
+ * app.use('/webhook/*', rateLimitMiddleware({ windowMs: 60000, maxRequests: 100 }));
+ * ```
+ */
+export function rateLimitMiddleware(options: RateLimitOptions) {
+    const limiter = new SlidingWindowRateLimiter(options.windowMs, options.maxRequests);
+    const now = options.now ?? Date.now;
+    const trustedProxies = options.trustedProxies ?? [];
+
+    return async (c: Context, next: Next) => {
+        const key = `${c.req.method} ${c.req.path}|${getClientIdentity(c, trustedProxies)}`;
+        const decision = limiter.check(key, now());
+
+        const wideEvent = getWideEvent(c);
+        if (wideEvent) {
+            wideEvent.rate_limit = {
+                key,
+                limit: decision.limit,
+                remaining: decision.remaining,
+                throttled: !decision.allowed,
+            };
+        }
+
+        c.header('X-RateLimit-Limit', String(decision.limit));
+        c.header('X-RateLimit-Remaining', String(decision.remaining));
+
+        if (!decision.allowed) {
+            const retryAfter = decision.retryAfterSeconds ?? 1;
+
+            if (wideEvent) {
+                wideEvent.outcome = 'rejected';
+                wideEvent.rate_limit!.retry_after_s = retryAfter;
+                wideEvent.error = {
+                    type: 'RateLimitError',
+                    message: `Rate limit of ${decision.limit} requests per ${options.windowMs}ms exceeded`,
+                    retriable: true,
+                    step: 'rate_limit',
+                };
+            }
+
+            logger.warn({
+                event: 'rate_limit.throttled',
+                key,
+                limit: decision.limit,
+                retryAfter,
+            }, 'Request throttled by rate limiter');
+
+            c.header('Retry-After', String(retryAfter));
+            return c.json(
+                {
+                    success: false,
+                    error: 'Too many requests',
+                },
+                429
+            );
+        }
+
+        await next();
+    };
+}
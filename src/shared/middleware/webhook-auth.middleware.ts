@@ -0,0 +1,278 @@
+import type { Context, Next } from 'hono';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { logger } from '@/shared/utils/logger';
+import { getWideEvent } from './wide-event.middleware';
+
+/**
+ * Header carrying the HMAC-SHA256 signature (hex, optionally prefixed with "sha256=")
+ */
+export const SIGNATURE_HEADER = 'x-signature';
+
+/**
+ * Header carrying the Unix timestamp (seconds or milliseconds) the signature was created at
+ */
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+/**
+ * Header Telegram sends with the secret_token configured via setWebhook
+ */
+export const TELEGRAM_SECRET_TOKEN_HEADER = 'x-telegram-bot-api-secret-token';
+
+/**
+ * Query parameter carrying the signature of a signed link
+ */
+export const LINK_SIGNATURE_PARAM = 'sig';
+
+/**
+ * Length of a link signature (hex chars) - shortened to keep links readable in notes
+ */
+const LINK_SIGNATURE_LENGTH = 32;
+
+/**
+ * Authentication methods recorded on the wide event
+ */
+type AuthMethod = 'hmac' | 'telegram_secret_token' | 'signed_link';
+
+/**
+ * Options for HMAC signature verification
+ */
+export interface WebhookSignatureOptions {
+    /** Maximum allowed clock skew between signer and server (default: 300 seconds) */
+    toleranceSeconds?: number;
+    /** Clock override (for tests) */
+    now?: () => number;
+}
+
+/**
+ * Compute the webhook signature for a request
+ *
+ * The signed message is `${timestamp}.${rawBody}` so a captured request
+ * cannot be replayed with a fresh timestamp.
+ *
+ * @param secret - Shared webhook secret
+ * @param timestamp - Timestamp exactly as sent in the timestamp header
+ * @param rawBody - Raw request body
+ * @returns Hex-encoded HMAC-SHA256 signature
+ */
+export function computeWebhookSignature(secret: string, timestamp: string, rawBody: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Compute the signature of a link to a protected resource
+ *
+ * Links are opened in a browser (e.g. from transaction notes), so the
+ * signature goes in the URL instead of a header. It signs only the path,
+ * which makes a link valid until the secret changes.
+ *
+ * @param secret - Shared webhook secret
+ * @param path - Request path, e.g. `/receipts/<id>`
+ * @returns Hex-encoded, truncated HMAC-SHA256 signature
+ */
+export function computeLinkSignature(secret: string, path: string): string {
+    return createHmac('sha256', secret).update(`link.${path}`).digest('hex').slice(0, LINK_SIGNATURE_LENGTH);
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+
+    if (bufferA.length !== bufferB.length) {
+        return false;
+    }
+
+    return timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Parse a timestamp header into milliseconds
+ * Accepts seconds (10 digits) or milliseconds (13 digits)
+ */
+function parseTimestampMs(timestamp: string): number | undefined {
+    if (!/^\d{10,13}$/.test(timestamp)) {
+        return undefined;
+    }
+
+    const value = parseInt(timestamp, 10);
+    return timestamp.length <= 10 ? value * 1000 : value;
+}
+
+/**
+ * Reject an unauthenticated request and record the outcome on the wide event
+ */
+function reject(
+    c: Context,
+    method: AuthMethod,
+    reason: string,
+    body: Record<string, unknown>
+) {
+    const wideEvent = getWideEvent(c);
+
+    if (wideEvent) {
+        wideEvent.outcome = 'rejected';
+        wideEvent.auth = {
+            method,
+            verified: false,
+            failure_reason: reason,
+        };
+        wideEvent.error = {
+            type: 'AuthenticationError',
+            message: reason,
+            retriable: false,
+            step: 'authentication',
+        };
+    }
+
+    logger.warn({
+        event: 'webhook.auth.rejected',
+        method,
+        reason,
+        path: c.req.path,
+    }, 'Rejected unauthenticated webhook request');
+
+    return c.json(body, 401);
+}
+
+/**
+ * Mark a request as authenticated on the wide event
+ */
+function accept(c: Context, method: AuthMethod) {
+    const wideEvent = getWideEvent(c);
+
+    if (wideEvent) {
+        wideEvent.auth = {
+            method,
+            verified: true,
+        };
+    }
+}
+
+/**
+ * Webhook HMAC Signature Middleware
+ *
+ * Verifies that the request was signed with the shared WEBHOOK_SECRET:
+ * - `X-Signature-Timestamp` must be within the tolerance window (replay protection)
+ * - `X-Signature` must equal HMAC-SHA256(secret, `${timestamp}.${rawBody}`)
+ *
+ * When no secret is configured the middleware is a pass-through, so local
+ * development keeps working without signing requests.
+ *
+ * @param secret - Shared webhook secret (verification disabled if empty)
+ * @param options - Verification options
+ */
+export function webhookSignatureMiddleware(
+    secret: string | undefined,
+    options: WebhookSignatureOptions = {}
+) {
+    const toleranceMs = (options.toleranceSeconds ?? 300) * 1000;
+    const now = options.now ?? Date.now;
+
+    return async (c: Context, next: Next) => {
+        if (!secret) {
+            await next();
+            return;
+        }
+
+        const signatureHeader = c.req.header(SIGNATURE_HEADER);
+        const timestamp = c.req.header(SIGNATURE_TIMESTAMP_HEADER);
+
+        if (!signatureHeader || !timestamp) {
+            return reject(c, 'hmac', 'Missing signature headers', {
+                success: false,
+                error: 'Missing webhook signature',
+            });
+        }
+
+        const timestampMs = parseTimestampMs(timestamp);
+        if (timestampMs === undefined || Math.abs(now() - timestampMs) > toleranceMs) {
+            return reject(c, 'hmac', 'Signature timestamp outside tolerance window', {
+                success: false,
+                error: 'Expired webhook signature',
+            });
+        }
+
+        // Read raw body (Hono caches it, so handlers can still call c.req.json())
+        const rawBody = await c.req.text();
+        const expected = computeWebhookSignature(secret, timestamp, rawBody);
+        const provided = signatureHeader.replace(/^sha256=/, '').toLowerCase();
+
+        if (!safeEqual(provided, expected)) {
+            return reject(c, 'hmac', 'Signature mismatch', {
+                success: false,
+                error: 'Invalid webhook signature',
+            });
+        }
+
+        accept(c, 'hmac');
+        await next();
+    };
+}
+
+/**
+ * Telegram Secret Token Middleware
+ *
+ * Verifies the `X-Telegram-Bot-Api-Secret-Token` header that Telegram sends
+ * when the webhook was registered with a `secret_token`.
+ *
+ * @param secretToken - Expected secret token (verification disabled if empty)
+ */
+export function telegramSecretTokenMiddleware(secretToken: string | undefined) {
+    return async (c: Context, next: Next) => {
+        if (!secretToken) {
+            await next();
+            return;
+        }
+
+        const provided = c.req.header(TELEGRAM_SECRET_TOKEN_HEADER);
+
+        if (!provided || !safeEqual(provided, secretToken)) {
+            return reject(c, 'telegram_secret_token', provided ? 'Secret token mismatch' : 'Missing secret token', {
+                ok: false,
+                error: 'Unauthorized',
+            });
+        }
+
+        accept(c, 'telegram_secret_token');
+        await next();
+    };
+}
+
+/**
+ * Signed Link Middleware
+ *
+ * Verifies the `sig` query parameter of a link created with
+ * computeLinkSignature. A request signed like a webhook (`X-Signature`
+ * headers) is accepted too.
+ *
+ * Unlike the webhook middlewares there is no pass-through: signed links
+ * guard data that must not be public, so a secret is required.
+ *
+ * @param secret - Shared webhook secret
+ * @param options - Verification options for header-signed requests
+ */
+export function signedLinkMiddleware(
+    secret: string,
+    options: WebhookSignatureOptions = {}
+) {
+    const verifyHeaders = webhookSignatureMiddleware(secret, options);
+
+    return async (c: Context, next: Next) => {
+        if (c.req.header(SIGNATURE_HEADER)) {
+            return verifyHeaders(c, next);
+        }
+
+        const provided = c.req.query(LINK_SIGNATURE_PARAM);
+        if (!provided || !safeEqual(provided.toLowerCase(), computeLinkSignature(secret, c.req.path))) {
+            return reject(c, 'signed_link', provided ? 'Link signature mismatch' : 'Missing link signature', {
+                success: false,
+                error: 'Invalid link signature',
+            });
+        }
+
+        accept(c, 'signed_link');
+        await next();
+    };
+}
@@ -125,3 +125,41 @@ export function getWideEvent(c: Context): WideEvent | undefined {
         return undefined;
     }
 }
+
+/**
+ * Create a wide event for work that runs outside an HTTP request (e.g. queued jobs)
+ *
+ * @param job - Job context
+ * @param requestId - Request ID to correlate with (defaults to a new ID)
+ */
+export function createJobWideEvent(job: NonNullable<WideEvent['job']>, requestId?: string): WideEvent {
+    const wideEvent: WideEvent = {
+        timestamp: new Date().toISOString(),
+        request_id: requestId ?? crypto.randomUUID(),
+        service: process.env.OTEL_SERVICE_NAME || 'duitmyself-app',
+        version: process.env.npm_package_version || '1.0.0',
+        job,
+        outcome: 'success', // Default, will be updated
+        duration_ms: 0, // Set when emitted
+    };
+
+    if (process.env.DEPLOYMENT_ID) {
+        wideEvent.deployment_id = process.env.DEPLOYMENT_ID;
+    }
+    if (process.env.REGION) {
+        wideEvent.region = process.env.REGION;
+    }
+
+    return wideEvent;
+}
+
+/**
+ * Emit a job wide event as its single canonical log line
+ *
+ * @param wideEvent - Wide event created by createJobWideEvent
+ * @param startTime - Job start time (Date.now())
+ */
+export function emitJobWideEvent(wideEvent: WideEvent, startTime: number): void {
+    wideEvent.duration_ms = Date.now() - startTime;
+    logger.info(wideEvent, `job ${wideEvent.job?.name} - ${wideEvent.outcome}`);
+}
@@ -0,0 +1,89 @@
+/**
+ * Job status
+ * - pending: waiting to run (new, or waiting for its retry backoff)
+ * - running: claimed by a worker
+ * - dead: exhausted its attempts or failed permanently (dead-letter)
+ *
+ * Completed jobs are removed from the queue.
+ */
+export type JobStatus = 'pending' | 'running' | 'dead';
+
+/**
+ * A queued unit of background work
+ */
+export interface Job<T = unknown> {
+    /** Job ID */
+    id: string;
+    /** Job type (selects the handler) */
+    type: string;
+    /** Job payload */
+    payload: T;
+    /** Current status */
+    status: JobStatus;
+    /** Attempts made so far (including the current one while running) */
+    attempts: number;
+    /** Maximum attempts before the job is dead-lettered */
+    maxAttempts: number;
+    /** Earliest time the job may run (ISO 8601) */
+    runAt: string;
+    /** Error message from the last failed attempt */
+    lastError?: string | undefined;
+    /** Created at (ISO 8601) */
+    createdAt: string;
+}
+
+/**
+ * Job handler - throw to fail the attempt
+ */
+export type JobHandler<T = unknown> = (job: Job<T>) => Promise<void>;
+
+/**
+ * Job Queue Interface
+ *
+ * Durable background work queue with retries and a dead-letter state.
+ *
+ * Implementations: SQLite (bun:sqlite)
+ */
+export interface JobQueue {
+    /**
+     * Add a job to the queue
+     *
+     * @returns Job ID
+     */
+    enqueue<T>(type: string, payload: T, options?: { maxAttempts?: number }): string;
+
+    /**
+     * Register the handler for a job type
+     */
+    registerHandler<T>(type: string, handler: JobHandler<T>): void;
+
+    /**
+     * Start the workers, resuming jobs that were in flight when the process stopped
+     */
+    start(): void;
+
+    /**
+     * Stop the workers and wait for running jobs to finish
+     */
+    stop(): Promise<void>;
+
+    /**
+     * Get job counts by status (for monitoring)
+     */
+    getStats(): Record<JobStatus, number>;
+}
+
+/**
+ * Permanent Job Error
+ *
+ * Throw from a handler to dead-letter the job immediately instead of retrying.
+ */
+export class PermanentJobError extends Error {
+    constructor(
+        message: string,
+        public readonly cause?: Error
+    ) {
+        super(message);
+        this.name = 'PermanentJobError';
+    }
+}
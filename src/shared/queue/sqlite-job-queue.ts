@@ -0,0 +1,283 @@
+import type { Database } from 'bun:sqlite';
+import type { Job, JobHandler, JobQueue, JobStatus } from './job-queue.interface';
+import { PermanentJobError } from './job-queue.interface';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Row shape of the jobs table
+ */
+interface JobRow {
+    id: string;
+    type: string;
+    payload: string;
+    status: string;
+    attempts: number;
+    max_attempts: number;
+    run_at: number;
+    last_error: string | null;
+    created_at: string;
+}
+
+/**
+ * SQLite job queue options
+ */
+export interface SqliteJobQueueOptions {
+    /** Maximum jobs running at once */
+    concurrency: number;
+    /** Default maximum attempts per job */
+    maxAttempts: number;
+    /** Base backoff - attempt n waits backoffMs * 2^(n-1) before retrying */
+    backoffMs: number;
+    /** How often idle workers poll for due jobs */
+    pollIntervalMs: number;
+    /** Clock override (for tests) */
+    now?: () => number;
+}
+
+/**
+ * SQLite Job Queue
+ *
+ * Persists jobs in a `jobs` table so work survives crashes and deploys.
+ * Workers poll for due jobs, retry failures with exponential backoff and
+ * move jobs that exhaust their attempts to the `dead` (dead-letter) state.
+ */
+export class SqliteJobQueue implements JobQueue {
+    private handlers = new Map<string, JobHandler<unknown>>();
+    private running = new Map<string, Promise<void>>();
+    private timer: ReturnType<typeof setInterval> | undefined;
+    private readonly now: () => number;
+
+    constructor(
+        private readonly db: Database,
+        private readonly options: SqliteJobQueueOptions
+    ) {
+        this.now = options.now ?? Date.now;
+        this.migrate();
+    }
+
+    /**
+     * Create tables and indexes if they don't exist
+     */
+    private migrate(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS jobs (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                max_attempts INTEGER NOT NULL,
+                run_at INTEGER NOT NULL,
+                last_error TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs (status, run_at);
+        `);
+    }
+
+    enqueue<T>(type: string, payload: T, options?: { maxAttempts?: number }): string {
+        const id = crypto.randomUUID();
+        const now = new Date(this.now()).toISOString();
+
+        this.db.query(`
+            INSERT INTO jobs (id, type, payload, status, attempts, max_attempts, run_at, created_at, updated_at)
+            VALUES ($id, $type, $payload, 'pending', 0, $maxAttempts, $runAt, $now, $now)
+        `).run({
+            id,
+            type,
+            payload: JSON.stringify(payload),
+            maxAttempts: options?.maxAttempts ?? this.options.maxAttempts,
+            runAt: this.now(),
+            now,
+        });
+
+        logger.debug({
+            event: 'queue.job.enqueued',
+            jobId: id,
+            type,
+        }, 'Job enqueued');
+
+        // Pick it up right away instead of waiting for the next poll
+        if (this.timer) {
+            void this.tick();
+        }
+
+        return id;
+    }
+
+    registerHandler<T>(type: string, handler: JobHandler<T>): void {
+        this.handlers.set(type, handler as JobHandler<unknown>);
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        // Jobs marked running belonged to a process that died mid-way - run them again
+        const resumed = this.db.query(`
+            UPDATE jobs SET status = 'pending', run_at = $now, updated_at = $updatedAt WHERE status = 'running'
+        `).run({
+            now: this.now(),
+            updatedAt: new Date(this.now()).toISOString(),
+        }).changes;
+
+        logger.info({
+            event: 'queue.started',
+            resumedJobs: resumed,
+            concurrency: this.options.concurrency,
+            stats: this.getStats(),
+        }, `Job queue started (${resumed} in-flight job(s) resumed)`);
+
+        this.timer = setInterval(() => {
+            void this.tick();
+        }, this.options.pollIntervalMs);
+
+        void this.tick();
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+
+        await Promise.allSettled(this.running.values());
+    }
+
+    getStats(): Record<JobStatus, number> {
+        const rows = this.db
+            .query<{ status: string; count: number }, []>('SELECT status, COUNT(*) AS count FROM jobs GROUP BY status')
+            .all();
+
+        const stats: Record<JobStatus, number> = { pending: 0, running: 0, dead: 0 };
+        for (const row of rows) {
+            stats[row.status as JobStatus] = row.count;
+        }
+        return stats;
+    }
+
+    /**
+     * Claim due jobs up to the free worker slots and run them
+     *
+     * Resolves once the jobs claimed by this tick have finished.
+     */
+    async tick(): Promise<void> {
+        const freeSlots = this.options.concurrency - this.running.size;
+        if (freeSlots <= 0) {
+            return;
+        }
+
+        const jobs = this.claim(freeSlots);
+
+        await Promise.all(jobs.map((job) => {
+            const execution = this.execute(job).finally(() => {
+                this.running.delete(job.id);
+            });
+            this.running.set(job.id, execution);
+            return execution;
+        }));
+    }
+
+    /**
+     * Atomically mark due pending jobs as running
+     */
+    private claim(limit: number): Job[] {
+        return this.db.transaction(() => {
+            const rows = this.db.query<JobRow, { now: number; limit: number }>(`
+                SELECT * FROM jobs
+                WHERE status = 'pending' AND run_at <= $now
+                ORDER BY run_at ASC
+                LIMIT $limit
+            `).all({ now: this.now(), limit });
+
+            const updatedAt = new Date(this.now()).toISOString();
+            for (const row of rows) {
+                this.db.query(`
+                    UPDATE jobs SET status = 'running', attempts = attempts + 1, updated_at = $updatedAt WHERE id = $id
+                `).run({ id: row.id, updatedAt });
+                row.attempts += 1;
+                row.status = 'running';
+            }
+
+            return rows.map((row) => this.toJob(row));
+        })();
+    }
+
+    /**
+     * Run a claimed job and record its outcome
+     */
+    private async execute(job: Job): Promise<void> {
+        const handler = this.handlers.get(job.type);
+
+        try {
+            if (!handler) {
+                throw new PermanentJobError(`No handler registered for job type '${job.type}'`);
+            }
+
+            await handler(job);
+
+            // Completed jobs are not kept - the transaction ledger is the durable record
+            this.db.query('DELETE FROM jobs WHERE id = $id').run({ id: job.id });
+
+            logger.debug({
+                event: 'queue.job.completed',
+                jobId: job.id,
+                type: job.type,
+                attempts: job.attempts,
+            }, 'Job completed');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const exhausted = job.attempts >= job.maxAttempts || error instanceof PermanentJobError;
+            const updatedAt = new Date(this.now()).toISOString();
+
+            if (exhausted) {
+                this.db.query(`
+                    UPDATE jobs SET status = 'dead', last_error = $error, updated_at = $updatedAt WHERE id = $id
+                `).run({ id: job.id, error: message, updatedAt });
+
+                logger.error({
+                    event: 'queue.job.dead_lettered',
+                    jobId: job.id,
+                    type: job.type,
+                    attempts: job.attempts,
+                    error: message,
+                }, 'Job moved to dead-letter state');
+                return;
+            }
+
+            const delayMs = this.options.backoffMs * 2 ** (job.attempts - 1);
+            this.db.query(`
+                UPDATE jobs SET status = 'pending', run_at = $runAt, last_error = $error, updated_at = $updatedAt WHERE id = $id
+            `).run({ id: job.id, runAt: this.now() + delayMs, error: message, updatedAt });
+
+            logger.warn({
+                event: 'queue.job.retry_scheduled',
+                jobId: job.id,
+                type: job.type,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                delayMs,
+                error: message,
+            }, 'Job failed, retry scheduled');
+        }
+    }
+
+    /**
+     * Convert a database row to a job
+     */
+    private toJob(row: JobRow): Job {
+        return {
+            id: row.id,
+            type: row.type,
+            payload: JSON.parse(row.payload) as unknown,
+            status: row.status as JobStatus,
+            attempts: row.attempts,
+            maxAttempts: row.max_attempts,
+            runAt: new Date(row.run_at).toISOString(),
+            lastError: row.last_error ?? undefined,
+            createdAt: row.created_at,
+        };
+    }
+}
@@ -57,12 +57,69 @@ export interface ScreenshotWebhookPayload {
 export interface UserInput {
     /** User's quick note for payee (will be normalized by AI) */
     payee?: string | undefined;
-    /** Split transaction 50/50 via Lunch Money API (default: false) */
-    split?: boolean | undefined;
+    /**
+     * Split the transaction (default: false)
+     * - true: 50/50
+     * - a split rule
+     * - split shorthand text, e.g. "3", "60/40", "12.50 Food, 13 Transport - taxi"
+     */
+    split?: boolean | SplitRule | string | undefined;
+    /**
+     * People sharing the bill - they owe the split parts after your own (first) part.
+     * Without a split, the bill is split evenly between you and them.
+     */
+    participants?: string[] | undefined;
     /** Additional remarks for AI context or transaction notes */
     remarks?: string | undefined;
 }
 
+/**
+ * Category and notes for one part of a split
+ */
+export interface SplitPartDetails {
+    /** Category name (defaults to the transaction's category) */
+    category?: string | undefined;
+    /** Notes for this part */
+    notes?: string | undefined;
+    /** Person who owes this part (parts without one are yours) */
+    participant?: string | undefined;
+}
+
+/**
+ * How to split a transaction
+ * - even: into N equal parts
+ * - percent: by percentages adding up to 100
+ * - amount: by explicit amounts adding up to the transaction amount
+ */
+export type SplitRule =
+    | { type: 'even'; ways: number; parts?: SplitPartDetails[] | undefined }
+    | { type: 'percent'; parts: Array<SplitPartDetails & { percent: number }> }
+    | { type: 'amount'; parts: Array<SplitPartDetails & { amount: number }> };
+
+/**
+ * One part of a split transaction, with its amount worked out
+ */
+export interface SplitPart extends SplitPartDetails {
+    /** Part amount (same sign as the transaction amount) */
+    amount: number;
+    /** Budget category ID */
+    category_id?: string | undefined;
+}
+
+/**
+ * One line of an itemised receipt
+ */
+export interface ReceiptLineItem {
+    /** Item name as printed */
+    name: string;
+    /** Quantity (default: 1) */
+    quantity?: number | undefined;
+    /** Line total (quantity × unit price) before tax and service charge; negative for discounts */
+    price: number;
+    /** Category of the item */
+    category?: string | undefined;
+}
+
 /**
  * Extracted transaction data from AI
  */
@@ -87,6 +144,14 @@ export interface ExtractedTransaction {
     notes?: string | undefined;
     /** Transaction date extracted from screenshot (ISO 8601) - only for screenshot webhooks */
     transaction_date?: string | undefined;
+    /** Items of a photographed receipt */
+    line_items?: ReceiptLineItem[] | undefined;
+    /** Tax total of a receipt (e.g. SST) */
+    tax?: number | undefined;
+    /** Service charge total of a receipt */
+    service_charge?: number | undefined;
+    /** Model that extracted it (set when an adapter picks between several models) */
+    model?: string | undefined;
 }
 
 /**
@@ -103,8 +168,12 @@ export interface Transaction {
     account_id: string;
     /** Transaction category (optional) */
     category?: string | undefined;
+    /** Budget platform category ID (resolved from category; unset lets the platform auto-categorize) */
+    category_id?: string | undefined;
     /** Additional notes */
     notes?: string | undefined;
+    /** Bank reference number (used to skip re-imports where the platform supports it) */
+    reference?: string | undefined;
     /** Transaction status */
     status?: 'cleared' | 'uncleared' | 'pending';
     /** Currency code (default: MYR) */
@@ -123,6 +192,8 @@ export interface TransactionResult {
     transactionId?: string | undefined;
     /** Error message if failed */
     error?: string | undefined;
+    /** Whether a failure is transient and worth retrying (e.g. API outage) */
+    retriable?: boolean | undefined;
     /** Additional metadata */
     metadata?: Record<string, unknown>;
 }
@@ -142,6 +213,48 @@ export interface AccountMapping {
     [appName: string]: string; // app name -> account ID
 }
 
+/**
+ * Conditions of a transaction rule (all given conditions must match)
+ */
+export interface TransactionRuleMatch {
+    /** App package names */
+    apps?: string[] | undefined;
+    /** Merchant regex (case-insensitive) */
+    merchant?: string | undefined;
+    /** Amount range, inclusive (compared without sign) */
+    amount?: { min?: number | undefined; max?: number | undefined } | undefined;
+    type?: TransactionType | undefined;
+    /** Time of day as HH:MM, inclusive; a range past midnight (22:00-06:00) wraps */
+    time?: { from: string; to: string } | undefined;
+}
+
+/**
+ * Changes a transaction rule makes
+ */
+export interface TransactionRuleActions {
+    /** New payee name */
+    payee?: string | undefined;
+    category?: string | undefined;
+    /** Tags to add */
+    tags?: string[] | undefined;
+    /** Budget account ID to use instead of the app's mapped account */
+    account?: string | undefined;
+    /** Create the transaction as cleared */
+    cleared?: boolean | undefined;
+    /** Don't create the transaction at all */
+    drop?: boolean | undefined;
+}
+
+/**
+ * Transaction rule (config/transaction-rules.json)
+ */
+export interface TransactionRule {
+    /** Name shown in logs */
+    name: string;
+    match: TransactionRuleMatch;
+    actions: TransactionRuleActions;
+}
+
 /**
  * Log context for structured logging
  */
@@ -186,6 +299,13 @@ export interface HealthCheckResponse {
         budget: 'connected' | 'disconnected' | 'error';
         geocoding: 'connected' | 'disconnected' | 'error';
     };
+    /** Per-provider status when an AI fallback chain is configured */
+    aiProviders?: Array<{
+        name: string;
+        model: string;
+        status: 'connected' | 'error';
+        circuit: 'closed' | 'open' | 'half_open';
+    }> | undefined;
 }
 
 /**
@@ -35,11 +35,14 @@ export interface WideEvent {
         user_agent?: string;
     };
 
-    // ===== Job Context (for cron jobs) =====
+    // ===== Job Context (for cron and queued jobs) =====
     job?: {
         name: string;
-        trigger: 'cron' | 'manual' | 'api';
+        trigger: 'cron' | 'manual' | 'api' | 'queue';
         schedule?: string;
+        id?: string;
+        attempt?: number;
+        max_attempts?: number;
     };
 
     // ===== Outcome =====
@@ -73,6 +76,28 @@ export interface WideEvent {
         model?: string;
     };
 
+    // ===== Image Context (screenshot preprocessing) =====
+    image?: {
+        format: string;
+        original_bytes: number;
+        bytes: number;
+        original_width: number;
+        original_height: number;
+        width: number;
+        height: number;
+        cropped: boolean;
+        resized: boolean;
+        preprocessing_ms: number;
+    };
+
+    // ===== Batch Context (several transactions in one notification or screenshot) =====
+    batch?: {
+        size: number;
+        created: number;
+        failed: number;
+        transaction_ids: string[];
+    };
+
     // ===== Location Context =====
     location?: {
         latitude?: number;
@@ -109,6 +134,14 @@ export interface WideEvent {
             success: boolean;
             retry_count: number;
         };
+        /** Per-backend outcome when fanning out to several budget backends */
+        budget_backends?: Record<string, {
+            latency_ms: number;
+            success: boolean;
+            retry_count: number;
+            transaction_id?: string;
+            error?: string;
+        }>;
     };
 
     // ===== CC Statements Context =====
@@ -138,6 +171,42 @@ export interface WideEvent {
         app_package_name?: string; // For screenshot webhooks
     };
 
+    // ===== Authentication Context =====
+    auth?: {
+        method: 'hmac' | 'telegram_secret_token' | 'signed_link';
+        verified: boolean;
+        failure_reason?: string;
+    };
+
+    // ===== Rate Limiting Context =====
+    rate_limit?: {
+        key: string;
+        limit: number;
+        remaining: number;
+        throttled: boolean;
+        retry_after_s?: number;
+    };
+
+    // ===== Duplicate Detection Context =====
+    deduplication?: {
+        result: 'unique' | 'duplicate' | 'possible_duplicate';
+        matched_transaction_id?: string;
+        matched_source?: string;
+        merchant_similarity?: number;
+    };
+
+    // ===== Learned Correction Context =====
+    correction?: {
+        merchant: string;
+        similarity: number;
+    };
+
+    // ===== Transaction Rules Context =====
+    rules?: {
+        matched: string[];
+        dropped: boolean;
+    };
+
     // ===== Feature Flags (future) =====
     feature_flags?: Record<string, boolean>;
 }
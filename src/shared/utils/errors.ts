@@ -0,0 +1,70 @@
+/**
+ * HTTP statuses worth retrying: timeout, rate limit, server errors
+ */
+const TRANSIENT_STATUS_CODES = new Set([408, 429]);
+
+/**
+ * Network error codes (Node and Bun) worth retrying
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'EPIPE',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'ConnectionRefused',
+    'ConnectionClosed',
+    'FailedToOpenSocket',
+]);
+
+/**
+ * Error fields that tell a transient failure apart
+ *
+ * `statusCode` is set by our API errors, `status` by SDK errors and
+ * `response.status` by ky's HTTPError.
+ */
+interface ErrorDetails {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown } | undefined;
+    cause?: unknown;
+}
+
+/**
+ * Check whether a failure is transient and worth retrying
+ *
+ * Transient failures are network errors, timeouts, rate limits (429) and
+ * server errors (5xx). Anything else - invalid input, a 4xx, a split that
+ * doesn't fit - would fail the same way again. Wrapped errors are judged by
+ * the first error in the `cause` chain that carries a status or error code.
+ */
+export function isTransientError(error: unknown): boolean {
+    let current: unknown = error;
+
+    // Bounded in case of a cause cycle
+    for (let depth = 0; depth < 10 && current instanceof Error; depth++) {
+        if (current.name === 'TimeoutError' || current.name === 'AbortError') {
+            return true;
+        }
+
+        const { code, status, statusCode, response, cause } = current as ErrorDetails;
+
+        const httpStatus = [statusCode, status, response?.status].find((value): value is number => typeof value === 'number');
+        if (httpStatus !== undefined) {
+            return httpStatus >= 500 || TRANSIENT_STATUS_CODES.has(httpStatus);
+        }
+
+        if (typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code)) {
+            return true;
+        }
+
+        current = cause;
+    }
+
+    return false;
+}
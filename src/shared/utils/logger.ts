@@ -206,7 +206,7 @@ export function logLocationLookup(data: {
  * Log budget platform API call
  */
 export function logBudgetAPICall(data: {
-    action: 'create' | 'validate' | 'split';
+    action: 'create' | 'validate' | 'split' | 'list_categories';
     success: boolean;
     transactionId?: string | undefined;
     error?: string | undefined;
@@ -27,12 +27,63 @@ const flexibleBoolean = z.union([
     z.number().transform((val) => val === 1),
 ]).pipe(z.boolean());
 
+/**
+ * Strings flexibleBoolean understands
+ */
+const BOOLEAN_STRINGS = new Set(['', 'true', 'false', 'yes', 'no', '1', '0']);
+
+/**
+ * Category and notes for one part of a split
+ */
+const splitPartDetailsSchema = z.object({
+    category: z.string().optional(),
+    notes: z.string().optional(),
+    participant: z.string().optional(),
+});
+
+/**
+ * Split rule (amounts are checked against the transaction when it's split)
+ */
+const splitRuleSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('even'),
+        ways: z.number().int().min(2),
+        parts: z.array(splitPartDetailsSchema).optional(),
+    }),
+    z.object({
+        type: z.literal('percent'),
+        parts: z.array(splitPartDetailsSchema.extend({ percent: z.number().positive() })).min(2),
+    }),
+    z.object({
+        type: z.literal('amount'),
+        parts: z.array(splitPartDetailsSchema.extend({ amount: z.number().positive() })).min(2),
+    }),
+]);
+
+/**
+ * Split input: a flexible boolean (50/50), a split rule, or split shorthand
+ * text ("3", "60/40", "12.50 Food, 13 Transport") parsed when the transaction is split
+ */
+const splitInputSchema = z.union([
+    splitRuleSchema,
+    z.string().refine((val) => !BOOLEAN_STRINGS.has(val.toLowerCase().trim())),
+    flexibleBoolean,
+]);
+
 /**
  * User input schema for screenshot webhooks
  */
 const userInputSchema = z.object({
     payee: z.string().optional(),
-    split: flexibleBoolean.optional().default(false),
+    split: splitInputSchema.optional().default(false),
+    // A list, or comma-separated names from MacroDroid
+    participants: z
+        .union([
+            z.array(z.string()),
+            z.string().transform((val) => val.split(',')),
+        ])
+        .transform((names) => names.map((name) => name.trim()).filter(Boolean))
+        .optional(),
     remarks: z.string().optional(),
 }).optional();
 
@@ -47,6 +98,11 @@ export const screenshotWebhookPayloadSchema = z.object({
     user_input: userInputSchema,
 });
 
+/**
+ * Characters Telegram allows in a setWebhook secret_token
+ */
+const TELEGRAM_SECRET_TOKEN_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
 /**
  * Environment variables validation schema
  */
@@ -54,15 +110,43 @@ export const envSchema = z.object({
     // Server
     PORT: z.string().default('3000').transform(Number),
     NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    PUBLIC_URL: z.string().url().optional(),
     LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 
     // API Keys
-    GEMINI_API_KEY: z.string().min(1, 'Gemini API key is required'),
-    LUNCH_MONEY_API_KEY: z.string().min(1, 'Lunch Money API key is required'),
+    GEMINI_API_KEY: z.string().optional(),
+    LUNCH_MONEY_API_KEY: z.string().optional(),
     LOCATIONIQ_API_KEY: z.string().min(1, 'LocationIQ API key is required'),
 
+    // AI Provider
+    AI_PROVIDER: z.enum(['gemini', 'openai']).default('gemini'),
+    AI_MODEL: z.string().optional(),
+    AI_TEMPERATURE: z.string().optional().transform((value) => (value ? Number(value) : undefined)).pipe(z.number().min(0).max(2).optional()),
+    OPENAI_BASE_URL: z.string().url().default('https://api.openai.com/v1'),
+    OPENAI_API_KEY: z.string().optional(),
+    TEMPLATE_EXTRACTION_ENABLED: flexibleBoolean.default(true),
+
+    // AI fallback chain ("provider" or "provider:model", tried in order after AI_PROVIDER)
+    AI_FALLBACK_PROVIDERS: z
+        .string()
+        .default('')
+        .transform((value) => value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+            // Model names can contain colons (e.g. llama3.2-vision:11b)
+            const [provider, ...model] = entry.split(':');
+            return { provider, model: model.join(':') || undefined };
+        }))
+        .pipe(z.array(z.object({
+            provider: z.enum(['gemini', 'openai']),
+            model: z.string().optional(),
+        }))),
+    AI_CIRCUIT_FAILURE_THRESHOLD: z.string().default('3').transform(Number),
+    AI_CIRCUIT_RESET_SECONDS: z.string().default('60').transform(Number),
+
     // Security (Optional)
     WEBHOOK_SECRET: z.string().optional(),
+    WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: z.string().default('300').transform(Number),
+    TELEGRAM_WEBHOOK_SECRET: z.string().optional(),
+    TELEGRAM_EXPENSE_BOT_TOKEN: z.string().optional(),
 
     // Account Mapping (Optional - Overrides config file)
     ACCOUNT_MAYBANK_MAE: z.string().optional(),
@@ -73,15 +157,139 @@ export const envSchema = z.object({
     // Rate Limiting
     RATE_LIMIT_WINDOW_MS: z.string().default('60000').transform(Number),
     RATE_LIMIT_MAX_REQUESTS: z.string().default('100').transform(Number),
+    TRUSTED_PROXIES: z
+        .string()
+        .default('')
+        .transform((value) => value.split(',').map((address) => address.trim()).filter(Boolean)),
 
     // Retry Configuration
     API_RETRY_LIMIT: z.string().default('3').transform(Number),
     API_RETRY_BACKOFF_MS: z.string().default('10000').transform(Number),
+
+    // Storage
+    DATABASE_PATH: z.string().default('data/duitmyself.sqlite'),
+
+    // Telegram Conversations
+    CONVERSATION_STORE: z.enum(['sqlite', 'memory']).default('sqlite'),
+    CONVERSATION_TTL_MINUTES: z.string().default('60').transform(Number),
+
+    // Job Queue
+    QUEUE_CONCURRENCY: z.string().default('2').transform(Number),
+    QUEUE_POLL_INTERVAL_MS: z.string().default('1000').transform(Number),
+
+    // Duplicate Detection
+    DUPLICATE_DETECTION_ENABLED: flexibleBoolean.default(true),
+    DUPLICATE_WINDOW_MINUTES: z.string().default('120').transform(Number),
+    DUPLICATE_MERCHANT_SIMILARITY: z.string().default('0.6').transform(Number),
+
+    // Learning from Telegram corrections
+    CORRECTION_LEARNING_ENABLED: flexibleBoolean.default(true),
+    CORRECTION_MERCHANT_SIMILARITY: z.string().default('0.8').transform(Number),
+    CORRECTION_HINT_LIMIT: z.string().default('20').transform(Number),
+
+    // Receipt itemisation
+    RECEIPT_SPLIT_ENABLED: flexibleBoolean.default(true),
+    RECEIPT_ARCHIVE_ENABLED: flexibleBoolean.default(true),
+    RECEIPT_ARCHIVE_PATH: z.string().default('data/receipts'),
+
+    // Screenshot preprocessing
+    IMAGE_MAX_DIMENSION: z.string().default('2048').transform(Number),
+    IMAGE_MAX_MB: z.string().default('4').transform(Number),
+    IMAGE_CROP_SYSTEM_BARS: flexibleBoolean.default(true),
+
+    // Budget Categories
+    CATEGORY_CACHE_TTL_MINUTES: z.string().default('60').transform(Number),
+
+    // Budget Platform
+    BUDGET_PROVIDER: z.enum(['lunchmoney', 'ynab', 'actual']).default('lunchmoney'),
+    YNAB_ACCESS_TOKEN: z.string().optional(),
+    YNAB_BUDGET_ID: z.string().default('last-used'),
+    YNAB_BASE_URL: z.string().url().default('https://api.ynab.com/v1'),
+    ACTUAL_API_URL: z.string().url().optional(),
+    ACTUAL_API_KEY: z.string().optional(),
+    ACTUAL_BUDGET_SYNC_ID: z.string().optional(),
+    ACTUAL_BUDGET_PASSWORD: z.string().optional(),
+
+    // Budget fan-out (extra backends every transaction is also written to)
+    BUDGET_MIRRORS: z
+        .string()
+        .default('')
+        .transform((value) => value.split(',').map((name) => name.trim()).filter(Boolean))
+        .pipe(z.array(z.enum(['lunchmoney', 'ynab', 'actual', 'csv']))),
+    BUDGET_FANOUT_POLICY: z.enum(['all', 'primary', 'any']).default('primary'),
+    BUDGET_CSV_PATH: z.string().default('data/transactions.csv'),
+
+    // Transaction Rules
+    TRANSACTION_RULES_PATH: z.string().default('config/transaction-rules.json'),
+    TRANSACTION_RULES_TIMEZONE: z
+        .string()
+        .default('Asia/Kuala_Lumpur')
+        .refine((timeZone) => {
+            try {
+                new Intl.DateTimeFormat('en-GB', { timeZone });
+                return true;
+            } catch {
+                return false;
+            }
+        }, 'Must be an IANA time zone (e.g. Asia/Kuala_Lumpur)'),
+}).superRefine((env, ctx) => {
+    const aiProviders = new Set([env.AI_PROVIDER, ...env.AI_FALLBACK_PROVIDERS.map(({ provider }) => provider)]);
+
+    if (aiProviders.has('gemini') && !env.GEMINI_API_KEY) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['GEMINI_API_KEY'],
+            message: 'Gemini API key is required',
+        });
+    }
+
+    // Telegram rejects a secret_token it can't send as a header, and the bot with it
+    const telegramSecretToken = env.TELEGRAM_WEBHOOK_SECRET || env.WEBHOOK_SECRET;
+    if (env.TELEGRAM_EXPENSE_BOT_TOKEN && telegramSecretToken && !TELEGRAM_SECRET_TOKEN_PATTERN.test(telegramSecretToken)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [env.TELEGRAM_WEBHOOK_SECRET ? 'TELEGRAM_WEBHOOK_SECRET' : 'WEBHOOK_SECRET'],
+            message: env.TELEGRAM_WEBHOOK_SECRET
+                ? 'Telegram secret token may only contain A-Z, a-z, 0-9, _ and - (up to 256 characters)'
+                : 'WEBHOOK_SECRET is also the Telegram secret token, which may only contain A-Z, a-z, 0-9, _ and - ' +
+                '(up to 256 characters) - set TELEGRAM_WEBHOOK_SECRET to use a different one',
+        });
+    }
+
+    // Only the selected budget platforms need credentials
+    const providers = new Set([env.BUDGET_PROVIDER, ...env.BUDGET_MIRRORS]);
+
+    if (providers.has('lunchmoney') && !env.LUNCH_MONEY_API_KEY) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['LUNCH_MONEY_API_KEY'],
+            message: 'Lunch Money API key is required',
+        });
+    }
+    if (providers.has('ynab') && !env.YNAB_ACCESS_TOKEN) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['YNAB_ACCESS_TOKEN'],
+            message: 'YNAB access token is required',
+        });
+    }
+    if (providers.has('actual')) {
+        for (const key of ['ACTUAL_API_URL', 'ACTUAL_API_KEY', 'ACTUAL_BUDGET_SYNC_ID'] as const) {
+            if (!env[key]) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [key],
+                    message: `${key} is required for Actual Budget`,
+                });
+            }
+        }
+    }
 });
 
 /**
  * Extracted transaction validation schema
  * Transforms null values from Gemini API to undefined
+ * Also the source of the Gemini response schema, so keep it to plain types
  */
 export const extractedTransactionSchema = z.object({
     is_transaction: z.boolean(),
@@ -93,6 +301,22 @@ export const extractedTransactionSchema = z.object({
     reference: z.string().nullable().transform(val => val ?? undefined).optional(),
     confidence: z.number().min(0).max(1).nullable().transform(val => val ?? undefined).optional(),
     notes: z.string().nullable().transform(val => val ?? undefined).optional(),
+    transaction_date: z.string().nullable().transform(val => val ?? undefined).optional(),
+    line_items: z.array(z.object({
+        name: z.string().min(1),
+        quantity: z.number().positive().nullable().transform(val => val ?? undefined).optional(),
+        price: z.number(),
+        category: z.string().nullable().transform(val => val ?? undefined).optional(),
+    })).nullable().transform(val => val ?? undefined).optional(),
+    tax: z.number().min(0).nullable().transform(val => val ?? undefined).optional(),
+    service_charge: z.number().min(0).nullable().transform(val => val ?? undefined).optional(),
+});
+
+/**
+ * Multi-transaction extraction validation schema (statements, daily summaries)
+ */
+export const extractedTransactionsSchema = z.object({
+    transactions: z.array(extractedTransactionSchema),
 });
 
 /**
@@ -134,6 +358,45 @@ export const enhancedAccountMappingSchema = z.object({
     }).optional(),
 });
 
+/**
+ * Time of day (HH:MM, 24-hour)
+ */
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM');
+
+/**
+ * Transaction rules validation schema (config/transaction-rules.json)
+ */
+export const transactionRulesSchema = z.object({
+    rules: z.array(z.object({
+        name: z.string().min(1),
+        match: z.object({
+            apps: z.array(z.string()).optional(),
+            merchant: z.string().refine((pattern) => {
+                try {
+                    new RegExp(pattern, 'i');
+                    return true;
+                } catch {
+                    return false;
+                }
+            }, 'Invalid merchant regex').optional(),
+            amount: z.object({
+                min: z.number().nonnegative().optional(),
+                max: z.number().nonnegative().optional(),
+            }).optional(),
+            type: z.enum(['debit', 'credit']).optional(),
+            time: z.object({ from: timeOfDaySchema, to: timeOfDaySchema }).optional(),
+        }),
+        actions: z.object({
+            payee: z.string().min(1).optional(),
+            category: z.string().min(1).optional(),
+            tags: z.array(z.string().min(1)).optional(),
+            account: z.string().min(1).optional(),
+            cleared: z.boolean().optional(),
+            drop: z.boolean().optional(),
+        }),
+    })),
+});
+
 /**
  * Validate webhook payload
  */
@@ -162,6 +425,13 @@ export function validateExtractedTransaction(data: unknown) {
     return extractedTransactionSchema.parse(data);
 }
 
+/**
+ * Validate a multi-transaction AI extraction response
+ */
+export function validateExtractedTransactions(data: unknown) {
+    return extractedTransactionsSchema.parse(data).transactions;
+}
+
 /**
  * Validate coordinates
  */
@@ -186,6 +456,13 @@ export function validateEnhancedAccountMapping(data: unknown) {
     return enhancedAccountMappingSchema.parse(data);
 }
 
+/**
+ * Validate transaction rules
+ */
+export function validateTransactionRules(data: unknown) {
+    return transactionRulesSchema.parse(data);
+}
+
 /**
  * Type exports for validated data
  */
@@ -196,3 +473,4 @@ export type ValidatedExtractedTransaction = z.infer<typeof extractedTransactionS
 export type ValidatedCoordinates = z.infer<typeof coordinatesSchema>;
 export type ValidatedAccountMapping = z.infer<typeof accountMappingSchema>;
 export type ValidatedEnhancedAccountMapping = z.infer<typeof enhancedAccountMappingSchema>;
+export type ValidatedTransactionRules = z.infer<typeof transactionRulesSchema>;
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { ActualBudgetAdapter, toActualAmount } from '@/services/expense-tracker/adapters/budget/actual-budget.adapter';
+import { BudgetAPIError } from '@/services/expense-tracker/adapters/budget/budget.interface';
+
+/**
+ * Unit tests for the Actual Budget adapter against a local stand-in for actual-http-api
+ */
+
+interface ImportedTransaction {
+    imported_id?: string;
+    amount: number;
+    subtransactions?: Array<{ amount: number }>;
+    [key: string]: unknown;
+}
+
+describe('ActualBudgetAdapter', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let imported: Map<string, ImportedTransaction>;
+    let deleted: string[];
+    let operations: string[];
+    let failDeletes: boolean;
+    let nextId: number;
+    let adapter: ActualBudgetAdapter;
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                const { pathname } = new URL(request.url);
+                const prefix = '/v1/budgets/sync-1/';
+
+                if (request.headers.get('x-api-key') !== 'test-key' || !pathname.startsWith(prefix)) {
+                    return Response.json({ error: 'unauthorized' }, { status: 401 });
+                }
+                const path = pathname.slice(prefix.length);
+                operations.push(`${request.method} ${path}`);
+
+                if (path === 'accounts') {
+                    return Response.json({
+                        data: [
+                            { id: 'acc-uuid-1', name: 'Maybank Savings', offbudget: false, closed: false },
+                            { id: 'acc-uuid-2', name: 'Old Card', offbudget: false, closed: true },
+                        ],
+                    });
+                }
+                if (path === 'accounts/acc-uuid-1/transactions/import') {
+                    const { transactions } = await request.json() as { transactions: ImportedTransaction[] };
+                    const transaction = transactions[0]!;
+
+                    // Actual reconciles on imported_id
+                    const existing = [...imported.entries()].find(([, t]) => t.imported_id && t.imported_id === transaction.imported_id);
+                    if (existing) {
+                        return Response.json({ data: { added: [], updated: [existing[0]], errors: [] } });
+                    }
+
+                    const id = `txn-${nextId++}`;
+                    imported.set(id, transaction);
+                    return Response.json({ data: { added: [id], updated: [], errors: [] } });
+                }
+                if (path === 'accounts/acc-uuid-1/transactions' && request.method === 'GET') {
+                    return Response.json({
+                        data: [...imported.entries()].map(([id, { payee_name: payee, ...transaction }]) => ({ id, payee, ...transaction })),
+                    });
+                }
+                if (path.startsWith('accounts/') && path.endsWith('/transactions') && request.method === 'GET') {
+                    return Response.json({ data: [] });
+                }
+                if (path.startsWith('transactions/') && request.method === 'PATCH') {
+                    const id = path.slice('transactions/'.length);
+                    const { transaction } = await request.json() as { transaction: Partial<ImportedTransaction> };
+                    imported.set(id, { ...imported.get(id)!, ...transaction });
+                    return Response.json({ message: 'Transaction updated' });
+                }
+                if (path.startsWith('transactions/') && request.method === 'DELETE') {
+                    const id = path.slice('transactions/'.length);
+                    if (failDeletes && id === 'txn-1') {
+                        return Response.json({ error: 'internal error' }, { status: 500 });
+                    }
+                    deleted.push(id);
+                    imported.delete(id);
+                    return Response.json({ message: 'Transaction deleted' });
+                }
+                if (path === 'categorygroups') {
+                    return Response.json({
+                        data: [
+                            { id: 'g1', name: 'Usual Expenses', is_income: false, categories: [{ id: 'cat-food', name: 'Food' }, { id: 'cat-old', name: 'Old', hidden: true }] },
+                            { id: 'g2', name: 'Income', is_income: true, categories: [{ id: 'cat-salary', name: 'Salary' }] },
+                        ],
+                    });
+                }
+
+                return Response.json({ error: 'not found' }, { status: 404 });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(() => {
+        imported = new Map();
+        deleted = [];
+        operations = [];
+        failDeletes = false;
+        nextId = 1;
+        adapter = new ActualBudgetAdapter(`http://localhost:${server.port}/`, 'test-key', 'sync-1', { limit: 0, backoffMs: 0 });
+    });
+
+    it('should convert amounts to cents with outflows negative', () => {
+        expect(toActualAmount(12.5)).toBe(-1250);
+        expect(toActualAmount(-3000)).toBe(300000);
+    });
+
+    it('should import a transaction into the account matched by name', async () => {
+        const result = await adapter.createTransaction({
+            date: '2025-01-15T12:30:00+08:00',
+            amount: 12.5,
+            payee: 'Kopi Tiam',
+            account_id: 'maybank savings',
+            category_id: 'cat-food',
+            reference: 'REF123',
+        });
+
+        expect(result).toMatchObject({ success: true, transactionId: 'txn-1' });
+        expect(imported.get('txn-1')).toMatchObject({
+            date: '2025-01-15',
+            amount: -1250,
+            payee_name: 'Kopi Tiam',
+            category: 'cat-food',
+            imported_id: 'REF123',
+            cleared: false,
+        });
+    });
+
+    it('should add the tags to the notes as hashtags', async () => {
+        await adapter.createTransaction({
+            date: '2025-01-15',
+            amount: 12.5,
+            payee: 'Kopi Tiam',
+            account_id: 'acc-uuid-1',
+            notes: 'Lunch',
+            tags: ['com.maybank2u.life', 'work lunch'],
+        });
+
+        expect(imported.get('txn-1')?.notes).toBe('Lunch #com.maybank2u.life #work-lunch');
+    });
+
+    it('should not import the same reference twice', async () => {
+        const transaction = { date: '2025-01-15', amount: 12.5, payee: 'Kopi Tiam', account_id: 'acc-uuid-1', reference: 'REF123' };
+
+        const first = await adapter.createTransaction(transaction);
+        const second = await adapter.createTransaction(transaction);
+
+        expect(second.transactionId).toBe(first.transactionId);
+        expect(imported.size).toBe(1);
+    });
+
+    it('should reject unknown and closed accounts', async () => {
+        await expect(adapter.createTransaction({ date: '2025-01-15', amount: 1, payee: 'X', account_id: 'Old Card' }))
+            .rejects.toBeInstanceOf(BudgetAPIError);
+    });
+
+    it('should split a created transaction by importing it again with subtransactions', async () => {
+        const { transactionId } = await adapter.createTransaction({
+            date: '2025-01-15', amount: 45.51, payee: 'Dinner', account_id: 'acc-uuid-1', category_id: 'cat-food', reference: 'REF9',
+        });
+
+        await adapter.splitTransaction(transactionId!, [
+            { amount: 30.51 },
+            { amount: 15, category_id: 'cat-drinks', notes: 'Wine' },
+        ]);
+
+        expect(deleted).toEqual(['txn-1']);
+        expect(imported.get('txn-2')).toMatchObject({
+            amount: -4551,
+            imported_id: 'REF9',
+            subtransactions: [
+                { amount: -3051, category: 'cat-food' },
+                { amount: -1500, category: 'cat-drinks', notes: 'Wine' },
+            ],
+        });
+        // The original is only deleted once the split exists
+        expect(operations.filter((operation) => !operation.startsWith('GET'))).toEqual([
+            'POST accounts/acc-uuid-1/transactions/import',
+            'POST accounts/acc-uuid-1/transactions/import',
+            'DELETE transactions/txn-1',
+            'PATCH transactions/txn-2',
+        ]);
+    });
+
+    it('should keep the original transaction when deleting it after the split fails', async () => {
+        const { transactionId } = await adapter.createTransaction({ date: '2025-01-15', amount: 20, payee: 'Dinner', account_id: 'acc-uuid-1' });
+        failDeletes = true;
+
+        await expect(adapter.splitTransaction(transactionId!, [{ amount: 10 }, { amount: 10 }])).rejects.toBeInstanceOf(BudgetAPIError);
+
+        expect([...imported.keys()]).toEqual(['txn-1']);
+        expect(imported.get('txn-1')?.subtransactions).toBeUndefined();
+    });
+
+    it('should look up a transaction it did not create, e.g. after a restart', async () => {
+        await adapter.createTransaction({ date: '2025-01-15', amount: 20, payee: 'Dinner', account_id: 'acc-uuid-1', category_id: 'cat-food', reference: 'REF7' });
+        const restarted = new ActualBudgetAdapter(`http://localhost:${server.port}/`, 'test-key', 'sync-1', { limit: 0, backoffMs: 0 });
+
+        await restarted.splitTransaction('txn-1', [{ amount: 15 }, { amount: 5, category_id: 'cat-drinks' }]);
+
+        expect(deleted).toEqual(['txn-1']);
+        expect(imported.get('txn-2')).toMatchObject({
+            amount: -2000,
+            payee: 'Dinner',
+            imported_id: 'REF7',
+            subtransactions: [{ amount: -1500, category: 'cat-food' }, { amount: -500, category: 'cat-drinks' }],
+        });
+        await expect(restarted.splitTransaction('txn-404', [{ amount: 10 }, { amount: 10 }])).rejects.toBeInstanceOf(BudgetAPIError);
+    });
+
+    it('should list visible categories with their group', async () => {
+        expect(await adapter.listCategories()).toEqual([
+            { id: 'cat-food', name: 'Food', groupName: 'Usual Expenses', isIncome: false },
+            { id: 'cat-salary', name: 'Salary', groupName: 'Income', isIncome: true },
+        ]);
+    });
+
+    it('should validate credentials', async () => {
+        expect(await adapter.validateCredentials()).toBe(true);
+
+        const invalid = new ActualBudgetAdapter(`http://localhost:${server.port}`, 'wrong', 'sync-1', { limit: 0, backoffMs: 0 });
+        expect(await invalid.validateCredentials()).toBe(false);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { BudgetAdapter, BudgetCategory } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import { BudgetAPIError } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import { CategoryService } from '@/services/expense-tracker/services/category.service';
+
+/**
+ * Unit tests for budget category caching and mapping
+ */
+
+const CATEGORIES: BudgetCategory[] = [
+    { id: '101', name: 'Dining Out', groupName: 'Food' },
+    { id: '102', name: 'Groceries', groupName: 'Food' },
+    { id: '103', name: 'Public Transport' },
+    { id: '104', name: 'Bills & Utilities' },
+    { id: '105', name: 'Salary', isIncome: true },
+];
+
+describe('CategoryService', () => {
+    let calls: number;
+    let failing: boolean;
+    let clock: number;
+    let service: CategoryService;
+
+    const budgetAdapter = {
+        listCategories: async () => {
+            calls++;
+            if (failing) {
+                throw new BudgetAPIError('Lunch Money is down');
+            }
+            return CATEGORIES;
+        },
+    } as unknown as BudgetAdapter;
+
+    beforeEach(() => {
+        calls = 0;
+        failing = false;
+        clock = Date.now();
+        service = new CategoryService(budgetAdapter, { cacheTtlMinutes: 60, now: () => clock });
+    });
+
+    it('should map AI categories to budget categories', async () => {
+        expect((await service.resolve('Groceries'))?.id).toBe('102');
+        expect((await service.resolve('food'))?.id).toBe('101');
+        expect((await service.resolve('transport'))?.id).toBe('103');
+        expect((await service.resolve('bills and utilities'))?.id).toBe('104');
+        expect((await service.resolve('income'))?.id).toBe('105');
+    });
+
+    it('should leave unknown categories unresolved', async () => {
+        expect(await service.resolve('Pet Supplies')).toBeUndefined();
+        expect(await service.resolve(undefined)).toBeUndefined();
+    });
+
+    it('should cache categories until the TTL passes', async () => {
+        await service.getCategories();
+        await service.resolve('food');
+        expect(calls).toBe(1);
+
+        clock += 61 * 60 * 1000;
+        await service.getCategories();
+        expect(calls).toBe(2);
+    });
+
+    it('should keep using stale categories when a refresh fails', async () => {
+        await service.getCategories();
+
+        failing = true;
+        clock += 61 * 60 * 1000;
+
+        expect(await service.getCategories()).toEqual(CATEGORIES);
+    });
+
+    it('should not throw when categories were never fetched', async () => {
+        failing = true;
+
+        expect(await service.resolve('food')).toBeUndefined();
+        await expect(service.getCategories()).rejects.toBeInstanceOf(BudgetAPIError);
+    });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    CompositeBudgetAdapter,
+    getBudgetBackendResults,
+} from '@/services/expense-tracker/adapters/budget/composite-budget.adapter';
+import { CsvBudgetAdapter } from '@/services/expense-tracker/adapters/budget/csv.adapter';
+import type { BudgetAdapter, BudgetCategory } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import { BudgetAPIError } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import type { SplitPart, Transaction, TransactionResult } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for fanning out transactions to several budget backends
+ */
+
+class FakeBudgetAdapter implements BudgetAdapter {
+    created: Transaction[] = [];
+    splits: Array<{ transactionId: string; parts: SplitPart[] }> = [];
+    private nextId = 1;
+
+    constructor(private readonly prefix: string, public failing = false) { }
+
+    createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        if (this.failing) {
+            return Promise.reject(new BudgetAPIError(`${this.prefix} is down`, 503));
+        }
+        this.created.push(transaction);
+        return Promise.resolve({ success: true, transactionId: `${this.prefix}-${this.nextId++}` });
+    }
+
+    validateCredentials(): Promise<boolean> {
+        return Promise.resolve(!this.failing);
+    }
+
+    splitTransaction(transactionId: string, parts: SplitPart[]): Promise<void> {
+        this.splits.push({ transactionId, parts });
+        return Promise.resolve();
+    }
+
+    listCategories(): Promise<BudgetCategory[]> {
+        return Promise.resolve([{ id: `${this.prefix}-food`, name: 'Food' }]);
+    }
+}
+
+const transaction: Transaction = {
+    date: '2026-01-15',
+    amount: 25.5,
+    payee: 'Starbucks',
+    currency: 'MYR',
+    account_id: 'Maybank',
+    category: 'Food & Drink',
+    category_id: 'lm-food',
+    notes: 'Coffee, "large"',
+    status: 'cleared',
+};
+
+describe('CompositeBudgetAdapter', () => {
+    it('writes to every backend and reports per-backend results', async () => {
+        const primary = new FakeBudgetAdapter('lm');
+        const mirror = new FakeBudgetAdapter('csv');
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: primary },
+            { name: 'csv', adapter: mirror },
+        ]);
+
+        const result = await adapter.createTransaction(transaction);
+
+        expect(result.success).toBe(true);
+        expect(result.transactionId).toBe('lm-1');
+        const backends = getBudgetBackendResults(result);
+        expect(backends?.['lunchmoney']).toMatchObject({ success: true, transaction_id: 'lm-1' });
+        expect(backends?.['csv']).toMatchObject({ success: true, transaction_id: 'csv-1' });
+    });
+
+    it('only sends the category ID to the primary backend', async () => {
+        const primary = new FakeBudgetAdapter('lm');
+        const mirror = new FakeBudgetAdapter('ynab');
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: primary },
+            { name: 'ynab', adapter: mirror },
+        ]);
+
+        await adapter.createTransaction(transaction);
+
+        expect(primary.created[0]?.category_id).toBe('lm-food');
+        expect(mirror.created[0]?.category_id).toBeUndefined();
+        expect(mirror.created[0]?.category).toBe('Food & Drink');
+    });
+
+    it('succeeds with the primary policy when only a mirror fails', async () => {
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: new FakeBudgetAdapter('lm') },
+            { name: 'ynab', adapter: new FakeBudgetAdapter('ynab', true) },
+        ], 'primary');
+
+        const result = await adapter.createTransaction(transaction);
+
+        expect(result.success).toBe(true);
+        expect(getBudgetBackendResults(result)?.['ynab']).toMatchObject({ success: false, error: 'ynab is down' });
+    });
+
+    it('retries a transient primary failure only in the backends that failed', async () => {
+        const primary = new FakeBudgetAdapter('lm', true);
+        const mirror = new FakeBudgetAdapter('csv');
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: primary },
+            { name: 'csv', adapter: mirror },
+        ], 'primary');
+
+        const first = await adapter.createTransaction(transaction);
+
+        expect(first.success).toBe(false);
+        expect(first.retriable).toBe(true);
+        expect(mirror.created).toHaveLength(1);
+
+        primary.failing = false;
+        const retry = await adapter.createTransaction({ ...transaction, notes: 'Retried' });
+
+        expect(retry).toMatchObject({ success: true, transactionId: 'lm-1' });
+        expect(primary.created).toHaveLength(1);
+        expect(mirror.created).toHaveLength(1);
+        expect(getBudgetBackendResults(retry)?.['csv']).toMatchObject({ success: true, transaction_id: 'csv-1' });
+
+        await adapter.splitTransaction('lm-1', [{ amount: 20 }, { amount: 5.5 }]);
+        expect(mirror.splits[0]?.transactionId).toBe('csv-1');
+
+        // A new transaction goes to every backend again
+        await adapter.createTransaction({ ...transaction, amount: 30 });
+        expect(mirror.created).toHaveLength(2);
+    });
+
+    it('retries only the failed mirror when the all policy fails after partial success', async () => {
+        const primary = new FakeBudgetAdapter('lm');
+        const mirror = new FakeBudgetAdapter('ynab', true);
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: primary },
+            { name: 'ynab', adapter: mirror },
+        ], 'all');
+
+        const result = await adapter.createTransaction(transaction);
+
+        expect(result.success).toBe(false);
+        expect(result.retriable).toBe(true);
+        expect(result.transactionId).toBe('lm-1');
+        expect(result.error).toContain('ynab');
+
+        mirror.failing = false;
+        const retry = await adapter.createTransaction(transaction);
+
+        expect(retry).toMatchObject({ success: true, transactionId: 'lm-1' });
+        expect(primary.created).toHaveLength(1);
+        expect(mirror.created).toHaveLength(1);
+    });
+
+    it('returns a non-retriable failure when a mirror rejects the transaction under the all policy', async () => {
+        const mirror = new FakeBudgetAdapter('ynab');
+        mirror.createTransaction = () => Promise.resolve({ success: false, error: 'Invalid account', retriable: false });
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: new FakeBudgetAdapter('lm') },
+            { name: 'ynab', adapter: mirror },
+        ], 'all');
+
+        const result = await adapter.createTransaction(transaction);
+
+        expect(result.success).toBe(false);
+        expect(result.retriable).toBe(false);
+        expect(result.transactionId).toBe('lm-1');
+    });
+
+    it('succeeds with the any policy when the primary fails', async () => {
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: new FakeBudgetAdapter('lm', true) },
+            { name: 'csv', adapter: new FakeBudgetAdapter('csv') },
+        ], 'any');
+
+        const result = await adapter.createTransaction(transaction);
+
+        expect(result.success).toBe(true);
+        expect(result.transactionId).toBe('csv-1');
+    });
+
+    it('throws when every backend fails', async () => {
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: new FakeBudgetAdapter('lm', true) },
+            { name: 'csv', adapter: new FakeBudgetAdapter('csv', true) },
+        ], 'any');
+
+        await expect(adapter.createTransaction(transaction)).rejects.toBeInstanceOf(BudgetAPIError);
+    });
+
+    it('splits the transaction in each backend using that backend\'s ID', async () => {
+        const primary = new FakeBudgetAdapter('lm');
+        const mirror = new FakeBudgetAdapter('csv');
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: primary },
+            { name: 'csv', adapter: mirror },
+        ]);
+
+        const result = await adapter.createTransaction(transaction);
+        await adapter.splitTransaction(result.transactionId!, [
+            { amount: 20, category: 'Food & Drink', category_id: 'lm-food' },
+            { amount: 5.5, notes: 'Cake' },
+        ]);
+
+        expect(primary.splits).toEqual([{
+            transactionId: 'lm-1',
+            parts: [{ amount: 20, category: 'Food & Drink', category_id: 'lm-food' }, { amount: 5.5, notes: 'Cake' }],
+        }]);
+        expect(mirror.splits[0]?.transactionId).toBe('csv-1');
+        expect(mirror.splits[0]?.parts.map((part) => part.category_id)).toEqual([undefined, undefined]);
+    });
+
+    it('validates credentials according to the policy', async () => {
+        const backends = [
+            { name: 'lunchmoney', adapter: new FakeBudgetAdapter('lm') },
+            { name: 'ynab', adapter: new FakeBudgetAdapter('ynab', true) },
+        ];
+
+        expect(await new CompositeBudgetAdapter(backends, 'primary').validateCredentials()).toBe(true);
+        expect(await new CompositeBudgetAdapter(backends, 'any').validateCredentials()).toBe(true);
+        expect(await new CompositeBudgetAdapter(backends, 'all').validateCredentials()).toBe(false);
+    });
+
+    it('lists categories from the primary backend', async () => {
+        const adapter = new CompositeBudgetAdapter([
+            { name: 'lunchmoney', adapter: new FakeBudgetAdapter('lm') },
+            { name: 'csv', adapter: new FakeBudgetAdapter('csv') },
+        ]);
+
+        expect(await adapter.listCategories()).toEqual([{ id: 'lm-food', name: 'Food' }]);
+    });
+});
+
+describe('CsvBudgetAdapter', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'duitmyself-csv-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes a header, quoted rows and split child rows', async () => {
+        const filePath = join(dir, 'nested', 'transactions.csv');
+        const adapter = new CsvBudgetAdapter(filePath);
+
+        const result = await adapter.createTransaction({ ...transaction, tags: ['coffee', 'work'] });
+        await adapter.splitTransaction(result.transactionId!, [
+            { amount: 12.75, category: 'Food & Drink' },
+            { amount: 12.75, category: 'Gifts', notes: 'For Sam' },
+        ]);
+
+        const lines = readFileSync(filePath, 'utf8').trim().split('\n');
+        expect(lines[0]).toBe('id,parent_id,date,amount,currency,payee,account_id,category,notes,reference,created_at,tags');
+        expect(lines[1]).toContain(',2026-01-15,25.5,MYR,Starbucks,Maybank,Food & Drink,"Coffee, ""large""",,');
+        expect(lines[1]).toEndWith(',coffee;work');
+        expect(lines).toHaveLength(4);
+        expect(lines[2]?.split(',').slice(1, 9)).toEqual([result.transactionId!, '', '12.75', '', '', '', 'Food & Drink', '']);
+        expect(lines[3]?.split(',').slice(1, 9)).toEqual([result.transactionId!, '', '12.75', '', '', '', 'Gifts', 'For Sam']);
+    });
+});
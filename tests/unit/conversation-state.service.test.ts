@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { openDatabase } from '@/shared/db/sqlite';
+import {
+    ConversationStateService,
+    encodeCallbackData,
+    parseCallbackData,
+    type PendingTransaction,
+} from '@/services/expense-tracker/services/conversation-state.service';
+import { SqliteConversationStore } from '@/services/expense-tracker/repositories/sqlite-conversation.repository';
+import { InMemoryConversationStore } from '@/services/expense-tracker/repositories/in-memory-conversation.repository';
+
+/**
+ * Unit tests for conversation state persistence and expiry
+ */
+
+const pendingTransaction = (overrides: Partial<PendingTransaction> = {}): PendingTransaction => ({
+    chatId: 42,
+    messageId: 7,
+    state: 'awaiting_confirmation',
+    transactionData: { is_transaction: true, amount: 12.5, merchant: 'Kopi Tiam' },
+    accountId: '246029',
+    timestamp: '2025-01-01T08:00:00.000Z',
+    createdAt: new Date(),
+    ...overrides,
+});
+
+describe('ConversationStateService', () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = openDatabase(':memory:');
+    });
+
+    it('should restore pending conversations from SQLite after a restart', () => {
+        const before = new ConversationStateService(new SqliteConversationStore(db), { ttlMinutes: 60 });
+        before.set(pendingTransaction());
+
+        // New service instance on the same database = process restart
+        const after = new ConversationStateService(new SqliteConversationStore(db), { ttlMinutes: 60 });
+        expect(after.restore()).toBe(1);
+
+        const restored = after.get(42, 7);
+        expect(restored?.transactionData.merchant).toBe('Kopi Tiam');
+        expect(restored?.accountId).toBe('246029');
+        expect(restored?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should drop conversations that expired while the service was down', () => {
+        const store = new SqliteConversationStore(db);
+        store.set('42:7', pendingTransaction({ createdAt: new Date(Date.now() - 31 * 60 * 1000) }));
+        store.set('43:7', pendingTransaction({ chatId: 43 }));
+
+        const service = new ConversationStateService(store, { ttlMinutes: 30 });
+
+        expect(service.restore()).toBe(1);
+        expect(service.get(42, 7)).toBeUndefined();
+        expect(service.get(43, 7)).toBeDefined();
+    });
+
+    it('should treat conversations past the TTL as expired before cleanup runs', () => {
+        const service = new ConversationStateService(new InMemoryConversationStore(), { ttlMinutes: 5 });
+        service.set(pendingTransaction({ createdAt: new Date(Date.now() - 6 * 60 * 1000) }));
+
+        expect(service.has(42, 7)).toBe(false);
+        expect(service.getCount()).toBe(0);
+    });
+
+    it('should keep several pending transactions per chat apart', () => {
+        const service = new ConversationStateService(new SqliteConversationStore(db));
+        service.set(pendingTransaction({ messageId: 7 }));
+        service.set(pendingTransaction({
+            messageId: 8,
+            transactionData: { is_transaction: true, amount: 30, merchant: 'Grab' },
+        }));
+
+        expect(service.get(42, 7)?.transactionData.merchant).toBe('Kopi Tiam');
+        expect(service.get(42, 8)?.transactionData.merchant).toBe('Grab');
+        expect(service.getForChat(42)).toHaveLength(2);
+
+        service.delete(42, 7);
+        expect(service.has(42, 7)).toBe(false);
+        expect(service.has(42, 8)).toBe(true);
+    });
+
+    it('should skip and delete a stored conversation that can no longer be read', () => {
+        const service = new ConversationStateService(new SqliteConversationStore(db));
+        service.set(pendingTransaction({ messageId: 7 }));
+        service.set(pendingTransaction({ messageId: 8 }));
+        db.query("UPDATE conversation_state SET data = '{not json' WHERE key = '42:8'").run();
+
+        expect(service.getForChat(42).map((transaction) => transaction.messageId)).toEqual([7]);
+        expect(service.getCount()).toBe(1);
+    });
+
+    it('should find the transaction waiting for a text reply', () => {
+        const service = new ConversationStateService();
+        service.set(pendingTransaction({ messageId: 7 }));
+        service.set(pendingTransaction({ messageId: 8, state: 'editing_amount' as PendingTransaction['state'] }));
+        service.set(pendingTransaction({ chatId: 43, messageId: 9, state: 'editing_notes' as PendingTransaction['state'] }));
+
+        expect(service.getEditing(42)?.messageId).toBe(8);
+        expect(service.getEditing(44)).toBeUndefined();
+    });
+});
+
+describe('callback data', () => {
+    it('should round-trip the message key', () => {
+        expect(parseCallbackData(encodeCallbackData('account:246029', 812))).toEqual({ action: 'account:246029', messageId: 812 });
+        expect(parseCallbackData(encodeCallbackData('confirm', 5))).toEqual({ action: 'confirm', messageId: 5 });
+    });
+
+    it('should accept buttons sent without a key', () => {
+        expect(parseCallbackData('confirm')).toEqual({ action: 'confirm' });
+    });
+});
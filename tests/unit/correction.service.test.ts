@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteCorrectionStore } from '@/services/expense-tracker/repositories/sqlite-correction.repository';
+import { CorrectionService } from '@/services/expense-tracker/services/correction.service';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for learning from user corrections
+ */
+
+const starbucks: ExtractedTransaction = {
+    is_transaction: true,
+    amount: 18.9,
+    merchant: 'STARBUCKS KLCC',
+    type: 'debit',
+    category: 'shopping',
+};
+
+describe('CorrectionService', () => {
+    let store: SqliteCorrectionStore;
+    let corrections: CorrectionService;
+
+    beforeEach(() => {
+        store = new SqliteCorrectionStore(openDatabase(':memory:'));
+        corrections = new CorrectionService(store, { merchantSimilarityThreshold: 0.8, hintLimit: 2 });
+    });
+
+    it('should only remember the fields the user changed', () => {
+        const learned = corrections.learn(
+            'STARBUCKS KLCC',
+            { merchant: 'STARBUCKS KLCC', category: 'shopping', accountId: 'acc-1' },
+            { merchant: 'Starbucks', category: 'Dining Out', categoryId: 'cat-7', accountId: 'acc-1' }
+        );
+
+        expect(learned).toMatchObject({
+            merchant: 'STARBUCKS KLCC',
+            payee: 'Starbucks',
+            category: 'Dining Out',
+            categoryId: 'cat-7',
+            accountId: undefined,
+            timesCorrected: 1,
+        });
+        expect(corrections.learn('STARBUCKS KLCC', { merchant: 'Starbucks' }, { merchant: 'Starbucks' })).toBeUndefined();
+    });
+
+    it('should merge later corrections of the same merchant', () => {
+        corrections.learn('STARBUCKS KLCC', { merchant: 'STARBUCKS KLCC' }, { merchant: 'Starbucks' });
+        corrections.learn('Starbucks  Klcc', { category: 'shopping' }, { category: 'Dining Out' });
+
+        expect(store.find('starbucks klcc')).toMatchObject({
+            payee: 'Starbucks',
+            category: 'Dining Out',
+            timesCorrected: 2,
+        });
+    });
+
+    it('should apply corrections to the same and to similar merchants', () => {
+        corrections.learn('STARBUCKS KLCC', { merchant: 'STARBUCKS KLCC', category: 'shopping' }, {
+            merchant: 'Starbucks',
+            category: 'Dining Out',
+            accountId: 'acc-2',
+        });
+
+        const exact = corrections.apply(starbucks);
+        expect(exact?.extracted).toEqual({ ...starbucks, merchant: 'Starbucks', category: 'Dining Out' });
+        expect(exact?.accountId).toBe('acc-2');
+        expect(exact?.similarity).toBe(1);
+
+        expect(corrections.apply({ ...starbucks, merchant: 'Starbucks KLCC Sdn Bhd' })?.extracted.merchant).toBe('Starbucks');
+        expect(corrections.apply({ ...starbucks, merchant: 'Tealive' })).toBeUndefined();
+    });
+
+    it('should give the latest payee and category corrections to the AI', () => {
+        corrections.learn('GRAB* A-6XYZ', { merchant: 'GRAB* A-6XYZ' }, { merchant: 'Grab' });
+        corrections.learn('KK MART 123', { category: 'shopping' }, { category: 'Groceries' });
+        corrections.learn('TNG RELOAD', {}, { accountId: 'acc-3' });
+        corrections.learn('FP-AEON', { merchant: 'FP-AEON' }, { merchant: 'AEON' });
+
+        expect(corrections.hints()).toEqual([
+            { merchant: 'FP-AEON', payee: 'AEON', category: undefined },
+            { merchant: 'KK MART 123', payee: undefined, category: 'Groceries' },
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteTransactionLedger } from '@/services/expense-tracker/repositories/sqlite-ledger.repository';
+import {
+    DuplicateDetectionService,
+    merchantSimilarity,
+} from '@/services/expense-tracker/services/duplicate-detection.service';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for cross-channel duplicate detection
+ */
+
+describe('merchantSimilarity', () => {
+    it('should treat names contained in each other as the same merchant', () => {
+        expect(merchantSimilarity('Starbucks', 'STARBUCKS KLCC')).toBe(1);
+        expect(merchantSimilarity('Kopi Tiam Sdn Bhd', 'kopitiam')).toBe(1);
+    });
+
+    it('should score unrelated merchants low', () => {
+        expect(merchantSimilarity('Starbucks', 'Tesco')).toBeLessThan(0.3);
+    });
+});
+
+describe('DuplicateDetectionService', () => {
+    let ledger: SqliteTransactionLedger;
+    let service: DuplicateDetectionService;
+
+    const recordCreated = (extracted: ExtractedTransaction, source: 'notification' | 'screenshot' = 'notification', requestId: string = crypto.randomUUID()) => {
+        const id = ledger.start({ requestId, source, rawPayload: {} });
+        ledger.recordExtraction(id, extracted);
+        ledger.recordResult(id, { success: true, transactionId: '987' });
+        ledger.complete(id, 'success');
+        return id;
+    };
+
+    beforeEach(() => {
+        ledger = new SqliteTransactionLedger(openDatabase(':memory:'));
+        service = new DuplicateDetectionService(ledger, {
+            windowMinutes: 60,
+            merchantSimilarityThreshold: 0.6,
+        });
+    });
+
+    it('should detect the same purchase arriving from another channel', () => {
+        recordCreated({ is_transaction: true, amount: 45.5, merchant: 'Starbucks KLCC', type: 'debit' });
+
+        const match = service.findDuplicate({ is_transaction: true, amount: 45.5, merchant: 'Starbucks', type: 'debit' });
+
+        expect(match?.type).toBe('duplicate');
+        expect(match?.reasons).toContain('merchant');
+        expect(match?.entry.result?.transactionId).toBe('987');
+    });
+
+    it('should let matching references decide regardless of merchant names', () => {
+        recordCreated({ is_transaction: true, amount: 20, merchant: 'DuitNow Transfer', reference: 'REF123' });
+
+        expect(service.findDuplicate({ is_transaction: true, amount: 20, merchant: 'Ali', reference: 'ref123' })?.type)
+            .toBe('duplicate');
+        expect(service.findDuplicate({ is_transaction: true, amount: 20, merchant: 'DuitNow Transfer', reference: 'REF999' }))
+            .toBeUndefined();
+    });
+
+    it('should flag same-amount transactions at a different merchant as possible duplicates', () => {
+        recordCreated({ is_transaction: true, amount: 12, merchant: 'Starbucks' });
+
+        expect(service.findDuplicate({ is_transaction: true, amount: 12, merchant: 'Tesco' })?.type)
+            .toBe('possible_duplicate');
+    });
+
+    it('should ignore different amounts, currencies and types', () => {
+        recordCreated({ is_transaction: true, amount: 12, merchant: 'Starbucks', currency: 'MYR', type: 'debit' });
+
+        expect(service.findDuplicate({ is_transaction: true, amount: 12.5, merchant: 'Starbucks' })).toBeUndefined();
+        expect(service.findDuplicate({ is_transaction: true, amount: 12, merchant: 'Starbucks', currency: 'SGD' })).toBeUndefined();
+        expect(service.findDuplicate({ is_transaction: true, amount: 12, merchant: 'Starbucks', type: 'credit' })).toBeUndefined();
+    });
+
+    it('should not compare transactions of the same request', () => {
+        recordCreated({ is_transaction: true, amount: 12, merchant: 'Starbucks' }, 'notification', 'req-1');
+
+        expect(service.findDuplicate({ is_transaction: true, amount: 12, merchant: 'Starbucks' }, 'req-1')).toBeUndefined();
+        expect(service.findDuplicate({ is_transaction: true, amount: 12, merchant: 'Starbucks' }, 'req-2')?.type).toBe('duplicate');
+    });
+
+    it('should only consider transactions created within the window', () => {
+        recordCreated({ is_transaction: true, amount: 12, merchant: 'Starbucks' });
+
+        const later = new DuplicateDetectionService(ledger, {
+            windowMinutes: 60,
+            merchantSimilarityThreshold: 0.6,
+            now: () => Date.now() + 61 * 60 * 1000,
+        });
+
+        expect(later.findDuplicate({ is_transaction: true, amount: 12, merchant: 'Starbucks' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'bun:test';
+import { HTTPError } from 'ky';
+import { isTransientError } from '@/shared/utils/errors';
+import { BudgetAPIError } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import { SplitRuleError } from '@/services/expense-tracker/services/split.service';
+
+/**
+ * Unit tests for telling transient failures apart
+ */
+
+const httpError = (status: number) => new HTTPError(
+    new Response(null, { status }),
+    new Request('https://dev.lunchmoney.app/v1/transactions', { method: 'POST' }),
+    {} as ConstructorParameters<typeof HTTPError>[2]
+);
+
+describe('isTransientError', () => {
+    it('should retry rate limits, server errors and network failures', () => {
+        expect(isTransientError(new BudgetAPIError('Lunch Money is down', 503))).toBe(true);
+        expect(isTransientError(httpError(429))).toBe(true);
+        expect(isTransientError(Object.assign(new Error('connect failed'), { code: 'ECONNREFUSED' }))).toBe(true);
+        expect(isTransientError(Object.assign(new Error('The operation timed out.'), { name: 'TimeoutError' }))).toBe(true);
+    });
+
+    it('should not retry client errors and invalid input', () => {
+        expect(isTransientError(httpError(400))).toBe(false);
+        expect(isTransientError(new BudgetAPIError('Unknown account', 404))).toBe(false);
+        expect(isTransientError(new SplitRuleError('Percentages must add up to 100'))).toBe(false);
+        expect(isTransientError(new Error('Transaction date is required'))).toBe(false);
+        expect(isTransientError('not an error')).toBe(false);
+    });
+
+    it('should judge wrapped errors by their cause', () => {
+        const wrapped = (cause: Error) => new BudgetAPIError('Failed to create transaction in Lunch Money', undefined, undefined, cause);
+
+        expect(isTransientError(wrapped(httpError(502)))).toBe(true);
+        expect(isTransientError(wrapped(httpError(422)))).toBe(false);
+        expect(isTransientError(new Error('fetch failed', { cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) }))).toBe(true);
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { FallbackChainAdapter } from '@/services/expense-tracker/adapters/ai/fallback-chain.adapter';
+import { AIExtractionError, type AIAdapter } from '@/services/expense-tracker/adapters/ai/ai.interface';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for the AI fallback chain and its circuit breakers
+ */
+
+const extracted: ExtractedTransaction = { is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'debit' };
+
+/**
+ * AI adapter that fails while `failing` is set and counts its calls
+ */
+class FakeAdapter implements AIAdapter {
+    calls = 0;
+    failing = false;
+
+    constructor(readonly model: string) { }
+
+    async extractTransactionData(): Promise<ExtractedTransaction> {
+        this.calls++;
+        if (this.failing) {
+            throw new AIExtractionError(`${this.model} is down`, 'text');
+        }
+        return extracted;
+    }
+
+    async extractTransactionDataFromImage(): Promise<ExtractedTransaction> {
+        return this.extractTransactionData();
+    }
+
+    async extractTransactions(): Promise<ExtractedTransaction[]> {
+        return [await this.extractTransactionData(), { ...extracted, amount: 8.9, merchant: 'FamilyMart' }];
+    }
+
+    async extractTransactionsFromImage(): Promise<ExtractedTransaction[]> {
+        return this.extractTransactions();
+    }
+
+    async validateApiKey(): Promise<boolean> {
+        return !this.failing;
+    }
+}
+
+describe('FallbackChainAdapter', () => {
+    let primary: FakeAdapter;
+    let secondary: FakeAdapter;
+    let chain: FallbackChainAdapter;
+
+    beforeEach(() => {
+        primary = new FakeAdapter('gemini-2.5-flash-lite');
+        secondary = new FakeAdapter('llama3.2-vision');
+        chain = new FallbackChainAdapter([
+            { name: 'gemini', adapter: primary },
+            { name: 'ollama', adapter: secondary },
+        ], { failureThreshold: 2, resetMs: 60_000 });
+    });
+
+    it('should use the primary provider and record its model', async () => {
+        expect(await chain.extractTransactionData('text')).toEqual({ ...extracted, model: 'gemini-2.5-flash-lite' });
+        expect(chain.model).toBe('gemini-2.5-flash-lite');
+        expect(secondary.calls).toBe(0);
+    });
+
+    it('should fall back to the next provider when one fails', async () => {
+        primary.failing = true;
+
+        expect((await chain.extractTransactionDataFromImage('aGVsbG8=')).model).toBe('llama3.2-vision');
+        expect(primary.calls).toBe(1);
+        expect(secondary.calls).toBe(1);
+    });
+
+    it('should record the model on every transaction of a multi-transaction extraction', async () => {
+        primary.failing = true;
+
+        expect((await chain.extractTransactionsFromImage('aGVsbG8=')).map((transaction) => transaction.model))
+            .toEqual(['llama3.2-vision', 'llama3.2-vision']);
+    });
+
+    it('should skip a provider while its circuit is open and retry it after the reset', async () => {
+        primary.failing = true;
+        await chain.extractTransactionData('text');
+        await chain.extractTransactionData('text');
+        await chain.extractTransactionData('text');
+        expect(primary.calls).toBe(2);
+        expect(secondary.calls).toBe(3);
+        expect((await chain.validateProviders()).map(({ name, circuit }) => ({ name, circuit }))).toEqual([
+            { name: 'gemini', circuit: 'open' },
+            { name: 'ollama', circuit: 'closed' },
+        ]);
+
+        const now = Date.now();
+        const realNow = Date.now;
+        Date.now = () => now + 60_000;
+        try {
+            primary.failing = false;
+            expect((await chain.extractTransactionData('text')).model).toBe('gemini-2.5-flash-lite');
+            expect(primary.calls).toBe(3);
+            expect((await chain.validateProviders())[0]?.circuit).toBe('closed');
+        } finally {
+            Date.now = realNow;
+        }
+    });
+
+    it('should throw AIExtractionError when every provider fails', async () => {
+        primary.failing = true;
+        secondary.failing = true;
+
+        await expect(chain.extractTransactionData('text')).rejects.toBeInstanceOf(AIExtractionError);
+        await expect(chain.extractTransactionData('text')).rejects.toThrow('All AI providers failed');
+        await expect(chain.extractTransactionData('text')).rejects.toThrow('circuits open');
+    });
+
+    it('should report each provider and stay valid while any provider is', async () => {
+        primary.failing = true;
+
+        expect(await chain.validateApiKey()).toBe(true);
+        expect(await chain.validateProviders()).toEqual([
+            { name: 'gemini', model: 'gemini-2.5-flash-lite', connected: false, circuit: 'closed' },
+            { name: 'ollama', model: 'llama3.2-vision', connected: true, circuit: 'closed' },
+        ]);
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { GeminiAdapter } from '@/services/expense-tracker/adapters/ai/gemini.adapter';
+import { extractionResponseSchema, multipleExtractionResponseSchema } from '@/services/expense-tracker/adapters/ai/gemini-schema';
+import { AIResponseValidationError } from '@/services/expense-tracker/adapters/ai/ai.interface';
+
+/**
+ * Unit tests for Gemini structured output and response repair against a local stand-in for the Gemini API
+ */
+
+interface GenerateContentRequest {
+    contents: Array<{ role: string; parts: Array<{ text?: string }> }>;
+    generationConfig?: Record<string, unknown>;
+}
+
+const valid = JSON.stringify({ is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'debit', confidence: 0.95 });
+const invalidType = JSON.stringify({ is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'withdrawal' });
+
+describe('extractionResponseSchema', () => {
+    it('should be derived from the extracted transaction validation schema', () => {
+        expect(extractionResponseSchema).toMatchObject({
+            type: 'object',
+            required: ['is_transaction'],
+            properties: {
+                is_transaction: { type: 'boolean' },
+                amount: { type: 'number', nullable: true },
+                type: { type: 'string', format: 'enum', enum: ['debit', 'credit'], nullable: true },
+                transaction_date: { type: 'string', nullable: true },
+            },
+        });
+    });
+});
+
+describe('GeminiAdapter', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: GenerateContentRequest[];
+    let replies: string[];
+    let adapter: GeminiAdapter;
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                requests.push(await request.json() as GenerateContentRequest);
+                const text = replies.shift() ?? valid;
+                return Response.json({
+                    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+                });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(() => {
+        requests = [];
+        replies = [];
+        adapter = new GeminiAdapter('test-key', { baseUrl: `http://localhost:${server.port}` });
+    });
+
+    it('should request JSON matching the response schema', async () => {
+        expect(await adapter.extractTransactionData('You paid RM12.50 to Starbucks')).toMatchObject({
+            is_transaction: true,
+            amount: 12.5,
+            merchant: 'Starbucks',
+            type: 'debit',
+        });
+        expect(requests[0]?.generationConfig).toMatchObject({
+            responseMimeType: 'application/json',
+            responseSchema: extractionResponseSchema,
+        });
+    });
+
+    it('should request the multi-transaction response schema for every transaction', async () => {
+        replies = [JSON.stringify({ transactions: [JSON.parse(valid), { ...JSON.parse(valid), amount: 8.9, merchant: 'FamilyMart' }] })];
+
+        expect((await adapter.extractTransactionsFromImage('aGVsbG8=')).map((transaction) => transaction.merchant))
+            .toEqual(['Starbucks', 'FamilyMart']);
+        expect(requests[0]?.generationConfig).toMatchObject({
+            responseMimeType: 'application/json',
+            responseSchema: multipleExtractionResponseSchema,
+        });
+    });
+
+    it('should ask the model to repair an invalid response', async () => {
+        replies = ['not json', invalidType];
+
+        expect((await adapter.extractTransactionData('You paid RM12.50 to Starbucks')).type).toBe('debit');
+        expect(requests).toHaveLength(3);
+
+        const repair = requests[2]?.contents;
+        expect(repair?.map((content) => content.role)).toEqual(['user', 'model', 'user', 'model', 'user']);
+        expect(repair?.[2]?.parts[0]?.text).toContain('not valid JSON');
+        expect(repair?.[4]?.parts[0]?.text).toContain('- type:');
+    });
+
+    it('should give up with the validation issues after the repair attempts', async () => {
+        replies = [invalidType, invalidType, invalidType];
+
+        const error = await adapter.extractTransactionData('You paid RM12.50 to Starbucks').catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(AIResponseValidationError);
+        expect((error as AIResponseValidationError).attempts).toBe(3);
+        expect((error as AIResponseValidationError).issues[0]).toStartWith('type:');
+        expect(requests).toHaveLength(3);
+    });
+});
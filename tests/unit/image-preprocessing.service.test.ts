@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'bun:test';
+import sharp from 'sharp';
+import {
+    detectImageFormat,
+    preprocessImage,
+    ImagePreprocessingError,
+    type ImagePreprocessingOptions,
+} from '@/services/expense-tracker/services/image-preprocessing.service';
+
+/**
+ * Unit tests for screenshot format detection, cropping and downscaling
+ */
+
+const options: ImagePreprocessingOptions = { maxDimension: 1024, maxBytes: 4 * 1024 * 1024, cropSystemBars: true };
+
+async function image(width: number, height: number, format: 'png' | 'jpeg' | 'webp' = 'png'): Promise<Buffer> {
+    return sharp({ create: { width, height, channels: 3, background: { r: 240, g: 240, b: 240 } } })
+        .toFormat(format)
+        .toBuffer();
+}
+
+describe('detectImageFormat', () => {
+    it('should detect PNG, JPEG and WebP from their magic bytes', async () => {
+        expect(detectImageFormat(await image(10, 10, 'png'))).toBe('png');
+        expect(detectImageFormat(await image(10, 10, 'jpeg'))).toBe('jpeg');
+        expect(detectImageFormat(await image(10, 10, 'webp'))).toBe('webp');
+    });
+
+    it('should recognise HEIC and return undefined for unknown data', () => {
+        const heic = Buffer.concat([Buffer.from([0, 0, 0, 24]), Buffer.from('ftypheic'), Buffer.alloc(12)]);
+        expect(detectImageFormat(heic)).toBe('heic');
+        expect(detectImageFormat(Buffer.from('%PDF-1.7'))).toBeUndefined();
+    });
+});
+
+describe('preprocessImage', () => {
+    it('should pass a small image through untouched', async () => {
+        const base64 = (await image(800, 600, 'jpeg')).toString('base64');
+
+        const result = await preprocessImage(base64, options);
+        expect(result.base64).toBe(base64);
+        expect(result.mimeType).toBe('image/jpeg');
+        expect(result.details).toMatchObject({ width: 800, height: 600, cropped: false, resized: false });
+    });
+
+    it('should crop the system bars off a phone screenshot and downscale it', async () => {
+        const result = await preprocessImage((await image(1080, 2400)).toString('base64'), options);
+
+        expect(result.mimeType).toBe('image/png');
+        expect(result.details).toMatchObject({
+            format: 'png',
+            originalWidth: 1080,
+            originalHeight: 2400,
+            cropped: true,
+            resized: true,
+        });
+        // 2400 - 72 (status bar) - 120 (navigation bar) = 2208, scaled to fit 1024
+        expect(result.details.height).toBe(1024);
+        expect(result.details.width).toBe(Math.round(1080 * 1024 / 2208));
+        expect((await sharp(Buffer.from(result.base64, 'base64')).metadata()).height).toBe(1024);
+    });
+
+    it('should keep the system bars when cropping is disabled', async () => {
+        const result = await preprocessImage((await image(540, 1200)).toString('base64'), { ...options, maxDimension: 2048, cropSystemBars: false });
+
+        expect(result.details).toMatchObject({ width: 540, height: 1200, cropped: false, resized: false });
+    });
+
+    it('should reject HEIC and unknown formats', async () => {
+        const heic = Buffer.concat([Buffer.from([0, 0, 0, 24]), Buffer.from('ftypmif1'), Buffer.alloc(12)]).toString('base64');
+
+        const error = await preprocessImage(heic, options).catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(ImagePreprocessingError);
+        expect((error as ImagePreprocessingError).reason).toBe('unsupported_format');
+        expect((error as ImagePreprocessingError).message).toContain('HEIC');
+
+        await expect(preprocessImage(Buffer.from('not an image').toString('base64'), options)).rejects.toThrow('Unsupported image format');
+    });
+
+    it('should reject an image that stays over the size cap', async () => {
+        const error = await preprocessImage((await image(800, 600)).toString('base64'), { ...options, maxBytes: 100 })
+            .catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(ImagePreprocessingError);
+        expect((error as ImagePreprocessingError).reason).toBe('too_large');
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { LunchMoneyAdapter } from '@/services/expense-tracker/adapters/budget/lunch-money.adapter';
+
+/**
+ * Unit tests for the Lunch Money adapter against a local stand-in for the Lunch Money API
+ */
+
+interface RecordedRequest {
+    method: string;
+    path: string;
+    body?: { transactions: Array<Record<string, unknown>> } | undefined;
+}
+
+describe('LunchMoneyAdapter', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: RecordedRequest[];
+    let adapter: LunchMoneyAdapter;
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                const { pathname } = new URL(request.url);
+                const body = request.method === 'GET' ? undefined : await request.json() as RecordedRequest['body'];
+                requests.push({ method: request.method, path: pathname, body });
+
+                if (pathname === '/v1/transactions' && request.method === 'POST') {
+                    return Response.json({ ids: [101] });
+                }
+
+                return Response.json({ error: 'not found' }, { status: 404 });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(() => {
+        requests = [];
+        adapter = new LunchMoneyAdapter('test-token', `http://localhost:${server.port}/v1`, { limit: 0, backoffMs: 0 });
+    });
+
+    it('should send the transaction tags', async () => {
+        const result = await adapter.createTransaction({
+            date: '2025-01-15T12:30:00+08:00',
+            amount: 45.5,
+            payee: 'Starbucks',
+            account_id: '42',
+            notes: 'Latte',
+            tags: ['com.maybank2u.life', 'coffee'],
+        });
+
+        expect(result).toMatchObject({ success: true, transactionId: '101' });
+        expect(requests[0]?.body?.transactions[0]).toMatchObject({
+            date: '2025-01-15',
+            amount: 45.5,
+            payee: 'Starbucks',
+            asset_id: 42,
+            notes: 'Latte',
+            tags: ['com.maybank2u.life', 'coffee'],
+        });
+    });
+
+    it('should leave tags out when the transaction has none', async () => {
+        await adapter.createTransaction({ date: '2025-01-15', amount: 12, payee: 'Kopi Tiam', account_id: '42' });
+
+        expect(requests[0]?.body?.transactions[0]).not.toHaveProperty('tags');
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { OpenAICompatibleAdapter } from '@/services/expense-tracker/adapters/ai/openai-compatible.adapter';
+import { AIExtractionError } from '@/services/expense-tracker/adapters/ai/ai.interface';
+import { buildPrompt, withMultipleTransactions } from '@/services/expense-tracker/adapters/ai/prompts';
+
+/**
+ * Unit tests for the OpenAI-compatible adapter against a local stand-in for the chat completions API
+ */
+
+interface RecordedRequest {
+    method: string;
+    path: string;
+    authorization: string | null;
+    body?: Record<string, unknown> | undefined;
+}
+
+describe('OpenAICompatibleAdapter', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: RecordedRequest[];
+    let reply: string | null;
+
+    const createAdapter = (options: { apiKey?: string; temperature?: number } = {}) =>
+        new OpenAICompatibleAdapter({
+            baseUrl: `http://localhost:${server.port}/v1`,
+            model: 'llama3.2-vision',
+            retry: { limit: 0, backoffMs: 0 },
+            ...options,
+        });
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                const { pathname } = new URL(request.url);
+                const body = request.method === 'GET' ? undefined : await request.json() as Record<string, unknown>;
+                requests.push({ method: request.method, path: pathname, authorization: request.headers.get('authorization'), body });
+
+                if (pathname === '/v1/models') {
+                    return request.headers.get('authorization') === 'Bearer bad-key'
+                        ? Response.json({ error: { message: 'invalid key' } }, { status: 401 })
+                        : Response.json({ data: [{ id: 'llama3.2-vision' }] });
+                }
+                if (pathname === '/v1/chat/completions') {
+                    return Response.json({ choices: [{ message: { role: 'assistant', content: reply } }] });
+                }
+                return Response.json({ error: { message: 'not found' } }, { status: 404 });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(() => {
+        requests = [];
+        reply = JSON.stringify({ is_transaction: true, amount: 18.9, merchant: 'Starbucks', type: 'debit', category: 'food' });
+    });
+
+    it('should extract a transaction from notification text', async () => {
+        const result = await createAdapter({ temperature: 0.2 }).extractTransactionData('You paid RM18.90 to Starbucks');
+
+        expect(result).toMatchObject({ is_transaction: true, amount: 18.9, merchant: 'Starbucks', type: 'debit' });
+        expect(requests[0]?.authorization).toBeNull();
+        expect(requests[0]?.body).toMatchObject({
+            model: 'llama3.2-vision',
+            temperature: 0.2,
+            response_format: { type: 'json_object' },
+            messages: [{ role: 'user', content: buildPrompt('You paid RM18.90 to Starbucks') }],
+        });
+    });
+
+    it('should send screenshots as data URLs with the API key', async () => {
+        await createAdapter({ apiKey: 'sk-test' }).extractTransactionDataFromImage('aGVsbG8=', { appPackageName: 'com.tng' });
+
+        const { authorization, body } = requests[0] ?? {};
+        const content = (body?.messages as Array<{ content: Array<Record<string, unknown>> }>)[0]?.content;
+        expect(authorization).toBe('Bearer sk-test');
+        expect(body).not.toHaveProperty('temperature');
+        expect(content?.[0]).toMatchObject({ type: 'text' });
+        expect(content?.[1]).toEqual({ type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } });
+    });
+
+    it('should extract every transaction of a multi-transaction notification', async () => {
+        const text = '3 transactions today: RM12.50 Starbucks, RM8.90 FamilyMart, RM45.00 Shell';
+        reply = JSON.stringify({
+            transactions: [
+                { is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'debit' },
+                { is_transaction: true, amount: 8.9, merchant: 'FamilyMart', type: 'debit' },
+                { is_transaction: true, amount: 45, merchant: 'Shell', type: 'debit', category: null },
+            ],
+        });
+
+        const result = await createAdapter().extractTransactions(text);
+
+        expect(result.map((transaction) => transaction.merchant)).toEqual(['Starbucks', 'FamilyMart', 'Shell']);
+        expect(result[2]?.category).toBeUndefined();
+        expect(requests[0]?.body).toMatchObject({
+            messages: [{ role: 'user', content: withMultipleTransactions(buildPrompt(text)) }],
+        });
+
+        reply = JSON.stringify({ is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'debit' });
+        await expect(createAdapter().extractTransactions(text)).rejects.toBeInstanceOf(AIExtractionError);
+    });
+
+    it('should throw AIExtractionError on empty or invalid replies', async () => {
+        const adapter = createAdapter();
+
+        reply = null;
+        await expect(adapter.extractTransactionData('hello')).rejects.toBeInstanceOf(AIExtractionError);
+
+        reply = 'not json';
+        await expect(adapter.extractTransactionData('hello')).rejects.toBeInstanceOf(AIExtractionError);
+    });
+
+    it('should validate the endpoint by listing models', async () => {
+        expect(await createAdapter({ apiKey: 'sk-test' }).validateApiKey()).toBe(true);
+        expect(await createAdapter({ apiKey: 'bad-key' }).validateApiKey()).toBe(false);
+        expect(requests.map((request) => request.path)).toEqual(['/v1/models', '/v1/models']);
+    });
+});
+
+describe('buildPrompt', () => {
+    it('should include past corrections as examples', () => {
+        const prompt = buildPrompt('You paid RM5 to KK MART 123', [
+            { merchant: 'KK MART 123', payee: 'KK Mart', category: 'Groceries' },
+        ]);
+
+        expect(prompt).toContain('KK MART 123');
+        expect(prompt).toContain('KK Mart');
+        expect(prompt).toContain('Groceries');
+        expect(buildPrompt('You paid RM5 to KK MART 123')).not.toContain('PAST USER CORRECTIONS');
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'bun:test';
+import { parseQuickAdd, isQuickAddCommand } from '@/services/expense-tracker/parsers/quick-add.parser';
+
+/**
+ * Unit tests for the Telegram quick-add expense parser
+ */
+
+describe('parseQuickAdd', () => {
+    it('should parse an amount followed by a merchant', () => {
+        expect(parseQuickAdd('12.50 kopi tiam')).toEqual({
+            status: 'parsed',
+            transaction: {
+                is_transaction: true,
+                amount: 12.5,
+                merchant: 'Kopi Tiam',
+                type: 'debit',
+                currency: 'MYR',
+                category: undefined,
+                notes: undefined,
+            },
+        });
+    });
+
+    it('should split notes and category from the merchant', () => {
+        const result = parseQuickAdd('25 grab to office #transport');
+
+        expect(result.status).toBe('parsed');
+        if (result.status === 'parsed') {
+            expect(result.transaction.merchant).toBe('Grab');
+            expect(result.transaction.notes).toBe('to office');
+            expect(result.transaction.category).toBe('transport');
+        }
+    });
+
+    it('should parse the /add command with a currency', () => {
+        const result = parseQuickAdd('/add 12.50 USD Starbucks');
+
+        expect(result.status).toBe('parsed');
+        if (result.status === 'parsed') {
+            expect(result.transaction.amount).toBe(12.5);
+            expect(result.transaction.currency).toBe('USD');
+            expect(result.transaction.merchant).toBe('Starbucks');
+        }
+    });
+
+    it('should accept RM prefixes, thousands separators and income', () => {
+        const rm = parseQuickAdd('RM8 nasi lemak');
+        const income = parseQuickAdd('+1,200 salary');
+
+        expect(rm.status === 'parsed' && rm.transaction.amount).toBe(8);
+        expect(income.status === 'parsed' && income.transaction.amount).toBe(1200);
+        expect(income.status === 'parsed' && income.transaction.type).toBe('credit');
+    });
+
+    it('should ignore chat text that does not start with an amount', () => {
+        expect(parseQuickAdd('hello there')).toEqual({ status: 'not_quick_add' });
+        expect(parseQuickAdd('starbucks 12.50')).toEqual({ status: 'not_quick_add' });
+    });
+
+    it('should report ambiguous text so it can go to the AI', () => {
+        expect(parseQuickAdd('2 nasi lemak 12').status).toBe('ambiguous');
+        expect(parseQuickAdd('/add starbucks').status).toBe('ambiguous');
+        expect(parseQuickAdd('12.50').status).toBe('ambiguous');
+    });
+
+    it('should recognise the /add command addressed to the bot', () => {
+        expect(isQuickAddCommand('/add@duitmyself_bot 5 parking')).toBe(true);
+        expect(isQuickAddCommand('/address')).toBe(false);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test';
+import { Hono } from 'hono';
+import {
+    SlidingWindowRateLimiter,
+    rateLimitMiddleware,
+} from '@/shared/middleware/rate-limit.middleware';
+
+/**
+ * Unit tests for the sliding-window rate limiter
+ */
+
+describe('SlidingWindowRateLimiter', () => {
+    it('should allow requests up to the limit and then throttle', () => {
+        const limiter = new SlidingWindowRateLimiter(60000, 3);
+
+        expect(limiter.check('a', 0).allowed).toBe(true);
+        expect(limiter.check('a', 1000).allowed).toBe(true);
+        expect(limiter.check('a', 2000).remaining).toBe(0);
+
+        const throttled = limiter.check('a', 3000);
+        expect(throttled.allowed).toBe(false);
+        // Oldest hit (t=0) leaves the window at t=60000
+        expect(throttled.retryAfterSeconds).toBe(57);
+    });
+
+    it('should slide the window instead of resetting it', () => {
+        const limiter = new SlidingWindowRateLimiter(60000, 2);
+
+        limiter.check('a', 0);
+        limiter.check('a', 30000);
+
+        expect(limiter.check('a', 59000).allowed).toBe(false);
+        expect(limiter.check('a', 60001).allowed).toBe(true);
+        expect(limiter.check('a', 60002).allowed).toBe(false);
+    });
+
+    it('should track keys independently', () => {
+        const limiter = new SlidingWindowRateLimiter(60000, 1);
+
+        expect(limiter.check('a', 0).allowed).toBe(true);
+        expect(limiter.check('b', 0).allowed).toBe(true);
+        expect(limiter.check('a', 1).allowed).toBe(false);
+    });
+});
+
+/**
+ * Bun server stand-in reporting the address a request connected from
+ */
+const connectedFrom = (address: string) => ({
+    requestIP: () => ({ address, family: 'IPv4', port: 52000 }),
+});
+
+describe('rateLimitMiddleware', () => {
+    const post = (app: Hono, address: string, headers: Record<string, string> = {}) =>
+        app.request('/webhook/notification', { method: 'POST', headers }, connectedFrom(address));
+
+    const limitedApp = (trustedProxies?: string[]) => {
+        const app = new Hono();
+        app.use('/webhook/*', rateLimitMiddleware({
+            windowMs: 60000,
+            maxRequests: 1,
+            now: () => 0,
+            ...(trustedProxies ? { trustedProxies } : {}),
+        }));
+        app.post('/webhook/notification', (c) => c.json({ success: true }));
+        return app;
+    };
+
+    it('should return 429 with Retry-After once a client exceeds the limit', async () => {
+        const app = limitedApp();
+
+        const first = await post(app, '10.0.0.1');
+        const second = await post(app, '10.0.0.1');
+        const otherClient = await post(app, '10.0.0.2');
+
+        expect(first.status).toBe(200);
+        expect(second.status).toBe(429);
+        expect(second.headers.get('Retry-After')).toBe('60');
+        expect(otherClient.status).toBe(200);
+    });
+
+    it('should ignore forwarding headers from clients that are not trusted proxies', async () => {
+        const app = limitedApp(['127.0.0.1']);
+
+        await post(app, '10.0.0.1', { 'x-forwarded-for': '192.0.2.1' });
+        const spoofed = await post(app, '10.0.0.1', { 'x-forwarded-for': '192.0.2.2', 'cf-connecting-ip': '192.0.2.3' });
+
+        expect(spoofed.status).toBe(429);
+    });
+
+    it('should tell clients behind a trusted proxy apart', async () => {
+        const app = limitedApp(['127.0.0.1']);
+
+        const first = await post(app, '127.0.0.1', { 'cf-connecting-ip': '192.0.2.1' });
+        const otherClient = await post(app, '::ffff:127.0.0.1', { 'cf-connecting-ip': '192.0.2.2' });
+        const again = await post(app, '127.0.0.1', { 'cf-connecting-ip': '192.0.2.1' });
+
+        expect(first.status).toBe(200);
+        expect(otherClient.status).toBe(200);
+        expect(again.status).toBe(429);
+    });
+
+    it('should key on the hop the proxy added, not one the client made up', async () => {
+        const app = limitedApp(['127.0.0.1']);
+
+        await post(app, '127.0.0.1', { 'x-forwarded-for': '192.0.2.9, 198.51.100.1' });
+        const spoofed = await post(app, '127.0.0.1', { 'x-forwarded-for': '192.0.2.10, 198.51.100.1' });
+
+        expect(spoofed.status).toBe(429);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileReceiptStore } from '@/services/expense-tracker/repositories/file-receipt.repository';
+import { ReceiptArchiveService } from '@/services/expense-tracker/services/receipt-archive.service';
+import { computeLinkSignature } from '@/shared/middleware/webhook-auth.middleware';
+
+/**
+ * Unit tests for the screenshot archive and its links
+ */
+
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+describe('ReceiptArchiveService', () => {
+    let directory: string;
+    let store: FileReceiptStore;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'receipts-'));
+        store = new FileReceiptStore(directory);
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should store an image once under its content hash', () => {
+        const archive = new ReceiptArchiveService(store);
+
+        const first = archive.archive(png.toString('base64'));
+        const second = archive.archive(png.toString('base64'));
+
+        expect(first?.id).toMatch(/^[a-f0-9]{64}$/);
+        expect(second).toEqual(first!);
+        expect(archive.get(first!.id)).toMatchObject({ mimeType: 'image/png', bytes: png.length });
+        expect(Buffer.from(archive.get(first!.id)!.data)).toEqual(png);
+    });
+
+    it('should not look up anything that is not a receipt ID', () => {
+        expect(store.get('../../etc/passwd')).toBeUndefined();
+        expect(store.get('0'.repeat(64))).toBeUndefined();
+    });
+
+    it('should return undefined instead of failing the transaction when the image cannot be stored', () => {
+        const archive = new ReceiptArchiveService(new FileReceiptStore(join(directory, 'missing\0dir')));
+
+        expect(archive.archive(png.toString('base64'))).toBeUndefined();
+    });
+
+    it('should build signed links only with a public URL and a secret', () => {
+        const id = 'a'.repeat(64);
+
+        expect(new ReceiptArchiveService(store, { secret: 'test-secret' }).link(id)).toBeUndefined();
+        expect(new ReceiptArchiveService(store, { publicUrl: 'https://duit.example.com/' }).link(id)).toBeUndefined();
+        expect(new ReceiptArchiveService(store, { publicUrl: 'https://duit.example.com/', secret: 'test-secret' }).note(id))
+            .toBe(`🧾 https://duit.example.com/receipts/${id}?sig=${computeLinkSignature('test-secret', `/receipts/${id}`)}`);
+    });
+});
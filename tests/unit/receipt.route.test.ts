@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createReceiptRoutes } from '@/services/expense-tracker/routes/receipt.route';
+import { FileReceiptStore } from '@/services/expense-tracker/repositories/file-receipt.repository';
+import { ReceiptArchiveService } from '@/services/expense-tracker/services/receipt-archive.service';
+import { computeLinkSignature } from '@/shared/middleware/webhook-auth.middleware';
+
+/**
+ * Unit tests for GET /receipts/:id
+ */
+
+const SECRET = 'test-secret';
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+describe('createReceiptRoutes', () => {
+    let directory: string;
+    let archive: ReceiptArchiveService;
+    let id: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'receipts-'));
+        archive = new ReceiptArchiveService(new FileReceiptStore(directory));
+        id = archive.archive(png.toString('base64'))!.id;
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should serve a receipt for a signed link', async () => {
+        const app = createReceiptRoutes(archive, { secret: SECRET, toleranceSeconds: 300 });
+
+        const res = await app.request(`/receipts/${id}?sig=${computeLinkSignature(SECRET, `/receipts/${id}`)}`);
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get('content-type')).toBe('image/png');
+        expect(Buffer.from(await res.arrayBuffer())).toEqual(png);
+    });
+
+    it('should reject an unsigned link', async () => {
+        const app = createReceiptRoutes(archive, { secret: SECRET, toleranceSeconds: 300 });
+
+        expect((await app.request(`/receipts/${id}`)).status).toBe(401);
+    });
+
+    it('should not serve receipts at all without a secret', async () => {
+        const app = createReceiptRoutes(archive, { secret: undefined, toleranceSeconds: 300 });
+
+        expect((await app.request(`/receipts/${id}`)).status).toBe(404);
+        expect((await app.request(`/receipts/${id}?sig=${computeLinkSignature('', `/receipts/${id}`)}`)).status).toBe(404);
+    });
+});
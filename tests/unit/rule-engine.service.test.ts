@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { RuleEngine } from '@/services/expense-tracker/services/rule-engine.service';
+import { validateTransactionRules } from '@/shared/utils/validators';
+import type { ExtractedTransaction, TransactionRule } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for the transaction rule engine
+ */
+
+const grab: ExtractedTransaction = {
+    is_transaction: true,
+    amount: 18.5,
+    merchant: 'GRAB* A-6XYZ KL',
+    type: 'debit',
+    category: 'Shopping',
+};
+
+function apply(rules: TransactionRule[], extracted: ExtractedTransaction = grab, date = '2026-01-02T13:00:00+08:00') {
+    return new RuleEngine(rules).apply({ app: 'com.grabtaxi.passenger', extracted, date });
+}
+
+describe('RuleEngine', () => {
+    it('should rename, categorize, tag and route matching transactions', () => {
+        const outcome = apply([{
+            name: 'Grab rides',
+            match: { apps: ['com.grabtaxi.passenger'], merchant: '^grab\\b', type: 'debit', amount: { min: 5, max: 100 } },
+            actions: { payee: 'Grab', category: 'Transport', tags: ['ride'], account: 'acc-9', cleared: true },
+        }]);
+
+        expect(outcome).toEqual({
+            extracted: { ...grab, merchant: 'Grab', category: 'Transport' },
+            accountId: 'acc-9',
+            tags: ['ride'],
+            cleared: true,
+            drop: false,
+            matched: ['Grab rides'],
+        });
+        expect(grab.merchant).toBe('GRAB* A-6XYZ KL');
+    });
+
+    it('should leave transactions alone when any condition fails', () => {
+        const outcome = apply([
+            { name: 'Other app', match: { apps: ['com.shopeepay.my'] }, actions: { category: 'Shopping' } },
+            { name: 'Credits', match: { type: 'credit' }, actions: { category: 'Income' } },
+            { name: 'Big spends', match: { amount: { min: 100 } }, actions: { tags: ['big'] } },
+        ]);
+
+        expect(outcome.matched).toEqual([]);
+        expect(outcome.extracted).toEqual(grab);
+    });
+
+    it('should compare amounts without their sign', () => {
+        const refund = { ...grab, amount: -18.5, type: 'credit' as const };
+
+        expect(apply([{ name: 'Small', match: { amount: { max: 20 } }, actions: {} }], refund).matched).toEqual(['Small']);
+    });
+
+    it('should match time of day in the configured time zone, wrapping past midnight', () => {
+        const lateNight: TransactionRule[] = [{ name: 'Late', match: { time: { from: '22:00', to: '04:00' } }, actions: {} }];
+
+        expect(apply(lateNight, grab, '2026-01-02T23:30:00+08:00').matched).toEqual(['Late']);
+        expect(apply(lateNight, grab, '2026-01-02T13:00:00+08:00').matched).toEqual([]);
+        expect(apply(lateNight, grab, '2026-01-02T23:30:00').matched).toEqual(['Late']);
+    });
+
+    it('should convert UTC dates to the configured time zone before matching the time', () => {
+        const lateNight: TransactionRule[] = [{ name: 'Late', match: { time: { from: '22:00', to: '04:00' } }, actions: {} }];
+
+        // 15:30Z is 23:30 in Kuala Lumpur; 03:59Z is 11:59
+        expect(apply(lateNight, grab, '2026-01-02T15:30:00.000Z').matched).toEqual(['Late']);
+        expect(apply(lateNight, grab, '2026-01-02T03:59:00Z').matched).toEqual([]);
+
+        const london = new RuleEngine(lateNight, 'Europe/London');
+        expect(london.apply({ app: 'com.grabtaxi.passenger', extracted: grab, date: '2026-01-02T03:59:00Z' }).matched).toEqual(['Late']);
+    });
+
+    it('should apply rules in order, each seeing the changes of the ones before', () => {
+        const outcome = apply([
+            { name: 'Rename', match: { merchant: '^grab' }, actions: { payee: 'Grab', tags: ['ride'] } },
+            { name: 'Categorize', match: { merchant: '^Grab$' }, actions: { category: 'Transport', tags: ['ride', 'work'] } },
+            { name: 'Override', match: { merchant: 'grab' }, actions: { category: 'Travel' } },
+        ]);
+
+        expect(outcome.matched).toEqual(['Rename', 'Categorize', 'Override']);
+        expect(outcome.extracted.category).toBe('Travel');
+        expect(outcome.tags).toEqual(['ride', 'work']);
+    });
+
+    it('should stop at a rule that drops the transaction', () => {
+        const outcome = apply([
+            { name: 'Drop top-ups', match: { merchant: 'grab' }, actions: { drop: true } },
+            { name: 'Never reached', match: {}, actions: { category: 'Transport' } },
+        ]);
+
+        expect(outcome.drop).toBe(true);
+        expect(outcome.matched).toEqual(['Drop top-ups']);
+    });
+});
+
+describe('validateTransactionRules', () => {
+    it('should accept the example rules file', () => {
+        const example = JSON.parse(readFileSync(join(import.meta.dir, '../../config/transaction-rules.example.json'), 'utf-8'));
+
+        expect(validateTransactionRules(example).rules.length).toBeGreaterThan(0);
+    });
+
+    it('should reject invalid regexes and times', () => {
+        expect(() => validateTransactionRules({ rules: [{ name: 'Bad', match: { merchant: '(' }, actions: {} }] })).toThrow();
+        expect(() => validateTransactionRules({ rules: [{ name: 'Bad', match: { time: { from: '25:00', to: '01:00' } }, actions: {} }] })).toThrow();
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteSharedExpenseStore } from '@/services/expense-tracker/repositories/sqlite-shared-expense.repository';
+import { SharedExpenseService, SharedExpenseError } from '@/services/expense-tracker/services/shared-expense.service';
+import type { TransactionProcessor } from '@/services/expense-tracker/transaction-processor.service';
+import type { Transaction } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for shared-expense balances and settling up
+ */
+
+describe('SqliteSharedExpenseStore', () => {
+    let store: SqliteSharedExpenseStore;
+
+    beforeEach(() => {
+        store = new SqliteSharedExpenseStore(openDatabase(':memory:'));
+    });
+
+    it('should sum balances per person and currency, matching names case-insensitively', () => {
+        store.record({ participant: 'Ali', amount: 12.75, currency: 'myr', description: 'Dinner', accountId: 'acc-1', kind: 'expense' });
+        store.record({ participant: 'ali ', amount: 10.1, currency: 'MYR', description: 'Movie', accountId: 'acc-2', kind: 'expense' });
+        store.record({ participant: 'Sam', amount: 5, currency: 'USD', description: 'Coffee', accountId: 'acc-1', kind: 'expense' });
+
+        const balances = store.balances();
+
+        expect(balances.map(({ participant, currency, amount, accountId }) => ({ participant, currency, amount, accountId }))).toEqual([
+            { participant: 'ali', currency: 'MYR', amount: 22.85, accountId: 'acc-2' },
+            { participant: 'Sam', currency: 'USD', amount: 5, accountId: 'acc-1' },
+        ]);
+    });
+
+    it('should leave out settled balances', () => {
+        store.record({ participant: 'Ali', amount: 12.75, currency: 'MYR', description: 'Dinner', accountId: 'acc-1', kind: 'expense' });
+        store.record({ participant: 'Ali', amount: -12.75, currency: 'MYR', description: 'Settle up', accountId: 'acc-1', kind: 'settlement' });
+
+        expect(store.balances()).toEqual([]);
+        expect(store.list('ALI').map((entry) => entry.kind)).toEqual(['expense', 'settlement']);
+    });
+});
+
+describe('SharedExpenseService', () => {
+    let store: SqliteSharedExpenseStore;
+    let created: Transaction[];
+    let recorded: number;
+    let service: SharedExpenseService;
+
+    beforeEach(() => {
+        store = new SqliteSharedExpenseStore(openDatabase(':memory:'));
+        created = [];
+        recorded = 0;
+
+        const processor = {
+            budgetAdapter: {
+                createTransaction: (transaction: Transaction) => {
+                    created.push(transaction);
+                    return Promise.resolve({ success: true, transactionId: `txn-${created.length}` });
+                },
+            },
+            recordCreatedTransaction: () => {
+                recorded++;
+            },
+        } as unknown as TransactionProcessor;
+
+        service = new SharedExpenseService(store, processor);
+        store.record({ participant: 'Ali', amount: 30, currency: 'MYR', description: 'Dinner', accountId: 'acc-1', kind: 'expense' });
+    });
+
+    it('should settle the full balance with a credit transaction', async () => {
+        const { settled, remaining, result } = await service.settleUp('ali');
+
+        expect(settled).toBe(30);
+        expect(remaining).toBe(0);
+        expect(result.transactionId).toBe('txn-1');
+        expect(created[0]).toMatchObject({ amount: -30, payee: 'Ali', account_id: 'acc-1', currency: 'myr' });
+        expect(recorded).toBe(1);
+        expect(service.getBalances()).toEqual([]);
+    });
+
+    it('should record partial repayments', async () => {
+        const { remaining } = await service.settleUp('Ali', { amount: 12.5 });
+
+        expect(remaining).toBe(17.5);
+        expect(service.getBalances()[0]?.amount).toBe(17.5);
+    });
+
+    it('should refuse to settle more than is owed or with someone who owes nothing', async () => {
+        await expect(service.settleUp('Ali', { amount: 31 })).rejects.toBeInstanceOf(SharedExpenseError);
+        await expect(service.settleUp('Sam')).rejects.toThrow("Sam doesn't owe anything");
+        expect(created).toHaveLength(0);
+    });
+});
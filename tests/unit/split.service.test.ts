@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'bun:test';
+import { parseSplitRule } from '@/services/expense-tracker/parsers/split-rule.parser';
+import { receiptSplitRule, resolveSplit, toSplitRule, withParticipants, SplitRuleError } from '@/services/expense-tracker/services/split.service';
+import { validateExtractedTransaction, validateScreenshotWebhookPayload } from '@/shared/utils/validators';
+
+/**
+ * Unit tests for split rules: shorthand parsing and amount resolution
+ */
+
+describe('parseSplitRule', () => {
+    it('should parse an even split', () => {
+        expect(parseSplitRule('3')).toEqual({ status: 'parsed', rule: { type: 'even', ways: 3 } });
+        expect(parseSplitRule('4 ways')).toEqual({ status: 'parsed', rule: { type: 'even', ways: 4 } });
+    });
+
+    it('should parse percentage ratios', () => {
+        expect(parseSplitRule('60/40')).toEqual({
+            status: 'parsed',
+            rule: { type: 'percent', parts: [{ percent: 60 }, { percent: 40 }] },
+        });
+    });
+
+    it('should parse percentages with categories', () => {
+        expect(parseSplitRule('60% Food, 40% Groceries')).toEqual({
+            status: 'parsed',
+            rule: {
+                type: 'percent',
+                parts: [{ percent: 60, category: 'Food' }, { percent: 40, category: 'Groceries' }],
+            },
+        });
+    });
+
+    it('should parse amounts with categories and notes', () => {
+        expect(parseSplitRule('12.50 Food + RM13 Transport - taxi home')).toEqual({
+            status: 'parsed',
+            rule: {
+                type: 'amount',
+                parts: [
+                    { amount: 12.5, category: 'Food' },
+                    { amount: 13, category: 'Transport', notes: 'taxi home' },
+                ],
+            },
+        });
+    });
+
+    it('should parse who owes which part', () => {
+        expect(parseSplitRule('3 @Ali @Sam')).toEqual({
+            status: 'parsed',
+            rule: { type: 'even', ways: 3, parts: [{}, { participant: 'Ali' }, { participant: 'Sam' }] },
+        });
+        expect(parseSplitRule('20 Food, 10 Drinks @Ali - beer')).toEqual({
+            status: 'parsed',
+            rule: {
+                type: 'amount',
+                parts: [
+                    { amount: 20, category: 'Food' },
+                    { amount: 10, category: 'Drinks', notes: 'beer', participant: 'Ali' },
+                ],
+            },
+        });
+        expect(parseSplitRule('2 @Ali @Sam').status).toBe('invalid');
+    });
+
+    it('should reject single parts, mixed units and unreadable parts', () => {
+        expect(parseSplitRule('1').status).toBe('invalid');
+        expect(parseSplitRule('12.50 Food').status).toBe('invalid');
+        expect(parseSplitRule('50% Food, 10 Transport').status).toBe('invalid');
+        expect(parseSplitRule('Food, Transport').status).toBe('invalid');
+    });
+});
+
+describe('resolveSplit', () => {
+    it('should give leftover cents to the earliest parts', () => {
+        expect(resolveSplit(10, { type: 'even', ways: 3 }).map((part) => part.amount)).toEqual([3.34, 3.33, 3.33]);
+        expect(resolveSplit(25.51, { type: 'even', ways: 2 }).map((part) => part.amount)).toEqual([12.76, 12.75]);
+    });
+
+    it('should give leftover cents to the largest remainders for percentages', () => {
+        const parts = resolveSplit(10.01, { type: 'percent', parts: [{ percent: 30 }, { percent: 70 }] });
+
+        // 3.003 and 7.007 - the second part has the larger remainder
+        expect(parts.map((part) => part.amount)).toEqual([3, 7.01]);
+    });
+
+    it('should keep the sign of credits', () => {
+        expect(resolveSplit(-20, { type: 'even', ways: 2 }).map((part) => part.amount)).toEqual([-10, -10]);
+    });
+
+    it('should carry categories and notes over to the parts', () => {
+        expect(resolveSplit(25.5, {
+            type: 'amount',
+            parts: [{ amount: 12.5, category: 'Food' }, { amount: 13, notes: 'taxi' }],
+        })).toEqual([
+            { amount: 12.5, category: 'Food' },
+            { amount: 13, notes: 'taxi' },
+        ]);
+    });
+
+    it('should reject rules that do not add up', () => {
+        expect(() => resolveSplit(25, { type: 'percent', parts: [{ percent: 60 }, { percent: 30 }] }))
+            .toThrow(SplitRuleError);
+        expect(() => resolveSplit(25, { type: 'amount', parts: [{ amount: 10 }, { amount: 10 }] }))
+            .toThrow('Amounts add up to 20.00, not 25.00');
+        expect(() => resolveSplit(25, { type: 'even', ways: 1 })).toThrow(SplitRuleError);
+    });
+});
+
+describe('withParticipants', () => {
+    it('should split evenly with the participants when there is no rule', () => {
+        expect(withParticipants(undefined, ['Ali', 'Sam'])).toEqual({
+            type: 'even',
+            ways: 3,
+            parts: [{}, { participant: 'Ali' }, { participant: 'Sam' }],
+        });
+    });
+
+    it('should give participants the parts after the first', () => {
+        const rule = withParticipants({ type: 'percent', parts: [{ percent: 60 }, { percent: 40 }] }, ['Ali']);
+
+        expect(resolveSplit(50, rule!)).toEqual([{ amount: 30 }, { amount: 20, participant: 'Ali' }]);
+    });
+
+    it('should reject more participants than parts', () => {
+        expect(() => withParticipants({ type: 'even', ways: 2 }, ['Ali', 'Sam'])).toThrow(SplitRuleError);
+    });
+});
+
+describe('toSplitRule', () => {
+    it('should turn split input into a rule', () => {
+        expect(toSplitRule(undefined)).toBeUndefined();
+        expect(toSplitRule(false)).toBeUndefined();
+        expect(toSplitRule(true)).toEqual({ type: 'even', ways: 2 });
+        expect(toSplitRule('70/30')).toEqual({ type: 'percent', parts: [{ percent: 70 }, { percent: 30 }] });
+        expect(() => toSplitRule('lots')).toThrow(SplitRuleError);
+    });
+
+    it('should accept booleans, shorthand and rules in user_input', () => {
+        const payload = (split: unknown) => validateScreenshotWebhookPayload({
+            image_base64: 'abc',
+            app_package_name: 'com.example',
+            timestamp: '2026-01-15T10:00:00Z',
+            user_input: { split },
+        }).user_input?.split;
+
+        expect(payload('yes')).toBe(true);
+        expect(payload('0')).toBe(false);
+        expect(payload('60/40')).toBe('60/40');
+        expect(payload({ type: 'even', ways: 3 })).toEqual({ type: 'even', ways: 3 });
+    });
+
+    it('should accept participants as a list or comma-separated names', () => {
+        const participants = (value: unknown) => validateScreenshotWebhookPayload({
+            image_base64: 'abc',
+            app_package_name: 'com.example',
+            timestamp: '2026-01-15T10:00:00Z',
+            user_input: { participants: value },
+        }).user_input?.participants;
+
+        expect(participants('Ali, Sam ,')).toEqual(['Ali', 'Sam']);
+        expect(participants(['Ali'])).toEqual(['Ali']);
+    });
+});
+
+describe('receiptSplitRule', () => {
+    const receipt = validateExtractedTransaction({
+        is_transaction: true,
+        amount: 55.38,
+        merchant: 'AEON',
+        type: 'debit',
+        category: 'shopping',
+        line_items: [
+            { name: 'Milk', quantity: 2, price: 13.8, category: 'groceries' },
+            { name: 'Bread', quantity: null, price: 4.2, category: 'Groceries' },
+            { name: 'Prepaid reload', price: 30, category: 'utilities' },
+            { name: 'Towel', price: 6, category: null },
+            { name: 'Member discount', price: -1, category: 'groceries' },
+        ],
+        tax: 2.38,
+        service_charge: null,
+    });
+
+    it('should split an itemised receipt into one part per category', () => {
+        const rule = receiptSplitRule(receipt);
+
+        expect(rule?.type).toBe('percent');
+        expect(resolveSplit(55.38, rule!)).toEqual([
+            { amount: 18.46, category: 'groceries', notes: '2× Milk, Bread' },
+            { amount: 30.77, category: 'utilities', notes: 'Prepaid reload' },
+            { amount: 6.15, category: 'shopping', notes: 'Towel' },
+        ]);
+    });
+
+    it('should not split receipts without items in several categories', () => {
+        expect(receiptSplitRule({ is_transaction: true, amount: 10 })).toBeUndefined();
+        expect(receiptSplitRule({
+            ...receipt,
+            line_items: receipt.line_items?.map((item) => ({ ...item, category: 'groceries' })),
+        })).toBeUndefined();
+    });
+});
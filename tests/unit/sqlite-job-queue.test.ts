@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteJobQueue } from '@/shared/queue/sqlite-job-queue';
+import { PermanentJobError } from '@/shared/queue/job-queue.interface';
+
+/**
+ * Unit tests for the SQLite job queue
+ */
+
+describe('SqliteJobQueue', () => {
+    let db: Database;
+    let now: number;
+    let queue: SqliteJobQueue;
+
+    const createQueue = () => new SqliteJobQueue(db, {
+        concurrency: 2,
+        maxAttempts: 3,
+        backoffMs: 1000,
+        pollIntervalMs: 60_000,
+        now: () => now,
+    });
+
+    beforeEach(() => {
+        db = openDatabase(':memory:');
+        now = Date.UTC(2025, 0, 1);
+        queue = createQueue();
+    });
+
+    it('should run a job and remove it once completed', async () => {
+        const seen: unknown[] = [];
+        queue.registerHandler<{ amount: number }>('test', async (job) => {
+            seen.push(job.payload);
+        });
+
+        queue.enqueue('test', { amount: 12.5 });
+        await queue.tick();
+
+        expect(seen).toEqual([{ amount: 12.5 }]);
+        expect(queue.getStats()).toEqual({ pending: 0, running: 0, dead: 0 });
+    });
+
+    it('should retry failed jobs with exponential backoff', async () => {
+        const attempts: number[] = [];
+        queue.registerHandler('test', async (job) => {
+            attempts.push(job.attempts);
+            throw new Error('Gemini unavailable');
+        });
+
+        queue.enqueue('test', {});
+
+        await queue.tick();
+        expect(attempts).toEqual([1]);
+
+        // First retry is due after 1s
+        now += 999;
+        await queue.tick();
+        expect(attempts).toEqual([1]);
+        now += 1;
+        await queue.tick();
+        expect(attempts).toEqual([1, 2]);
+
+        // Second retry is due after 2s
+        now += 1999;
+        await queue.tick();
+        expect(attempts).toEqual([1, 2]);
+        now += 1;
+        await queue.tick();
+        expect(attempts).toEqual([1, 2, 3]);
+
+        // Attempts exhausted - dead-lettered
+        expect(queue.getStats()).toEqual({ pending: 0, running: 0, dead: 1 });
+    });
+
+    it('should dead-letter permanent failures immediately', async () => {
+        queue.registerHandler('test', async () => {
+            throw new PermanentJobError('Invalid payload');
+        });
+
+        queue.enqueue('test', {});
+        await queue.tick();
+
+        expect(queue.getStats().dead).toBe(1);
+    });
+
+    it('should not run more jobs than the concurrency limit per tick', async () => {
+        let active = 0;
+        let maxActive = 0;
+        queue.registerHandler('test', async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await Bun.sleep(1);
+            active--;
+        });
+
+        queue.enqueue('test', {});
+        queue.enqueue('test', {});
+        queue.enqueue('test', {});
+        await queue.tick();
+
+        expect(maxActive).toBe(2);
+        expect(queue.getStats().pending).toBe(1);
+    });
+
+    it('should resume jobs left running by a previous process on start', async () => {
+        queue.enqueue('test', {});
+        db.exec(`UPDATE jobs SET status = 'running', attempts = 1`);
+
+        const resumed = createQueue();
+        const attempts: number[] = [];
+        resumed.registerHandler('test', async (job) => {
+            attempts.push(job.attempts);
+        });
+
+        resumed.start();
+        await resumed.tick();
+        await resumed.stop();
+
+        expect(attempts).toEqual([2]);
+        expect(resumed.getStats()).toEqual({ pending: 0, running: 0, dead: 0 });
+    });
+});
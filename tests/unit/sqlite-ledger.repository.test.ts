@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteTransactionLedger } from '@/services/expense-tracker/repositories/sqlite-ledger.repository';
+import { LedgerError } from '@/services/expense-tracker/repositories/ledger.interface';
+
+/**
+ * Unit tests for the SQLite transaction ledger
+ */
+
+describe('SqliteTransactionLedger', () => {
+    let ledger: SqliteTransactionLedger;
+
+    beforeEach(() => {
+        ledger = new SqliteTransactionLedger(openDatabase(':memory:'));
+    });
+
+    it('should record every pipeline stage on a single entry', () => {
+        const id = ledger.start({
+            requestId: 'req-1',
+            source: 'notification',
+            rawPayload: { app_name: 'com.maybank2u.life', notification_text: 'You paid RM12.50' },
+            appName: 'com.maybank2u.life',
+        });
+
+        ledger.recordExtraction(id, {
+            is_transaction: true,
+            amount: 12.5,
+            merchant: 'Kopi Tiam',
+            type: 'debit',
+            confidence: 0.95,
+        });
+        ledger.recordAccount(id, '246029');
+        ledger.recordResult(id, { success: true, transactionId: '987' });
+        ledger.complete(id, 'success');
+
+        const entry = ledger.get(id);
+
+        expect(entry?.requestId).toBe('req-1');
+        expect(entry?.outcome).toBe('success');
+        expect(entry?.extracted?.merchant).toBe('Kopi Tiam');
+        expect(entry?.accountId).toBe('246029');
+        expect(entry?.result?.transactionId).toBe('987');
+        expect(entry?.rawPayload).toEqual({
+            app_name: 'com.maybank2u.life',
+            notification_text: 'You paid RM12.50',
+        });
+    });
+
+    it('should keep failed entries with their failing step', () => {
+        const id = ledger.start({ requestId: 'req-2', source: 'screenshot', rawPayload: {} });
+
+        ledger.complete(id, 'error', { step: 'budget_sync', error: 'Lunch Money returned 500' });
+
+        const failed = ledger.list({ outcome: 'error' });
+        expect(failed).toHaveLength(1);
+        expect(failed[0]?.failedStep).toBe('budget_sync');
+        expect(failed[0]?.error).toBe('Lunch Money returned 500');
+        expect(ledger.list({ outcome: 'success' })).toHaveLength(0);
+    });
+
+    it('should record the archived screenshot and add the column to an existing table', () => {
+        const db = openDatabase(':memory:');
+        db.exec(`
+            CREATE TABLE transaction_ledger (
+                id TEXT PRIMARY KEY, request_id TEXT NOT NULL, source TEXT NOT NULL, app_name TEXT,
+                raw_payload TEXT NOT NULL, extracted TEXT, account_id TEXT, result TEXT,
+                outcome TEXT NOT NULL DEFAULT 'pending', failed_step TEXT, error TEXT,
+                created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+            );
+        `);
+        const migrated = new SqliteTransactionLedger(db);
+
+        const id = migrated.start({ requestId: 'req-3', source: 'screenshot', rawPayload: {} });
+        expect(migrated.get(id)?.receiptId).toBeUndefined();
+
+        migrated.recordReceipt(id, 'a'.repeat(64));
+        expect(migrated.get(id)?.receiptId).toBe('a'.repeat(64));
+    });
+
+    it('should record the batch position and list the entries of a request', () => {
+        const first = ledger.start({ requestId: 'req-4', source: 'notification', rawPayload: {}, batchIndex: 0 });
+        ledger.start({ requestId: 'req-4', source: 'notification', rawPayload: {}, batchIndex: 1 });
+        ledger.start({ requestId: 'req-5', source: 'notification', rawPayload: {} });
+
+        expect(ledger.get(first)?.batchIndex).toBe(0);
+        expect(ledger.list({ requestId: 'req-4' }).map((entry) => entry.batchIndex).sort()).toEqual([0, 1]);
+        expect(ledger.list({ requestId: 'req-5' })[0]?.batchIndex).toBeUndefined();
+    });
+
+    it('should throw LedgerError for unknown entries', () => {
+        expect(() => ledger.recordAccount('missing', '1')).toThrow(LedgerError);
+    });
+});
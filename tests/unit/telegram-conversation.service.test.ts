@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'bun:test';
+import { join } from 'path';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteTransactionLedger } from '@/services/expense-tracker/repositories/sqlite-ledger.repository';
+import { InMemoryConversationStore } from '@/services/expense-tracker/repositories/in-memory-conversation.repository';
+import { DuplicateDetectionService } from '@/services/expense-tracker/services/duplicate-detection.service';
+import { ConversationStateService } from '@/services/expense-tracker/services/conversation-state.service';
+import { AccountSelectionService } from '@/services/expense-tracker/services/account-selection.service';
+import { RuleEngine } from '@/services/expense-tracker/services/rule-engine.service';
+import { TelegramConversationService } from '@/services/expense-tracker/services/telegram-conversation.service';
+import type { TelegramAdapter, TelegramMessage } from '@/services/expense-tracker/adapters/telegram/telegram.interface';
+import type { AIAdapter } from '@/services/expense-tracker/adapters/ai/ai.interface';
+import type { BudgetAdapter, BudgetCategory } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import type { ExtractedTransaction, Transaction, TransactionResult } from '@/shared/types/common.types';
+import type { TransactionProcessor } from '@/services/expense-tracker/transaction-processor.service';
+
+/**
+ * Unit tests for creating transactions confirmed in Telegram
+ */
+
+const CHAT_ID = 42;
+
+const coffee: ExtractedTransaction = { is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'debit', confidence: 0.95 };
+const ride: ExtractedTransaction = { is_transaction: true, amount: 18.5, merchant: 'GRAB* A-6XYZ KL', type: 'debit', confidence: 0.95 };
+const testCharge: ExtractedTransaction = { is_transaction: true, amount: 1, merchant: 'Card verification', type: 'debit', confidence: 0.95 };
+
+const rules = new RuleEngine([
+    {
+        name: 'Grab rides',
+        match: { merchant: '^grab\\b' },
+        actions: { payee: 'Grab', category: 'Transport', tags: ['ride'], account: 'acc-9', cleared: true },
+    },
+    {
+        name: 'Card checks',
+        match: { merchant: 'card verification' },
+        actions: { drop: true },
+    },
+]);
+
+/**
+ * Telegram adapter that records the texts it sends and edits
+ */
+class FakeTelegramAdapter implements TelegramAdapter {
+    texts: string[] = [];
+    private nextMessageId = 100;
+
+    sendMessage(chatId: number, text: string): Promise<TelegramMessage> {
+        this.texts.push(text);
+        return Promise.resolve({ message_id: this.nextMessageId++, chat: { id: chatId }, date: 0, text } as TelegramMessage);
+    }
+
+    sendPhoto(chatId: number): Promise<TelegramMessage> {
+        return Promise.resolve({ message_id: this.nextMessageId++, chat: { id: chatId }, date: 0 } as TelegramMessage);
+    }
+
+    editMessage(chatId: number, messageId: number, text: string): Promise<TelegramMessage> {
+        this.texts.push(text);
+        return Promise.resolve({ message_id: messageId, chat: { id: chatId }, date: 0, text } as TelegramMessage);
+    }
+
+    answerCallbackQuery(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    deleteMessage(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    getFile(): Promise<never> {
+        return Promise.reject(new Error('not used'));
+    }
+
+    downloadFile(): Promise<never> {
+        return Promise.reject(new Error('not used'));
+    }
+}
+
+/**
+ * Budget adapter that records the transactions sent to it
+ */
+class FakeBudgetAdapter implements BudgetAdapter {
+    created: Transaction[] = [];
+
+    createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        this.created.push(transaction);
+        return Promise.resolve({ success: true, transactionId: `txn-${this.created.length}` });
+    }
+
+    validateCredentials(): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    splitTransaction(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    listCategories(): Promise<BudgetCategory[]> {
+        return Promise.resolve([]);
+    }
+}
+
+const unusedAI: AIAdapter = {
+    model: 'fake',
+    extractTransactionData: () => Promise.reject(new Error('not used')),
+    extractTransactionDataFromImage: () => Promise.reject(new Error('not used')),
+    extractTransactions: () => Promise.reject(new Error('not used')),
+    extractTransactionsFromImage: () => Promise.reject(new Error('not used')),
+    validateApiKey: () => Promise.resolve(true),
+};
+
+describe('TelegramConversationService', () => {
+    let Processor: typeof TransactionProcessor;
+    let telegram: FakeTelegramAdapter;
+    let budget: FakeBudgetAdapter;
+    let conversationState: ConversationStateService;
+    let service: TelegramConversationService;
+
+    beforeAll(async () => {
+        // The processor reads the app allow-list and account mapping from config
+        process.env['LOCATIONIQ_API_KEY'] ??= 'test';
+        process.env['GEMINI_API_KEY'] ??= 'test';
+        process.env['LUNCH_MONEY_API_KEY'] ??= 'test';
+        ({ TransactionProcessor: Processor } = await import('@/services/expense-tracker/transaction-processor.service'));
+    });
+
+    beforeEach(() => {
+        const ledger = new SqliteTransactionLedger(openDatabase(':memory:'));
+        telegram = new FakeTelegramAdapter();
+        budget = new FakeBudgetAdapter();
+        conversationState = new ConversationStateService(new InMemoryConversationStore(), { ttlMinutes: 60 });
+
+        const processor = new Processor(
+            unusedAI,
+            budget,
+            { reverseGeocode: () => Promise.reject(new Error('not used')), validateApiKey: () => Promise.resolve(true) },
+            ledger,
+            new DuplicateDetectionService(ledger, { windowMinutes: 60, merchantSimilarityThreshold: 0.6 }),
+            undefined,
+            undefined,
+            rules
+        );
+        service = new TelegramConversationService(
+            telegram,
+            processor,
+            conversationState,
+            new AccountSelectionService(join(process.cwd(), 'config', 'account-mapping.json'))
+        );
+    });
+
+    it('should create both of two identical transactions when a batch is confirmed', async () => {
+        conversationState.set({
+            chatId: CHAT_ID,
+            messageId: 7,
+            state: 'awaiting_batch_review',
+            transactionData: coffee,
+            batch: [coffee, { ...coffee }],
+            appPackageName: 'com.maybank2u.life',
+            timestamp: '2026-01-15T09:00:00+08:00',
+            createdAt: new Date(),
+        });
+
+        await service.handleCallback(CHAT_ID, 'query-1', 'batch_confirm', 7);
+
+        expect(budget.created).toHaveLength(2);
+        expect(telegram.texts.at(-1)).not.toContain('duplicate');
+
+        // The same purchase confirmed again later is still a duplicate
+        conversationState.set({
+            chatId: CHAT_ID,
+            messageId: 8,
+            state: 'awaiting_batch_review',
+            transactionData: coffee,
+            batch: [coffee, { ...coffee }],
+            appPackageName: 'com.maybank2u.life',
+            timestamp: '2026-01-15T09:00:00+08:00',
+            createdAt: new Date(),
+        });
+
+        await service.handleCallback(CHAT_ID, 'query-2', 'batch_confirm', 8);
+
+        expect(budget.created).toHaveLength(2);
+        expect(telegram.texts.at(-1)).toContain('duplicate of txn-');
+    });
+
+    it('should book quick-added income as money coming in', async () => {
+        await service.handleQuickAdd(CHAT_ID, '+500 salary');
+
+        const [pending] = conversationState.getForChat(CHAT_ID);
+        conversationState.set({ ...pending!, accountId: '246029' });
+
+        await service.handleCallback(CHAT_ID, 'query-1', 'confirm', pending!.messageId);
+
+        expect(budget.created).toHaveLength(1);
+        expect(budget.created[0]!.amount).toBe(-500);
+        expect(budget.created[0]!.payee).toBe('Salary');
+    });
+
+    it('should run the transaction rules on a confirmed batch', async () => {
+        conversationState.set({
+            chatId: CHAT_ID,
+            messageId: 7,
+            state: 'awaiting_batch_review',
+            transactionData: ride,
+            batch: [ride, testCharge],
+            appPackageName: 'com.maybank2u.life',
+            timestamp: '2026-01-15T09:00:00+08:00',
+            createdAt: new Date(),
+        });
+
+        await service.handleCallback(CHAT_ID, 'query-1', 'batch_confirm', 7);
+
+        expect(budget.created).toHaveLength(1);
+        expect(budget.created[0]).toMatchObject({
+            payee: 'Grab',
+            category: 'Transport',
+            account_id: 'acc-9',
+            status: 'cleared',
+            tags: ['com.maybank2u.life', 'ride'],
+        });
+        expect(telegram.texts.at(-1)).toContain('Dropped by rule \'Card checks\'');
+    });
+
+    it('should keep an account picked by hand over the one a rule routes to', async () => {
+        await service.handleQuickAdd(CHAT_ID, '18.50 grab to office');
+
+        const [pending] = conversationState.getForChat(CHAT_ID);
+        conversationState.set({ ...pending!, accountId: '246029' });
+
+        await service.handleCallback(CHAT_ID, 'query-1', 'confirm', pending!.messageId);
+
+        expect(budget.created).toHaveLength(1);
+        expect(budget.created[0]).toMatchObject({ payee: 'Grab', category: 'Transport', account_id: '246029' });
+    });
+});
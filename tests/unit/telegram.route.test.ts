@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import type { TelegramConversationService } from '@/services/expense-tracker/services/telegram-conversation.service';
+import type { TelegramUpdate } from '@/services/expense-tracker/adapters/telegram/telegram.interface';
+import type { createTelegramRoutes } from '@/services/expense-tracker/routes/telegram.route';
+import type { config } from '@/shared/config/config';
+
+/**
+ * Unit tests for POST /webhook/telegram
+ */
+
+const EXPENSE_CHAT_ID = 42;
+
+/**
+ * Conversation service that records the chats it handled messages for
+ */
+function recordingService() {
+    const handled: number[] = [];
+    const service = {
+        handleTextMessage: (chatId: number) => {
+            handled.push(chatId);
+            return Promise.resolve();
+        },
+        handleCallback: (chatId: number) => {
+            handled.push(chatId);
+            return Promise.resolve();
+        },
+    } as unknown as TelegramConversationService;
+
+    return { service, handled };
+}
+
+describe('createTelegramRoutes', () => {
+    let createRoutes: typeof createTelegramRoutes;
+    let appConfig: typeof config;
+
+    beforeAll(async () => {
+        // The routes read the webhook secrets from config
+        process.env['LOCATIONIQ_API_KEY'] ??= 'test';
+        process.env['GEMINI_API_KEY'] ??= 'test';
+        process.env['LUNCH_MONEY_API_KEY'] ??= 'test';
+        ({ createTelegramRoutes: createRoutes } = await import('@/services/expense-tracker/routes/telegram.route'));
+        ({ config: appConfig } = await import('@/shared/config/config'));
+    });
+
+    const post = (app: ReturnType<typeof createTelegramRoutes>, update: TelegramUpdate) => {
+        const secretToken = appConfig.security.telegramSecretToken;
+
+        return app.request('/webhook/telegram', {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                ...(secretToken ? { 'x-telegram-bot-api-secret-token': secretToken } : {}),
+            },
+            body: JSON.stringify(update),
+        });
+    };
+
+    const message = (chatId: number): TelegramUpdate => ({
+        update_id: 1,
+        message: { message_id: 5, chat: { id: chatId, type: 'private' }, date: 0, text: '12.50 kopi' },
+    } as TelegramUpdate);
+
+    it('should handle messages from the expense chat', async () => {
+        const { service, handled } = recordingService();
+        const app = createRoutes(service, String(EXPENSE_CHAT_ID));
+
+        const res = await post(app, message(EXPENSE_CHAT_ID));
+
+        expect(res.status).toBe(200);
+        expect(handled).toEqual([EXPENSE_CHAT_ID]);
+    });
+
+    it('should ignore messages and button presses from other chats', async () => {
+        const { service, handled } = recordingService();
+        const app = createRoutes(service, String(EXPENSE_CHAT_ID));
+
+        const res = await post(app, message(666));
+        await post(app, {
+            update_id: 2,
+            callback_query: { id: 'query-1', from: { id: 666 }, data: 'confirm', message: { message_id: 5, chat: { id: 666, type: 'private' }, date: 0 } },
+        } as TelegramUpdate);
+
+        expect(res.status).toBe(200);
+        expect(handled).toEqual([]);
+    });
+
+    it('should ignore every chat when no expense chat is configured', async () => {
+        const { service, handled } = recordingService();
+        const app = createRoutes(service, '');
+
+        await post(app, message(EXPENSE_CHAT_ID));
+
+        expect(handled).toEqual([]);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { TemplateAdapter } from '@/services/expense-tracker/adapters/ai/template.adapter';
+import type { AIAdapter } from '@/services/expense-tracker/adapters/ai/ai.interface';
+import type { ExtractedTransaction } from '@/shared/types/common.types';
+
+/**
+ * Unit tests for template extraction of known notification formats
+ */
+
+const MAE = 'com.maybank2u.life';
+const TNG = 'my.com.tngdigital.ewallet';
+const GRAB = 'com.grabtaxi.passenger';
+
+const aiResult: ExtractedTransaction = { is_transaction: true, amount: 1, merchant: 'From AI', type: 'debit', confidence: 0.9 };
+
+describe('TemplateAdapter', () => {
+    let fallbackCalls: string[];
+    let adapter: TemplateAdapter;
+
+    beforeEach(() => {
+        fallbackCalls = [];
+        const fallback: AIAdapter = {
+            model: 'test-model',
+            extractTransactionData: async (text) => {
+                fallbackCalls.push(text);
+                return aiResult;
+            },
+            extractTransactions: async (text) => {
+                fallbackCalls.push(text);
+                return [aiResult, aiResult];
+            },
+            extractTransactionDataFromImage: async () => aiResult,
+            extractTransactionsFromImage: async () => [aiResult],
+            validateApiKey: async () => true,
+        };
+        adapter = new TemplateAdapter(fallback);
+    });
+
+    it('should parse known notifications without calling the AI', async () => {
+        expect(await adapter.extractTransactionData('You have successfully paid RM12.50 to STARBUCKS KLCC.', { app: MAE })).toEqual({
+            is_transaction: true,
+            amount: 12.5,
+            merchant: 'STARBUCKS KLCC',
+            type: 'debit',
+            currency: 'MYR',
+            category: undefined,
+            reference: undefined,
+            confidence: 1,
+            notes: 'You have successfully paid RM12.50 to STARBUCKS KLCC.',
+            model: 'template:mae-payment',
+        });
+        expect(fallbackCalls).toEqual([]);
+    });
+
+    it('should parse transfers, credits and thousands separators', async () => {
+        expect(await adapter.extractTransactionData(
+            "You've successfully transferred RM 1,250.00 to AHMAD BIN ALI via DuitNow. Ref: 8812345",
+            { app: MAE }
+        )).toMatchObject({ amount: 1250, merchant: 'AHMAD BIN ALI', type: 'debit', category: 'transfer', reference: '8812345' });
+
+        expect(await adapter.extractTransactionData('You have received RM20.00 from Siti.', { app: TNG }))
+            .toMatchObject({ amount: 20, merchant: 'Siti', type: 'credit', category: 'transfer' });
+
+        expect(await adapter.extractTransactionData('You paid RM15.00 to Kopitiam\nwith GrabPay Wallet.', { app: GRAB }))
+            .toMatchObject({ amount: 15, merchant: 'Kopitiam', type: 'debit' });
+
+        expect(await adapter.extractTransactionData('Payment of RM8.90 to FamilyMart is successful.'))
+            .toMatchObject({ amount: 8.9, merchant: 'FamilyMart', type: 'debit' });
+        expect(fallbackCalls).toEqual([]);
+    });
+
+    it('should fall through to the AI when no template of the app matches', async () => {
+        const promo = 'Get 10% cashback when you pay with MAE this weekend!';
+        const withBalance = 'You have paid RM8.90 to FamilyMart. Your balance is RM100.00.';
+        const otherApp = 'You have paid RM8.90 to FamilyMart.';
+
+        expect(await adapter.extractTransactionData(promo, { app: MAE })).toBe(aiResult);
+        expect(await adapter.extractTransactionData(withBalance, { app: TNG })).toBe(aiResult);
+        expect(await adapter.extractTransactionData(otherApp, { app: GRAB })).toBe(aiResult);
+        expect(fallbackCalls).toEqual([promo, withBalance, otherApp]);
+    });
+
+    it('should return a matched notification as the only transaction of a multi-transaction extraction', async () => {
+        const summary = '3 transactions today: RM12.50 Starbucks, RM8.90 FamilyMart, RM45.00 Shell';
+
+        expect(await adapter.extractTransactions('You have paid RM8.90 to FamilyMart.', { app: TNG }))
+            .toMatchObject([{ amount: 8.9, merchant: 'FamilyMart', confidence: 1 }]);
+        expect(await adapter.extractTransactions(summary, { app: MAE })).toEqual([aiResult, aiResult]);
+        expect(fallbackCalls).toEqual([summary]);
+    });
+
+    it('should send screenshots to the AI', async () => {
+        expect(adapter.model).toBe('test-model');
+        expect(await adapter.extractTransactionDataFromImage('aGVsbG8=')).toBe(aiResult);
+    });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'bun:test';
+import { openDatabase } from '@/shared/db/sqlite';
+import { SqliteTransactionLedger } from '@/services/expense-tracker/repositories/sqlite-ledger.repository';
+import { DuplicateDetectionService } from '@/services/expense-tracker/services/duplicate-detection.service';
+import type { AIAdapter } from '@/services/expense-tracker/adapters/ai/ai.interface';
+import type { BudgetAdapter, BudgetCategory } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import { BudgetAPIError } from '@/services/expense-tracker/adapters/budget/budget.interface';
+import { createJobWideEvent } from '@/shared/middleware/wide-event.middleware';
+import type { ExtractedTransaction, Transaction, TransactionResult, WebhookPayload } from '@/shared/types/common.types';
+import type { TransactionProcessor } from '@/services/expense-tracker/transaction-processor.service';
+
+/**
+ * Unit tests for processing a notification with several transactions
+ */
+
+const coffee: ExtractedTransaction = { is_transaction: true, amount: 12.5, merchant: 'Starbucks', type: 'debit', confidence: 0.95 };
+
+const payload: WebhookPayload = {
+    app_name: 'com.maybank2u.life',
+    notification_title: 'Maybank2u',
+    notification_text: '2 transactions: RM12.50 at Starbucks, RM12.50 at Starbucks',
+    timestamp: '2026-01-15T09:00:00+08:00',
+};
+
+/**
+ * AI adapter that extracts the same coffee twice
+ */
+class TwoCoffeesAdapter implements AIAdapter {
+    readonly model = 'fake';
+
+    extractTransactionData(): Promise<ExtractedTransaction> {
+        return Promise.resolve(coffee);
+    }
+
+    extractTransactionDataFromImage(): Promise<ExtractedTransaction> {
+        return Promise.resolve(coffee);
+    }
+
+    extractTransactions(): Promise<ExtractedTransaction[]> {
+        return Promise.resolve([coffee, { ...coffee }]);
+    }
+
+    extractTransactionsFromImage(): Promise<ExtractedTransaction[]> {
+        return this.extractTransactions();
+    }
+
+    validateApiKey(): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+}
+
+/**
+ * Budget adapter that fails the calls listed in `failCalls` (1-based) with `failStatus`
+ */
+class FakeBudgetAdapter implements BudgetAdapter {
+    created: Transaction[] = [];
+    failCalls = new Set<number>();
+    failStatus = 503;
+    private calls = 0;
+
+    createTransaction(transaction: Transaction): Promise<TransactionResult> {
+        this.calls++;
+        if (this.failCalls.has(this.calls)) {
+            return Promise.reject(new BudgetAPIError('Budget API is down', this.failStatus));
+        }
+        this.created.push(transaction);
+        return Promise.resolve({ success: true, transactionId: `txn-${this.created.length}` });
+    }
+
+    validateCredentials(): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    splitTransaction(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    listCategories(): Promise<BudgetCategory[]> {
+        return Promise.resolve([]);
+    }
+}
+
+describe('TransactionProcessor batches', () => {
+    let Processor: typeof TransactionProcessor;
+    let budget: FakeBudgetAdapter;
+    let processor: TransactionProcessor;
+
+    const attempt = (attemptNumber: number) => processor.processTransaction(payload, createJobWideEvent({
+        name: 'transaction.notification',
+        trigger: 'queue',
+        id: 'job-1',
+        attempt: attemptNumber,
+        max_attempts: 3,
+    }, 'req-1'));
+
+    beforeAll(async () => {
+        // The processor reads the app allow-list and account mapping from config
+        process.env['LOCATIONIQ_API_KEY'] ??= 'test';
+        process.env['GEMINI_API_KEY'] ??= 'test';
+        process.env['LUNCH_MONEY_API_KEY'] ??= 'test';
+        ({ TransactionProcessor: Processor } = await import('@/services/expense-tracker/transaction-processor.service'));
+    });
+
+    beforeEach(() => {
+        const ledger = new SqliteTransactionLedger(openDatabase(':memory:'));
+        budget = new FakeBudgetAdapter();
+        processor = new Processor(
+            new TwoCoffeesAdapter(),
+            budget,
+            { reverseGeocode: () => Promise.reject(new Error('not used')), validateApiKey: () => Promise.resolve(true) },
+            ledger,
+            new DuplicateDetectionService(ledger, { windowMinutes: 60, merchantSimilarityThreshold: 0.6 })
+        );
+    });
+
+    it('should create two identical transactions of the same batch', async () => {
+        const result = await attempt(1);
+
+        expect(result.success).toBe(true);
+        expect(budget.created).toHaveLength(2);
+        expect(budget.created.map((transaction) => transaction.payee)).toEqual(['Starbucks', 'Starbucks']);
+    });
+
+    it('should only create the failed transactions when the batch is retried', async () => {
+        budget.failCalls.add(2);
+
+        const first = await attempt(1);
+        expect(first.success).toBe(false);
+        expect(first.retriable).toBe(true);
+        expect(budget.created).toHaveLength(1);
+
+        const retry = await attempt(2);
+        expect(retry.success).toBe(true);
+        expect(budget.created).toHaveLength(2);
+        expect((retry.metadata?.['transactions'] as TransactionResult[]).map((item) => item.transactionId)).toEqual(['txn-1', 'txn-2']);
+    });
+
+    it('should not retry a batch the budget API rejected', async () => {
+        budget.failCalls.add(2);
+        budget.failStatus = 400;
+
+        const result = await attempt(1);
+
+        expect(result.success).toBe(false);
+        expect(result.retriable).toBe(false);
+    });
+
+    it('should still catch the same purchase arriving in another request', async () => {
+        await attempt(1);
+
+        const again = await processor.processTransaction(payload, createJobWideEvent({ name: 'transaction.notification', trigger: 'queue' }, 'req-2'));
+
+        expect(again.success).toBe(false);
+        expect(budget.created).toHaveLength(2);
+    });
+});
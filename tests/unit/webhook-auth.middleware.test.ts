@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'bun:test';
+import { Hono } from 'hono';
+import {
+    computeLinkSignature,
+    computeWebhookSignature,
+    signedLinkMiddleware,
+    telegramSecretTokenMiddleware,
+    webhookSignatureMiddleware,
+} from '@/shared/middleware/webhook-auth.middleware';
+
+/**
+ * Unit tests for webhook authentication middleware
+ *
+ * Tests:
+ * - HMAC signature verification with replay protection
+ * - Telegram secret token verification
+ * - Signed link verification
+ * - Pass-through when no secret is configured
+ */
+
+const SECRET = 'test-secret';
+const NOW = 1767706329000;
+
+function createSignedApp(secret: string | undefined) {
+    const app = new Hono();
+    app.post('/webhook', webhookSignatureMiddleware(secret, { now: () => NOW }), async (c) => {
+        const body = await c.req.json();
+        return c.json({ success: true, body });
+    });
+    return app;
+}
+
+function signedRequest(body: string, timestamp: string, signature: string) {
+    return new Request('http://localhost/webhook', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Signature': signature,
+            'X-Signature-Timestamp': timestamp,
+        },
+        body,
+    });
+}
+
+describe('webhookSignatureMiddleware', () => {
+    const body = JSON.stringify({ app: 'com.maybank2u.life', text: 'You paid RM12.50' });
+    const timestamp = String(NOW / 1000);
+
+    it('should accept a correctly signed request and keep the body readable', async () => {
+        const app = createSignedApp(SECRET);
+        const signature = computeWebhookSignature(SECRET, timestamp, body);
+
+        const res = await app.request(signedRequest(body, timestamp, signature));
+        const json = await res.json() as { success: boolean; body: unknown };
+
+        expect(res.status).toBe(200);
+        expect(json.body).toEqual(JSON.parse(body));
+    });
+
+    it('should accept signatures with a sha256= prefix', async () => {
+        const app = createSignedApp(SECRET);
+        const signature = `sha256=${computeWebhookSignature(SECRET, timestamp, body)}`;
+
+        const res = await app.request(signedRequest(body, timestamp, signature));
+
+        expect(res.status).toBe(200);
+    });
+
+    it('should reject a tampered body', async () => {
+        const app = createSignedApp(SECRET);
+        const signature = computeWebhookSignature(SECRET, timestamp, body);
+
+        const res = await app.request(signedRequest(body.replace('12.50', '1250'), timestamp, signature));
+
+        expect(res.status).toBe(401);
+    });
+
+    it('should reject a request outside the tolerance window', async () => {
+        const app = createSignedApp(SECRET);
+        const staleTimestamp = String(NOW / 1000 - 600);
+        const signature = computeWebhookSignature(SECRET, staleTimestamp, body);
+
+        const res = await app.request(signedRequest(body, staleTimestamp, signature));
+
+        expect(res.status).toBe(401);
+    });
+
+    it('should reject a request without signature headers', async () => {
+        const app = createSignedApp(SECRET);
+
+        const res = await app.request('/webhook', { method: 'POST', body });
+
+        expect(res.status).toBe(401);
+    });
+
+    it('should pass through when no secret is configured', async () => {
+        const app = createSignedApp(undefined);
+
+        const res = await app.request('/webhook', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+        });
+
+        expect(res.status).toBe(200);
+    });
+});
+
+describe('telegramSecretTokenMiddleware', () => {
+    function createTelegramApp(secret: string | undefined) {
+        const app = new Hono();
+        app.post('/webhook/telegram', telegramSecretTokenMiddleware(secret), (c) => c.json({ ok: true }));
+        return app;
+    }
+
+    it('should accept the configured secret token', async () => {
+        const res = await createTelegramApp(SECRET).request('/webhook/telegram', {
+            method: 'POST',
+            headers: { 'X-Telegram-Bot-Api-Secret-Token': SECRET },
+        });
+
+        expect(res.status).toBe(200);
+    });
+
+    it('should reject a wrong or missing secret token', async () => {
+        const app = createTelegramApp(SECRET);
+
+        const wrong = await app.request('/webhook/telegram', {
+            method: 'POST',
+            headers: { 'X-Telegram-Bot-Api-Secret-Token': 'nope' },
+        });
+        const missing = await app.request('/webhook/telegram', { method: 'POST' });
+
+        expect(wrong.status).toBe(401);
+        expect(missing.status).toBe(401);
+    });
+});
+
+describe('signedLinkMiddleware', () => {
+    function createLinkApp(secret: string) {
+        const app = new Hono();
+        app.get('/receipts/:id', signedLinkMiddleware(secret, { now: () => NOW }), (c) => c.text(c.req.param('id')));
+        return app;
+    }
+
+    it('should accept a link signed for its path', async () => {
+        const res = await createLinkApp(SECRET).request(`/receipts/abc?sig=${computeLinkSignature(SECRET, '/receipts/abc')}`);
+
+        expect(res.status).toBe(200);
+        expect(await res.text()).toBe('abc');
+    });
+
+    it('should reject a missing signature or one signed for another path', async () => {
+        const app = createLinkApp(SECRET);
+
+        const missing = await app.request('/receipts/abc');
+        const otherPath = await app.request(`/receipts/abc?sig=${computeLinkSignature(SECRET, '/receipts/def')}`);
+
+        expect(missing.status).toBe(401);
+        expect(otherPath.status).toBe(401);
+    });
+
+    it('should accept a request signed with the webhook headers', async () => {
+        const timestamp = String(NOW / 1000);
+        const res = await createLinkApp(SECRET).request('/receipts/abc', {
+            headers: {
+                'X-Signature': computeWebhookSignature(SECRET, timestamp, ''),
+                'X-Signature-Timestamp': timestamp,
+            },
+        });
+
+        expect(res.status).toBe(200);
+    });
+});
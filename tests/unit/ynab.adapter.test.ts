@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { YnabAdapter, toMilliunits } from '@/services/expense-tracker/adapters/budget/ynab.adapter';
+import { BudgetAPIError } from '@/services/expense-tracker/adapters/budget/budget.interface';
+
+/**
+ * Unit tests for the YNAB adapter against a local stand-in for the YNAB API
+ */
+
+interface RecordedRequest {
+    method: string;
+    path: string;
+    body?: { transaction: Record<string, unknown> } | undefined;
+}
+
+describe('YnabAdapter', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: RecordedRequest[];
+    let adapter: YnabAdapter;
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                const { pathname } = new URL(request.url);
+                const body = request.method === 'GET' ? undefined : await request.json() as RecordedRequest['body'];
+                requests.push({ method: request.method, path: pathname, body });
+
+                if (request.headers.get('authorization') !== 'Bearer test-token') {
+                    return Response.json({ error: { id: '401', name: 'unauthorized' } }, { status: 401 });
+                }
+
+                if (pathname === '/v1/user') {
+                    return Response.json({ data: { user: { id: 'user-1' } } });
+                }
+                if (pathname === '/v1/budgets/budget-1/payees') {
+                    return Response.json({
+                        data: {
+                            payees: [
+                                { id: 'payee-starbucks', name: 'Starbucks', deleted: false },
+                                { id: 'payee-transfer', name: 'Transfer : Savings', deleted: false, transfer_account_id: 'acc-2' },
+                            ],
+                        },
+                    });
+                }
+                if (pathname === '/v1/budgets/budget-1/transactions' && request.method === 'POST') {
+                    return Response.json({ data: { transaction_ids: ['txn-1'], transaction: { id: 'txn-1', amount: body?.transaction.amount } } }, { status: 201 });
+                }
+                if (pathname === '/v1/budgets/budget-1/transactions/txn-1' && request.method === 'PUT') {
+                    return Response.json({ data: { transaction: { id: 'txn-1', amount: -45500, subtransactions: [{ id: 's1', amount: -22750 }, { id: 's2', amount: -22750 }] } } });
+                }
+                if (pathname === '/v1/budgets/budget-1/categories') {
+                    return Response.json({
+                        data: {
+                            category_groups: [
+                                {
+                                    id: 'g1', name: 'Everyday', hidden: false, deleted: false,
+                                    categories: [
+                                        { id: 'cat-dining', name: 'Dining Out', hidden: false, deleted: false },
+                                        { id: 'cat-old', name: 'Old Stuff', hidden: true, deleted: false },
+                                    ],
+                                },
+                                {
+                                    id: 'g2', name: 'Archived', hidden: true, deleted: false,
+                                    categories: [{ id: 'cat-hidden', name: 'Hidden', hidden: false, deleted: false }],
+                                },
+                            ],
+                        },
+                    });
+                }
+
+                return Response.json({ error: { id: '404', name: 'not_found' } }, { status: 404 });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(() => {
+        requests = [];
+        adapter = new YnabAdapter('test-token', 'budget-1', `http://localhost:${server.port}/v1`, { limit: 0, backoffMs: 0 });
+    });
+
+    it('should convert amounts to milliunits with outflows negative', () => {
+        expect(toMilliunits(45.5)).toBe(-45500);
+        expect(toMilliunits(-1200)).toBe(1200000);
+        expect(toMilliunits(0.1 + 0.2)).toBe(-300);
+    });
+
+    it('should create a transaction using an existing payee and the category ID', async () => {
+        const result = await adapter.createTransaction({
+            date: '2025-01-15T12:30:00+08:00',
+            amount: 45.5,
+            payee: 'starbucks',
+            account_id: 'acc-1',
+            category_id: 'cat-dining',
+            notes: 'Latte',
+            status: 'uncleared',
+        });
+
+        expect(result).toMatchObject({ success: true, transactionId: 'txn-1' });
+
+        const create = requests.find((request) => request.method === 'POST');
+        expect(create?.body?.transaction).toMatchObject({
+            account_id: 'acc-1',
+            date: '2025-01-15',
+            amount: -45500,
+            payee_id: 'payee-starbucks',
+            category_id: 'cat-dining',
+            memo: 'Latte',
+            cleared: 'uncleared',
+        });
+    });
+
+    it('should add the tags to the memo as hashtags, cutting the notes to fit', async () => {
+        await adapter.createTransaction({
+            date: '2025-01-15',
+            amount: 12,
+            payee: 'Starbucks',
+            account_id: 'acc-1',
+            notes: 'x'.repeat(250),
+            tags: ['com.maybank2u.life', 'coffee'],
+        });
+
+        const memo = requests.find((request) => request.method === 'POST')?.body?.transaction.memo as string;
+        expect(memo).toHaveLength(200);
+        expect(memo.endsWith('x #com.maybank2u.life #coffee')).toBe(true);
+    });
+
+    it('should send the payee name when YNAB has no matching payee', async () => {
+        await adapter.createTransaction({ date: '2025-01-15', amount: 12, payee: 'Kopi Tiam', account_id: 'acc-1' });
+
+        const create = requests.find((request) => request.method === 'POST');
+        expect(create?.body?.transaction.payee_name).toBe('Kopi Tiam');
+        expect(create?.body?.transaction.payee_id).toBeUndefined();
+        expect(create?.body?.transaction.category_id).toBeNull();
+    });
+
+    it('should split a transaction into subtransactions', async () => {
+        await adapter.splitTransaction('txn-1', [
+            { amount: 22.76, category_id: 'cat-dining' },
+            { amount: 22.75, notes: 'Paid by Ali' },
+        ]);
+
+        const update = requests.find((request) => request.method === 'PUT');
+        expect(update?.path).toBe('/v1/budgets/budget-1/transactions/txn-1');
+        expect(update?.body?.transaction.subtransactions).toEqual([
+            { amount: -22760, category_id: 'cat-dining', memo: null },
+            { amount: -22750, category_id: null, memo: 'Paid by Ali' },
+        ]);
+    });
+
+    it('should list visible categories with their group', async () => {
+        expect(await adapter.listCategories()).toEqual([
+            { id: 'cat-dining', name: 'Dining Out', groupName: 'Everyday', isIncome: false },
+        ]);
+    });
+
+    it('should validate credentials', async () => {
+        expect(await adapter.validateCredentials()).toBe(true);
+
+        const invalid = new YnabAdapter('wrong', 'budget-1', `http://localhost:${server.port}/v1`, { limit: 0, backoffMs: 0 });
+        expect(await invalid.validateCredentials()).toBe(false);
+    });
+
+    it('should throw a BudgetAPIError when the API rejects the transaction', async () => {
+        const unauthorized = new YnabAdapter('wrong', 'budget-1', `http://localhost:${server.port}/v1`, { limit: 0, backoffMs: 0 });
+
+        await expect(unauthorized.createTransaction({ date: '2025-01-15', amount: 12, payee: 'Tesco', account_id: 'acc-1' }))
+            .rejects.toBeInstanceOf(BudgetAPIError);
+    });
+});